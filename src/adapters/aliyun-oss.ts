@@ -17,6 +17,7 @@ export interface S3Config {
     accessKeyId: string
     accessKeySecret: string
     region: string
+    presignedUrls?: boolean  // Hand out presigned GET URLs (the bucket needs CORS for the web vault)
 }
 
 /**
@@ -27,10 +28,12 @@ export class AliyunOSS implements IBlobStorage {
     private client: AwsClient
     private endpoint: string
     private bucket: string
+    private presignedUrls: boolean
 
     private constructor(config: S3Config) {
         this.bucket = config.bucket
         this.endpoint = config.endpoint
+        this.presignedUrls = !!config.presignedUrls
         this.client = new AwsClient({
             accessKeyId: config.accessKeyId,
             secretAccessKey: config.accessKeySecret,
@@ -123,6 +126,20 @@ export class AliyunOSS implements IBlobStorage {
         }
     }
 
+    async presignGet(key: string, expiresIn: number): Promise<string | null> {
+        if (!this.presignedUrls) {
+            return null
+        }
+
+        const url = new URL(this.objectUrl(key))
+        url.searchParams.set('X-Amz-Expires', String(expiresIn))
+        const signed = await this.client.sign(url.toString(), {
+            method: 'GET',
+            aws: { signQuery: true },
+        })
+        return signed.url
+    }
+
     async list(options?: { prefix?: string }): Promise<{ objects: { key: string }[] }> {
         const url = new URL(`${this.endpoint}/${this.bucket}`)
         url.searchParams.set('list-type', '2')
@@ -0,0 +1,247 @@
+/**
+ * Accounts Handlers Module
+ *
+ * Exports handler functions for account lifecycle: deleting an account while
+ * logged in, or through an emailed link when the user can't log in, plus the
+ * master password check and "log out all sessions".
+ */
+
+import { Context } from 'hono'
+import type { Bindings, UserData } from '../types'
+import {
+    getUser,
+    deleteUser,
+    putUser,
+    getDevicesByUser,
+    putDevice,
+    deleteDevice,
+    deleteRefreshSessionsByUser,
+    getAuthRequestsByUser,
+    deleteAuthRequests
+} from '../storage/kv'
+import { deleteVault } from '../storage/s3'
+import { errorResponse, rateLimitedResponse, rotateSecurityStamp, checkLoginLimits, loginFailed } from './auth'
+import { deleteDevice as deletePushDevice, notifyLogout } from './push'
+import { getClientIp } from '../utils/auth'
+import { signToken, verifyToken } from '../utils/jwt'
+import { sendMail } from '../utils/mail'
+import { verifyMasterPassword } from '../utils/password'
+import { throttle, resetLimit, MAIL_POLICY } from '../utils/rate-limit'
+import { deletePendingTwoFactor } from '../utils/two-factor'
+
+type AppContext = Context<{ Bindings: Bindings }>
+
+// Delete links are valid for 24 hours, like the other emailed tokens
+const DELETE_RECOVER_TTL = 24 * 3600
+
+// --------------------------------------------------------------------------
+// Helpers
+// --------------------------------------------------------------------------
+
+/**
+ * Erases everything stored for a user: vault blobs, devices and their push
+ * registrations, refresh sessions, pending auth requests, two-factor codes and
+ * per-account limiter state, then the user record (with its usage counters).
+ * The user record goes last so a failed deletion can simply be retried.
+ */
+const deleteAccount = async (env: Bindings, user: UserData): Promise<void> => {
+    // Log out other devices while they are still registered for push
+    await notifyLogout(env, user.id)
+
+    await deleteVault(env.VAULT, user.id)
+
+    for (const device of await getDevicesByUser(env.DB, user.id)) {
+        if (device.pushUuid) await deletePushDevice(env, device.pushUuid)
+        await deleteDevice(env.DB, device)
+    }
+    await deleteRefreshSessionsByUser(env.DB, user.id)
+
+    const requests = await getAuthRequestsByUser(env.DB, user.id)
+    await deleteAuthRequests(env.DB, user.id, requests.map(r => r.id))
+
+    await deletePendingTwoFactor(env, user.id)
+
+    // A lockout left behind would hit whoever registers the address next.
+    // Per-IP entries are not tied to the account and run out on their own.
+    await resetLimit(env.DB, 'login', user.email)
+    await resetLimit(env.DB, 'login', `user.${user.id}`)
+    await resetLimit(env.DB, 'mail', user.email)
+    await resetLimit(env.DB, 'auth-request', user.email)
+
+    await deleteUser(env.DB, user)
+
+    console.log(`[NanoVault] Deleted account ${user.id} (${user.email})`)
+}
+
+// --------------------------------------------------------------------------
+// Delete Account Handler (DELETE /api/accounts, POST /api/accounts/delete)
+// --------------------------------------------------------------------------
+
+export const handleDelete = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const body = await c.req.json<any>().catch(() => ({}))
+
+    const user = await getUser(c.env.DB, payload.email)
+    if (!user) {
+        return errorResponse(c, 'User not found', 404)
+    }
+
+    const blocked = await checkLoginLimits(c, user.email)
+    if (blocked) return blocked
+
+    if (!await verifyMasterPassword(user, body.MasterPasswordHash || body.masterPasswordHash)) {
+        return loginFailed(c, user.email, user, 'Invalid password.')
+    }
+
+    await deleteAccount(c.env, user)
+
+    return c.json({})
+}
+
+// --------------------------------------------------------------------------
+// Delete Recover Handler (anonymous, emails a delete link)
+// --------------------------------------------------------------------------
+
+export const handleDeleteRecover = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const email = (body.email || '').toLowerCase()
+
+    if (!email) {
+        return errorResponse(c, 'Email required')
+    }
+
+    const status = await throttle(c.env.DB, [
+        { scope: 'mail', subject: email, policy: MAIL_POLICY },
+        { scope: 'mail-ip', subject: getClientIp(c), policy: MAIL_POLICY }
+    ])
+    if (!status.allowed) return rateLimitedResponse(c, status.retryAfter)
+
+    const user = await getUser(c.env.DB, email)
+    if (user) {
+        // Bound to the stamp, so the link dies with any password change or logout-all
+        const token = await signToken(c.env, 'delete_recover', {
+            sub: user.id,
+            email: user.email,
+            stamp: user.securityStamp,
+            type: 'delete_recover',
+            exp: Math.floor(Date.now() / 1000) + DELETE_RECOVER_TTL
+        })
+
+        const baseUrl = new URL(c.req.url).origin
+        const deleteUrl = `${baseUrl}/#/verify-recover-delete?userId=${encodeURIComponent(user.id)}&token=${encodeURIComponent(token)}&email=${encodeURIComponent(user.email)}`
+
+        if (c.env.RESEND_API_KEY) {
+            await sendMail(
+                c.env,
+                user.email,
+                'Delete your Nanovault account',
+                `
+                <h1>Delete Account</h1>
+                <p>We received a request to delete your Nanovault account and all of its data.</p>
+                <p><a href="${deleteUrl}">Delete my account</a></p>
+                <p>This link will expire in 24 hours. Deletion cannot be undone.</p>
+                <p>If you did not request this, you can safely ignore this email.</p>
+                `
+            )
+        }
+
+        console.log(`[NanoVault] Delete recover request for ${user.email}: ${deleteUrl}`)
+    }
+
+    // Always return 200 OK to prevent account enumeration
+    return c.json({})
+}
+
+// --------------------------------------------------------------------------
+// Delete Recover Token Handler (anonymous, follows the emailed link)
+// --------------------------------------------------------------------------
+
+export const handleDeleteRecoverToken = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const { userId, token } = body
+
+    if (!userId || !token) {
+        return errorResponse(c, 'Missing required fields')
+    }
+
+    let tokenPayload
+    try {
+        tokenPayload = await verifyToken(c.env, 'delete_recover', token)
+    } catch {
+        return errorResponse(c, 'Invalid token.')
+    }
+
+    const user = await getUser(c.env.DB, tokenPayload.email as string)
+    if (!user || user.id !== userId || tokenPayload.sub !== userId || tokenPayload.stamp !== user.securityStamp) {
+        return errorResponse(c, 'Invalid token.')
+    }
+
+    await deleteAccount(c.env, user)
+
+    return c.json({})
+}
+
+// --------------------------------------------------------------------------
+// Verify Password Handler (before export and other sensitive actions)
+// --------------------------------------------------------------------------
+
+export const handleVerifyPassword = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const body = await c.req.json<any>()
+
+    const user = await getUser(c.env.DB, payload.email)
+    if (!user) {
+        return errorResponse(c, 'User not found', 404)
+    }
+
+    const blocked = await checkLoginLimits(c, user.email)
+    if (blocked) return blocked
+
+    if (!await verifyMasterPassword(user, body.MasterPasswordHash || body.masterPasswordHash)) {
+        return loginFailed(c, user.email, user, 'Invalid password.')
+    }
+
+    return c.json({})
+}
+
+// --------------------------------------------------------------------------
+// Security Stamp Handler ("deauthorize sessions")
+// --------------------------------------------------------------------------
+
+export const handleSecurityStamp = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const body = await c.req.json<any>()
+
+    const user = await getUser(c.env.DB, payload.email)
+    if (!user) {
+        return errorResponse(c, 'User not found', 404)
+    }
+
+    const blocked = await checkLoginLimits(c, user.email)
+    if (blocked) return blocked
+
+    const masterPasswordHash = body.MasterPasswordHash || body.masterPasswordHash
+    if (!await verifyMasterPassword(user, masterPasswordHash)) {
+        return loginFailed(c, user.email, user, 'Invalid password.')
+    }
+
+    // New stamp revokes every access and refresh token
+    await rotateSecurityStamp(c.env, user, masterPasswordHash)
+    user.updatedAt = new Date().toISOString()
+    await putUser(c.env.DB, user)
+    await deleteRefreshSessionsByUser(c.env.DB, user.id)
+
+    // Tell devices to log out, then stop pushing to them until they log in again
+    await notifyLogout(c.env, user.id)
+    for (const device of await getDevicesByUser(c.env.DB, user.id)) {
+        if (!device.pushUuid && !device.pushToken) continue
+        if (device.pushUuid) await deletePushDevice(c.env, device.pushUuid)
+        device.pushToken = undefined
+        device.pushUuid = undefined
+        await putDevice(c.env.DB, device)
+    }
+
+    console.log(`[NanoVault] Deauthorized all sessions for ${user.email}`)
+
+    return c.json({})
+}
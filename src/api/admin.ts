@@ -0,0 +1,54 @@
+/**
+ * Admin Handlers Module
+ *
+ * Exports handler functions for server administration, behind ADMIN_TOKEN:
+ * issuing and revoking signup invites.
+ */
+
+import { Context } from 'hono'
+import type { Bindings, Invite } from '../types'
+import { getUser, putInvite, deleteInvite } from '../storage/kv'
+import { errorResponse, sendRegistrationLink } from './auth'
+import { INVITE_TTL_MS } from '../utils/signup'
+
+type AppContext = Context<{ Bindings: Bindings }>
+
+// --------------------------------------------------------------------------
+// Create Invite Handler
+// --------------------------------------------------------------------------
+
+export const handleCreateInvite = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const email = (body.email || '').trim().toLowerCase()
+
+    if (!email || !email.includes('@')) {
+        return errorResponse(c, 'Valid email required')
+    }
+
+    if (await getUser(c.env.DB, email)) {
+        return errorResponse(c, 'User already exists')
+    }
+
+    // Re-inviting replaces the previous invite and restarts its expiry
+    const now = Date.now()
+    const invite: Invite = {
+        id: crypto.randomUUID(),
+        email,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + INVITE_TTL_MS).toISOString()
+    }
+    await putInvite(c.env.DB, invite)
+
+    const registerUrl = await sendRegistrationLink(c, email, body.name || '', INVITE_TTL_MS / 1000)
+
+    return c.json({ ...invite, registerUrl, object: 'invite' })
+}
+
+// --------------------------------------------------------------------------
+// Revoke Invite Handler
+// --------------------------------------------------------------------------
+
+export const handleDeleteInvite = async (c: AppContext) => {
+    await deleteInvite(c.env.DB, c.req.param('email'))
+    return c.json({})
+}
@@ -0,0 +1,216 @@
+/**
+ * Attachments Handlers Module
+ *
+ * Exports handler functions for cipher attachments. Clients encrypt files
+ * before upload, so the server only stores opaque blobs in VAULT and their
+ * metadata on the cipher. Uploads follow Bitwarden's two-step flow: v2
+ * registers the attachment, then the file is posted to it directly.
+ * Downloads use short-lived signed URLs, see utils/attachment-url.ts.
+ */
+
+import { Context } from 'hono'
+import type { Bindings, AttachmentMeta } from '../types'
+import { getCipher, putCipher, getAttachment, putAttachment, deleteAttachment } from '../storage/s3'
+import { errorResponse } from './auth'
+import { notifyCipherUpdate } from './push'
+import { getAttachmentUrl, verifyAttachmentUrl, withAttachmentUrls } from '../utils/attachment-url'
+import { checkStorageQuota, recordStorageUsage, cipherUsage, usageChange, formatSize } from '../utils/quota'
+
+type AppContext = Context<{ Bindings: Bindings }>
+
+// Workers reject request bodies above 100 MB
+const MAX_ATTACHMENT_SIZE = 100 * 1024 * 1024
+// Bitwarden allows the uploaded size to differ slightly from the declared one
+const ATTACHMENT_SIZE_LEEWAY = 1024 * 1024
+// Bitwarden's fileUploadType for uploads straight to the server
+const FILE_UPLOAD_TYPE_DIRECT = 0
+
+// --------------------------------------------------------------------------
+// Create Attachment Handler (POST /api/ciphers/:id/attachment/v2)
+// --------------------------------------------------------------------------
+
+export const handleCreate = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const userId = payload.sub as string
+    const cipherId = c.req.param('id')
+    const body = await c.req.json<any>()
+
+    const key = body.key ?? body.Key
+    const fileName = body.fileName ?? body.FileName
+    const fileSize = Number(body.fileSize ?? body.FileSize)
+
+    if (!key || !fileName) {
+        return errorResponse(c, 'Attachment key and file name required')
+    }
+    if (!Number.isInteger(fileSize) || fileSize <= 0) {
+        return errorResponse(c, 'Invalid file size')
+    }
+    if (fileSize > MAX_ATTACHMENT_SIZE) {
+        return errorResponse(c, `Max file size is ${formatSize(MAX_ATTACHMENT_SIZE)}.`)
+    }
+
+    const cipher = await getCipher(c.env.VAULT, userId, cipherId)
+    if (!cipher) {
+        return errorResponse(c, 'Cipher not found', 404)
+    }
+
+    const attachmentId = crypto.randomUUID()
+    const attachment: AttachmentMeta = {
+        id: attachmentId,
+        fileName,
+        size: fileSize,
+        sizeName: formatSize(fileSize),
+        key,
+        pending: true
+    }
+
+    // Listed on the cipher right away, as clients expect it in cipherResponse.
+    // Its size only counts once the file is uploaded, but a file that could
+    // not fit is refused here already.
+    const before = cipherUsage(cipher)
+    cipher.attachments = [...(cipher.attachments ?? []), attachment]
+    cipher.revisionDate = new Date().toISOString()
+
+    const change = usageChange(before, cipherUsage(cipher))
+    const quotaError = await checkStorageQuota(c.env, userId, { ...change, bytes: change.bytes + fileSize })
+    if (quotaError) {
+        return errorResponse(c, quotaError)
+    }
+
+    await putCipher(c.env.VAULT, userId, cipher)
+    await recordStorageUsage(c.env, userId, change)
+
+    return c.json({
+        attachmentId,
+        url: `${new URL(c.req.url).origin}/api/ciphers/${cipherId}/attachment/${attachmentId}`,
+        fileUploadType: FILE_UPLOAD_TYPE_DIRECT,
+        cipherResponse: await withAttachmentUrls(c.env, new URL(c.req.url).origin, userId, cipher),
+        cipherMiniResponse: null,
+        object: 'attachment-fileUpload'
+    })
+}
+
+// --------------------------------------------------------------------------
+// Upload Attachment Handler (POST /api/ciphers/:id/attachment/:attachmentId)
+// --------------------------------------------------------------------------
+
+export const handleUpload = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const userId = payload.sub as string
+    const cipherId = c.req.param('id')
+    const attachmentId = c.req.param('attachmentId')
+
+    const cipher = await getCipher(c.env.VAULT, userId, cipherId)
+    const attachment = cipher?.attachments?.find(a => a.id === attachmentId)
+    if (!cipher || !attachment) {
+        return errorResponse(c, 'Attachment not found', 404)
+    }
+
+    const form = await c.req.parseBody()
+    const file = form['data']
+    if (!(file instanceof File)) {
+        return errorResponse(c, 'No attachment data provided')
+    }
+
+    if (Math.abs(file.size - attachment.size) > ATTACHMENT_SIZE_LEEWAY) {
+        return errorResponse(c, 'File size does not match the declared size')
+    }
+
+    const before = cipherUsage(cipher)
+    attachment.size = file.size
+    attachment.sizeName = formatSize(file.size)
+    delete attachment.pending
+    cipher.revisionDate = new Date().toISOString()
+
+    const change = usageChange(before, cipherUsage(cipher))
+    const quotaError = await checkStorageQuota(c.env, userId, change)
+    if (quotaError) {
+        return errorResponse(c, quotaError)
+    }
+
+    await putAttachment(c.env.VAULT, userId, cipherId, attachmentId, await file.arrayBuffer(), {
+        contentType: 'application/octet-stream',
+        fileName: attachment.fileName
+    })
+    await putCipher(c.env.VAULT, userId, cipher)
+    await recordStorageUsage(c.env, userId, change)
+
+    notifyCipherUpdate(c.env, userId, cipherId, cipher.revisionDate)
+
+    return c.json({}, 200)
+}
+
+// --------------------------------------------------------------------------
+// Get Attachment Handler (metadata and download URL)
+// --------------------------------------------------------------------------
+
+export const handleGet = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const userId = payload.sub as string
+    const cipherId = c.req.param('id')
+    const attachmentId = c.req.param('attachmentId')
+
+    const cipher = await getCipher(c.env.VAULT, userId, cipherId)
+    const attachment = cipher?.attachments?.find(a => a.id === attachmentId)
+    if (!attachment) {
+        return errorResponse(c, 'Attachment not found', 404)
+    }
+
+    return c.json({
+        ...attachment,
+        url: await getAttachmentUrl(c.env, new URL(c.req.url).origin, userId, cipherId, attachmentId),
+        object: 'attachment'
+    })
+}
+
+// --------------------------------------------------------------------------
+// Delete Attachment Handler
+// --------------------------------------------------------------------------
+
+export const handleDelete = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const userId = payload.sub as string
+    const cipherId = c.req.param('id')
+    const attachmentId = c.req.param('attachmentId')
+
+    const cipher = await getCipher(c.env.VAULT, userId, cipherId)
+    if (!cipher?.attachments?.some(a => a.id === attachmentId)) {
+        return errorResponse(c, 'Attachment not found', 404)
+    }
+
+    await deleteAttachment(c.env.VAULT, userId, cipherId, attachmentId)
+
+    const before = cipherUsage(cipher)
+    cipher.attachments = cipher.attachments.filter(a => a.id !== attachmentId)
+    cipher.revisionDate = new Date().toISOString()
+    await putCipher(c.env.VAULT, userId, cipher)
+    await recordStorageUsage(c.env, userId, usageChange(before, cipherUsage(cipher)))
+
+    notifyCipherUpdate(c.env, userId, cipherId, cipher.revisionDate)
+
+    return c.json({ cipher: await withAttachmentUrls(c.env, new URL(c.req.url).origin, userId, cipher) })
+}
+
+// --------------------------------------------------------------------------
+// Download Handler (signed URL, streams the encrypted file from VAULT)
+// --------------------------------------------------------------------------
+
+export const handleDownload = async (c: AppContext) => {
+    const cipherId = c.req.param('cipherId')
+    const attachmentId = c.req.param('attachmentId')
+    const { uid: userId, expires, signature } = c.req.query()
+
+    if (!await verifyAttachmentUrl(c.env, userId, cipherId, attachmentId, expires, signature)) {
+        return errorResponse(c, 'Invalid or expired download link', 403)
+    }
+
+    const blob = await getAttachment(c.env.VAULT, userId, cipherId, attachmentId)
+    if (!blob?.body) {
+        return errorResponse(c, 'Attachment not found', 404)
+    }
+
+    return c.body(blob.body, 200, {
+        'Content-Type': 'application/octet-stream',
+        'Cache-Control': 'private, no-store'
+    })
+}
@@ -0,0 +1,252 @@
+/**
+ * Auth Requests Handlers Module
+ *
+ * Exports handler functions for "log in with device": creating a request from
+ * a new device, listing and answering it from a logged-in device, and polling
+ * for the answer.
+ */
+
+import { Context } from 'hono'
+import type { Bindings, AuthRequest } from '../types'
+import {
+    AUTH_REQUEST_AUTHENTICATE_AND_UNLOCK,
+    AUTH_REQUEST_UNLOCK,
+    DEVICE_TYPE_ANDROID,
+    DEVICE_TYPE_IOS,
+    DEVICE_TYPE_CHROME_EXTENSION,
+    DEVICE_TYPE_FIREFOX_EXTENSION,
+    DEVICE_TYPE_OPERA_EXTENSION,
+    DEVICE_TYPE_EDGE_EXTENSION,
+    DEVICE_TYPE_WINDOWS,
+    DEVICE_TYPE_MACOS,
+    DEVICE_TYPE_LINUX,
+    DEVICE_TYPE_CHROME_BROWSER,
+    DEVICE_TYPE_FIREFOX_BROWSER,
+    DEVICE_TYPE_OPERA_BROWSER,
+    DEVICE_TYPE_EDGE_BROWSER,
+    DEVICE_TYPE_IE_BROWSER,
+    DEVICE_TYPE_CLI,
+    DEVICE_TYPE_SAFARI_BROWSER,
+    DEVICE_TYPE_ANDROID_AMAZON
+} from '../types'
+import {
+    getUser,
+    getDevice,
+    getDeviceIdentifiers,
+    getAuthRequest,
+    getAuthRequestsByUser,
+    putAuthRequest,
+    deleteAuthRequests
+} from '../storage/kv'
+import { errorResponse, rateLimitedResponse } from './auth'
+import { notifyAuthRequest, notifyAuthRequestResponse } from './push'
+import { getClientIp } from '../utils/auth'
+import { isAuthRequestExpired, accessCodeMatches } from '../utils/auth-request'
+import { throttle, AUTH_REQUEST_POLICY } from '../utils/rate-limit'
+
+type AppContext = Context<{ Bindings: Bindings }>
+
+// Display names shown on the approving device
+const DEVICE_TYPE_NAMES: Record<number, string> = {
+    [DEVICE_TYPE_ANDROID]: 'Android',
+    [DEVICE_TYPE_IOS]: 'iOS',
+    [DEVICE_TYPE_CHROME_EXTENSION]: 'Chrome Extension',
+    [DEVICE_TYPE_FIREFOX_EXTENSION]: 'Firefox Extension',
+    [DEVICE_TYPE_OPERA_EXTENSION]: 'Opera Extension',
+    [DEVICE_TYPE_EDGE_EXTENSION]: 'Edge Extension',
+    [DEVICE_TYPE_WINDOWS]: 'Windows',
+    [DEVICE_TYPE_MACOS]: 'macOS',
+    [DEVICE_TYPE_LINUX]: 'Linux',
+    [DEVICE_TYPE_CHROME_BROWSER]: 'Chrome',
+    [DEVICE_TYPE_FIREFOX_BROWSER]: 'Firefox',
+    [DEVICE_TYPE_OPERA_BROWSER]: 'Opera',
+    [DEVICE_TYPE_EDGE_BROWSER]: 'Edge',
+    [DEVICE_TYPE_IE_BROWSER]: 'Internet Explorer',
+    [DEVICE_TYPE_CLI]: 'CLI',
+    [DEVICE_TYPE_SAFARI_BROWSER]: 'Safari',
+    [DEVICE_TYPE_ANDROID_AMAZON]: 'Android'
+}
+
+// --------------------------------------------------------------------------
+// Helpers
+// --------------------------------------------------------------------------
+
+const buildAuthRequestResponse = (c: AppContext, request: AuthRequest) => ({
+    id: request.id,
+    publicKey: request.publicKey,
+    requestDeviceType: DEVICE_TYPE_NAMES[request.requestDeviceType] ?? 'Unknown',
+    requestDeviceTypeValue: request.requestDeviceType,
+    requestDeviceIdentifier: request.requestDeviceIdentifier,
+    requestIpAddress: request.requestIpAddress,
+    requestCountryName: null,
+    key: request.key,
+    masterPasswordHash: request.masterPasswordHash,
+    creationDate: request.creationDate,
+    responseDate: request.responseDate,
+    requestApproved: request.approved,
+    origin: new URL(c.req.url).origin,
+    object: 'auth-request'
+})
+
+/** Loads a request owned by the current user, or null if missing or expired */
+const getOwnAuthRequest = async (c: AppContext, id: string): Promise<AuthRequest | null> => {
+    const payload = c.get('jwtPayload')
+    const request = await getAuthRequest(c.env.DB, id)
+    if (!request || request.userId !== payload.sub || isAuthRequestExpired(request)) {
+        return null
+    }
+    return request
+}
+
+// --------------------------------------------------------------------------
+// Create Auth Request Handler (anonymous, from the new device)
+// --------------------------------------------------------------------------
+
+export const handleCreate = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+
+    const email = (body.email as string)?.toLowerCase()
+    const { publicKey, deviceIdentifier, accessCode } = body
+    const type = body.type ?? AUTH_REQUEST_AUTHENTICATE_AND_UNLOCK
+
+    if (!email || !publicKey || !deviceIdentifier || !accessCode) {
+        return errorResponse(c, 'Missing required fields')
+    }
+    if (type !== AUTH_REQUEST_AUTHENTICATE_AND_UNLOCK && type !== AUTH_REQUEST_UNLOCK) {
+        return errorResponse(c, 'Unsupported auth request type')
+    }
+
+    const status = await throttle(c.env.DB, [
+        { scope: 'auth-request', subject: email, policy: AUTH_REQUEST_POLICY },
+        { scope: 'auth-request-ip', subject: getClientIp(c), policy: AUTH_REQUEST_POLICY }
+    ])
+    if (!status.allowed) return rateLimitedResponse(c, status.retryAfter)
+
+    // Another of the user's devices has to be there to approve
+    const user = await getUser(c.env.DB, email)
+    const approvers = user
+        ? (await getDeviceIdentifiers(c.env.DB, user.id)).filter(id => id !== deviceIdentifier)
+        : []
+
+    const request: AuthRequest = {
+        id: crypto.randomUUID(),
+        userId: user?.id ?? '',
+        type,
+        requestDeviceIdentifier: deviceIdentifier,
+        requestDeviceType: parseInt(c.req.header('Device-Type') ?? '') || 0,
+        requestIpAddress: getClientIp(c),
+        accessCode,
+        publicKey,
+        key: null,
+        masterPasswordHash: null,
+        approved: null,
+        responseDeviceIdentifier: null,
+        creationDate: new Date().toISOString(),
+        responseDate: null,
+        authenticationDate: null
+    }
+
+    // Without an account or a device to ask, answer the same way but keep
+    // nothing, so the response does not reveal which emails are registered.
+    // The request then simply never gets approved.
+    if (!user || approvers.length === 0) {
+        return c.json(buildAuthRequestResponse(c, request))
+    }
+
+    await putAuthRequest(c.env.DB, request)
+
+    // Prompt the user's logged-in devices to approve
+    notifyAuthRequest(c.env, user.id, request.id)
+
+    return c.json(buildAuthRequestResponse(c, request))
+}
+
+// --------------------------------------------------------------------------
+// List Auth Requests Handler
+// --------------------------------------------------------------------------
+
+export const handleList = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const requests = await getAuthRequestsByUser(c.env.DB, payload.sub)
+
+    // Drop expired requests while we have them loaded
+    const expired = requests.filter(r => isAuthRequestExpired(r)).map(r => r.id)
+    await deleteAuthRequests(c.env.DB, payload.sub, expired)
+
+    return c.json({
+        data: requests
+            .filter(r => !expired.includes(r.id))
+            .map(r => buildAuthRequestResponse(c, r)),
+        continuationToken: null,
+        object: 'list'
+    })
+}
+
+// --------------------------------------------------------------------------
+// Get Auth Request Handler
+// --------------------------------------------------------------------------
+
+export const handleGet = async (c: AppContext) => {
+    const request = await getOwnAuthRequest(c, c.req.param('id'))
+    if (!request) {
+        return errorResponse(c, 'Auth request not found', 404)
+    }
+
+    return c.json(buildAuthRequestResponse(c, request))
+}
+
+// --------------------------------------------------------------------------
+// Answer Auth Request Handler (approve / deny from a logged-in device)
+// --------------------------------------------------------------------------
+
+export const handleUpdate = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const body = await c.req.json<any>()
+
+    const request = await getOwnAuthRequest(c, c.req.param('id'))
+    if (!request) {
+        return errorResponse(c, 'Auth request not found', 404)
+    }
+    if (request.approved !== null) {
+        return errorResponse(c, 'Auth request has already been answered')
+    }
+
+    // Only one of the user's own devices may answer
+    const device = body.deviceIdentifier ? await getDevice(c.env.DB, body.deviceIdentifier) : null
+    if (!device || device.userId !== payload.sub) {
+        return errorResponse(c, 'Invalid device')
+    }
+
+    const approved = body.requestApproved === true
+    if (approved && !body.key) {
+        return errorResponse(c, 'Key is required to approve the request')
+    }
+
+    request.approved = approved
+    request.key = approved ? body.key : null
+    request.masterPasswordHash = approved ? (body.masterPasswordHash ?? null) : null
+    request.responseDeviceIdentifier = device.identifier
+    request.responseDate = new Date().toISOString()
+
+    await putAuthRequest(c.env.DB, request)
+
+    // Wake the requesting device so it fetches the answer
+    notifyAuthRequestResponse(c.env, request.userId, request.id)
+
+    return c.json(buildAuthRequestResponse(c, request))
+}
+
+// --------------------------------------------------------------------------
+// Auth Request Response Handler (anonymous, polled by the new device)
+// --------------------------------------------------------------------------
+
+export const handleResponse = async (c: AppContext) => {
+    const request = await getAuthRequest(c.env.DB, c.req.param('id'))
+    const code = c.req.query('code') ?? ''
+
+    if (!request || isAuthRequestExpired(request) || !accessCodeMatches(request, code)) {
+        return errorResponse(c, 'Auth request not found', 404)
+    }
+
+    return c.json(buildAuthRequestResponse(c, request))
+}
@@ -1,16 +1,62 @@
 /**
  * Authentication Handlers Module
  * 
- * Exports handler functions for: Prelogin, Register, Token, Email/Password change
+ * Exports handler functions for: Prelogin, Register, Token (incl. SSO code grant), Email/Password/KDF change, Set password
  */
 
 import { Context } from 'hono'
-import { sign, verify } from 'hono/jwt'
-import type { Bindings, PreloginRequest, PreloginResponse, UserData, FinishRegisterRequest, Device } from '../types'
-import { getUser, putUser, getDevice, putDevice } from '../storage/kv'
-import { getSecret } from '../utils/auth'
-import { isPushEnabled, registerDevice } from './push'
+import type {
+    Bindings,
+    PreloginRequest,
+    PreloginResponse,
+    UserData,
+    FinishRegisterRequest,
+    Device,
+    RefreshSession
+} from '../types'
+import { TWO_FACTOR_REMEMBER, KDF_PBKDF2, KDF_ARGON2, DEVICE_TYPE_CLI } from '../types'
+import {
+    getUser,
+    getUserById,
+    putUser,
+    putUserIdIndex,
+    getDevice,
+    putDevice,
+    getDevicesByUser,
+    getDeviceIdentifiers,
+    getRefreshSession,
+    putRefreshSession,
+    deleteRefreshSession
+} from '../storage/kv'
+import { getClientIp } from '../utils/auth'
+import { signToken, verifyToken } from '../utils/jwt'
+import { setMasterPassword, verifyMasterPassword, needsRehash, simulateMasterPasswordCheck } from '../utils/password'
+import { isPushEnabled, registerDevice, notifyLogout } from './push'
 import { sendMail } from '../utils/mail'
+import {
+    getEnabledProviders,
+    buildProviderChallenge,
+    verifyTwoFactorToken,
+    issueRememberToken,
+    verifyRememberToken,
+    sendEmailCode,
+    verifyEmailCode
+} from '../utils/two-factor'
+import { consumeAuthRequest } from '../utils/auth-request'
+import { checkSignupAllowed, consumeInvite } from '../utils/signup'
+import { getDecoyKdfSettings } from '../utils/prelogin'
+import { isSsoEnabled, consumeSsoCode, type SsoIdentity } from '../utils/sso'
+import {
+    checkLimit,
+    recordAttempt,
+    resetLimit,
+    type LimitStatus,
+    throttle,
+    LOGIN_ACCOUNT_POLICY,
+    LOGIN_IP_POLICY,
+    PRELOGIN_IP_POLICY,
+    MAIL_POLICY
+} from '../utils/rate-limit'
 
 type AppContext = Context<{ Bindings: Bindings }>
 
@@ -20,13 +66,17 @@ type AppContext = Context<{ Bindings: Bindings }>
 
 const ACCESS_TOKEN_TTL = 3600           // 1 hour in seconds
 const REFRESH_TOKEN_TTL = 7 * 24 * 3600 // 7 days in seconds
+const NEW_ACCOUNT_GRACE_MS = 24 * 3600 * 1000 // No device checks for new accounts
+const NEW_DEVICE_VERIFICATION_REQUIRED = 'new device verification required'
+const API_KEY_LENGTH = 30
+const API_KEY_CHARSET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
 
 // --------------------------------------------------------------------------
 // Helpers
 // --------------------------------------------------------------------------
 
 /** Bitwarden-style error response */
-export const errorResponse = (c: AppContext, message: string, statusCode: 400 | 401 | 403 | 404 | 500 = 400) => {
+export const errorResponse = (c: AppContext, message: string, statusCode: 400 | 401 | 403 | 404 | 429 | 500 = 400) => {
     return c.json({
         message: message,
         validationErrors: { '': [message] },
@@ -35,23 +85,252 @@ export const errorResponse = (c: AppContext, message: string, statusCode: 400 |
     }, statusCode)
 }
 
-/** 
- * Server-side hash of masterPasswordHash for storage.
- * Uses securityStamp as salt to prevent rainbow table attacks.
+/** 429 with Retry-After, for throttled endpoints outside the token endpoint */
+export const rateLimitedResponse = (c: AppContext, retryAfter: number) => {
+    c.header('Retry-After', String(retryAfter))
+    return errorResponse(c, 'Slow down! Too many requests. Try again soon.', 429)
+}
+
+/**
+ * Rotates the security stamp, revoking every issued token.
+ * Legacy hashes are salted with the stamp, so the hash is recomputed too.
+ */
+export async function rotateSecurityStamp(env: Bindings, user: UserData, masterPasswordHash: string): Promise<void> {
+    user.securityStamp = crypto.randomUUID()
+    await setMasterPassword(env, user, masterPasswordHash)
+}
+
+interface KdfSettings {
+    kdf: number
+    kdfIterations: number
+    kdfMemory?: number
+    kdfParallelism?: number
+}
+
+/** Checks KDF settings against Bitwarden's limits, returning an error message if invalid */
+function validateKdfSettings(settings: KdfSettings): string | null {
+    const { kdf, kdfIterations, kdfMemory, kdfParallelism } = settings
+    const inRange = (value: number | undefined, min: number, max: number) =>
+        Number.isInteger(value) && value! >= min && value! <= max
+
+    if (kdf === KDF_PBKDF2) {
+        if (!inRange(kdfIterations, 600000, 2000000)) {
+            return 'KDF iterations must be between 600000 and 2000000.'
+        }
+        return null
+    }
+    if (kdf === KDF_ARGON2) {
+        if (!inRange(kdfIterations, 2, 10)) {
+            return 'Argon2 iterations must be between 2 and 10.'
+        }
+        if (!inRange(kdfMemory, 15, 1024)) {
+            return 'Argon2 memory must be between 15mb and 1024mb.'
+        }
+        if (!inRange(kdfParallelism, 1, 16)) {
+            return 'Argon2 parallelism must be between 1 and 16.'
+        }
+        return null
+    }
+    return 'Unsupported KDF type.'
+}
+
+/** Bitwarden two-factor challenge, returned by the token endpoint in place of tokens */
+async function twoFactorRequiredResponse(c: AppContext, user: UserData, providers: number[]) {
+    const origin = new URL(c.req.url).origin
+    const providers2: Record<string, Record<string, any> | null> = {}
+    for (const provider of providers) {
+        providers2[provider] = await buildProviderChallenge(c.env, user, provider, providers, origin)
+    }
+
+    return c.json({
+        error: 'invalid_grant',
+        error_description: 'Two factor required.',
+        TwoFactorProviders: providers.map(String),
+        TwoFactorProviders2: providers2,
+        MasterPasswordPolicy: { Object: 'masterPasswordPolicy' },
+        ErrorModel: { Message: 'Two factor required.', Object: 'error' }
+    }, 400)
+}
+
+/**
+ * Whether a password login from this device needs an emailed code first.
+ * Follows Bitwarden: accounts with two-step login, accounts younger than a
+ * day and first logins (no known devices yet) are exempt. A login without
+ * a device identifier counts as an unknown device.
  */
-async function hashPassword(masterPasswordHash: string, salt: string): Promise<string> {
-    const encoder = new TextEncoder()
-    const data = encoder.encode(salt + masterPasswordHash)
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data)
-    const hashArray = Array.from(new Uint8Array(hashBuffer))
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
+async function requiresDeviceVerification(c: AppContext, user: UserData, deviceIdentifier: string | undefined): Promise<boolean> {
+    if (Date.now() - new Date(user.createdAt).getTime() < NEW_ACCOUNT_GRACE_MS) return false
+
+    const knownDevices = await getDeviceIdentifiers(c.env.DB, user.id)
+    return knownDevices.length > 0 && !(deviceIdentifier && knownDevices.includes(deviceIdentifier))
+}
+
+/** Identity-style 429 for logins that are backing off or locked out */
+function loginBlockedResponse(
+    c: AppContext,
+    status: Extract<LimitStatus, { allowed: false }>,
+    lockedMessage = `Too many failed login attempts. Try again in ${Math.ceil(status.retryAfter / 60)} minutes.`
+) {
+    const message = status.locked ? lockedMessage : 'Slow down! Too many requests. Try again soon.'
+
+    c.header('Retry-After', String(status.retryAfter))
+    return c.json({
+        error: 'invalid_grant',
+        error_description: message,
+        ErrorModel: { Message: message, Object: 'error' }
+    }, 429)
+}
+
+/** Returns a blocked response if the account or the client IP may not try to log in yet */
+export async function checkLoginLimits(c: AppContext, account: string): Promise<Response | null> {
+    const ip = getClientIp(c)
+
+    const accountStatus = await checkLimit(c.env.DB, 'login', account, LOGIN_ACCOUNT_POLICY)
+    if (!accountStatus.allowed) return loginBlockedResponse(c, accountStatus)
+
+    if (ip) {
+        const ipStatus = await checkLimit(c.env.DB, 'login-ip', ip, LOGIN_IP_POLICY)
+        if (!ipStatus.allowed) return loginBlockedResponse(c, ipStatus)
+    }
+    return null
+}
+
+/** Counts a failed login and rejects it; tells the owner when a lockout starts */
+export async function loginFailed(c: AppContext, account: string, user: UserData | null, message: string) {
+    const ip = getClientIp(c)
+
+    const lockoutStarted = await recordAttempt(c.env.DB, 'login', account, LOGIN_ACCOUNT_POLICY)
+    if (ip) {
+        await recordAttempt(c.env.DB, 'login-ip', ip, LOGIN_IP_POLICY)
+    }
+
+    if (lockoutStarted && user) {
+        console.log(`[NanoVault] Login locked for ${user.email} after repeated failures`)
+        if (c.env.RESEND_API_KEY) {
+            await sendMail(
+                c.env,
+                user.email,
+                'Your Nanovault account was temporarily locked',
+                `
+                <h1>Account Locked</h1>
+                <p>Logins to your account were paused for ${LOGIN_ACCOUNT_POLICY.lockout / 60} minutes after too many failed attempts${ip ? ` (last from ${ip})` : ''}.</p>
+                <p>If this wasn't you, change your master password and enable two-step login.</p>
+                `
+            )
+        }
+    }
+
+    return errorResponse(c, message)
+}
+
+/** Random alphanumeric client secret, same shape as Bitwarden's */
+function generateApiKey(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(API_KEY_LENGTH))
+    return Array.from(bytes, b => API_KEY_CHARSET[b % API_KEY_CHARSET.length]).join('')
+}
+
+function apiKeyMatches(user: UserData, clientSecret: string): boolean {
+    const expected = user.apiKey
+    if (!expected || !clientSecret || clientSecret.length !== expected.length) return false
+
+    let diff = 0
+    for (let i = 0; i < expected.length; i++) {
+        diff |= clientSecret.charCodeAt(i) ^ expected.charCodeAt(i)
+    }
+    return diff === 0
+}
+
+/**
+ * Records the logging-in device for push notifications and device checks.
+ * Returns a remember-device token when one was requested.
+ */
+async function recordLoginDevice(
+    c: AppContext,
+    user: UserData,
+    body: Record<string, any>,
+    rememberDevice: boolean,
+    sessionId: string
+): Promise<string | undefined> {
+    const deviceIdentifier = body['deviceIdentifier'] as string
+    if (!deviceIdentifier) return undefined
+
+    const deviceName = body['deviceName'] as string
+    const deviceType = parseInt(body['deviceType'] as string) || 0
+    const devicePushToken = body['devicePushToken'] as string
+    let rememberToken: string | undefined
+
+    const now = new Date().toISOString()
+    const device: Device = {
+        id: crypto.randomUUID(),
+        userId: user.id,
+        name: deviceName || 'Unknown Device',
+        type: deviceType,
+        identifier: deviceIdentifier,
+        pushToken: devicePushToken,
+        sessionId,
+        createdAt: now,
+        updatedAt: now
+    }
+
+    const existingDevice = await getDevice(c.env.DB, deviceIdentifier)
+    if (existingDevice) {
+        device.id = existingDevice.id
+        device.createdAt = existingDevice.createdAt
+        if (existingDevice.userId === user.id) {
+            device.twoFactorRemember = existingDevice.twoFactorRemember
+            device.encryptedUserKey = existingDevice.encryptedUserKey
+            device.encryptedPublicKey = existingDevice.encryptedPublicKey
+            device.encryptedPrivateKey = existingDevice.encryptedPrivateKey
+        }
+        // A device holds one session; logging in again ends the previous one
+        if (existingDevice.sessionId && existingDevice.sessionId !== sessionId) {
+            await deleteRefreshSession(c.env.DB, existingDevice.userId, existingDevice.sessionId)
+        }
+    }
+
+    if (rememberDevice) {
+        rememberToken = await issueRememberToken(device)
+    }
+
+    if (devicePushToken && isPushEnabled(c.env)) {
+        const pushUuid = await registerDevice(c.env, user.id, device)
+        if (pushUuid) {
+            device.pushUuid = pushUuid
+        }
+    }
+
+    await putDevice(c.env.DB, device)
+    return rememberToken
+}
+
+/**
+ * Trusted device decryption options for SSO logins. A trusted device gets
+ * back its wrapped user key; otherwise the client offers approval from
+ * another device or the master password.
+ */
+async function buildTrustedDeviceOption(c: AppContext, user: UserData, deviceIdentifier: string | undefined) {
+    const devices = await getDevicesByUser(c.env.DB, user.id)
+    const current = devices.find(d => d.identifier === deviceIdentifier)
+
+    return {
+        hasAdminApproval: false,
+        // The CLI can't approve login requests
+        hasLoginApprovingDevice: devices.some(d => d.identifier !== deviceIdentifier && d.type !== DEVICE_TYPE_CLI),
+        hasManageResetPasswordPermission: false,
+        isTdeOffboarding: false,
+        encryptedPrivateKey: current?.encryptedPrivateKey ?? null,
+        encryptedUserKey: current?.encryptedUserKey ?? null,
+        object: 'trustedDeviceUserDecryptionOption'
+    }
 }
 
 /** Build OAuth2 token response */
 function buildTokenResponse(
     user: UserData,
     accessToken: string,
-    refreshToken: string
+    refreshToken: string,
+    twoFactorToken?: string,
+    trustedDeviceOption?: Awaited<ReturnType<typeof buildTrustedDeviceOption>>
 ) {
     return {
         access_token: accessToken,
@@ -65,9 +344,12 @@ function buildTokenResponse(
         kdfMemory: user.kdfMemory,
         kdfParallelism: user.kdfParallelism,
         userDecryptionOptions: {
-            hasMasterPassword: true,
+            // Accounts created through SSO have no master password until they set one
+            hasMasterPassword: !!user.masterPasswordHash,
+            ...(trustedDeviceOption && { trustedDeviceOption }),
             object: 'userDecryptionOptions'
-        }
+        },
+        ...(twoFactorToken && { TwoFactorToken: twoFactorToken })
     }
 }
 
@@ -85,6 +367,93 @@ function buildJwtPayload(user: UserData, ttl: number, tokenType: TokenType) {
     }
 }
 
+/** Signs the refresh token for a session's current token ID */
+async function signRefreshToken(env: Bindings, user: UserData, session: RefreshSession): Promise<string> {
+    return signToken(env, 'refresh', {
+        ...buildJwtPayload(user, REFRESH_TOKEN_TTL, 'refresh'),
+        sid: session.id,
+        jti: session.tokenId
+    })
+}
+
+/**
+ * Finds the account for an SSO identity, linking it on first use, or creates
+ * one when signups allow. Accounts created here have no master password yet.
+ * SSO logins skip the master password and two-step login, so accounts with a
+ * master password are never linked, and accounts with two-step login (even
+ * ones linked before it was enabled) can't log in this way.
+ *
+ * @returns The user, or an error message if the identity may not log in
+ */
+async function resolveSsoUser(c: AppContext, identity: SsoIdentity): Promise<UserData | string> {
+    const existing = await getUser(c.env.DB, identity.email)
+    if (existing) {
+        if (existing.ssoSubject && existing.ssoSubject !== identity.subject) {
+            console.log(`[NanoVault] SSO login for ${existing.email} from a different IdP subject`)
+            return 'This account is linked to a different SSO identity.'
+        }
+        if (getEnabledProviders(existing).length > 0) {
+            console.log(`[NanoVault] SSO login refused for ${existing.email}: two-step login is enabled`)
+            return 'Two-step login is enabled on this account. Log in with your master password.'
+        }
+        if (!existing.ssoSubject) {
+            if (existing.masterPasswordHash) {
+                console.log(`[NanoVault] SSO login refused for unlinked account ${existing.email}`)
+                return 'An account with this email already exists. Log in with your master password.'
+            }
+            existing.ssoSubject = identity.subject
+            existing.updatedAt = new Date().toISOString()
+            await putUser(c.env.DB, existing)
+        }
+        return existing
+    }
+
+    const denied = await checkSignupAllowed(c.env, identity.email)
+    if (denied) return denied
+
+    const now = new Date().toISOString()
+    const user: UserData = {
+        id: crypto.randomUUID(),
+        email: identity.email,
+        masterPasswordHash: '',
+        key: '',
+        kdf: KDF_PBKDF2,
+        kdfIterations: 600000,
+        name: identity.name || '',
+        securityStamp: crypto.randomUUID(),
+        culture: 'en-US',
+        emailVerified: true,
+        ssoSubject: identity.subject,
+        createdAt: now,
+        updatedAt: now
+    }
+    await putUser(c.env.DB, user)
+    await consumeInvite(c.env, user.email)
+
+    console.log(`[NanoVault] Registered user via SSO: ${user.id}`)
+    return user
+}
+
+/** Opens a refresh session for a new login, tied to the device when it sent one */
+async function startRefreshSession(
+    c: AppContext,
+    user: UserData,
+    deviceIdentifier: string | undefined
+): Promise<{ session: RefreshSession; refreshToken: string }> {
+    const now = Date.now()
+    const session: RefreshSession = {
+        id: crypto.randomUUID(),
+        userId: user.id,
+        deviceIdentifier: deviceIdentifier || null,
+        tokenId: crypto.randomUUID(),
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + REFRESH_TOKEN_TTL * 1000).toISOString()
+    }
+    await putRefreshSession(c.env.DB, session)
+
+    return { session, refreshToken: await signRefreshToken(c.env, user, session) }
+}
+
 // --------------------------------------------------------------------------
 // Prelogin Handler
 // --------------------------------------------------------------------------
@@ -97,6 +466,11 @@ export const handlePrelogin = async (c: AppContext) => {
             return errorResponse(c, 'Email required')
         }
 
+        const status = await throttle(c.env.DB, [
+            { scope: 'prelogin-ip', subject: getClientIp(c), policy: PRELOGIN_IP_POLICY }
+        ])
+        if (!status.allowed) return rateLimitedResponse(c, status.retryAfter)
+
         const user = await getUser(c.env.DB, emailIn)
 
         if (user) {
@@ -109,11 +483,8 @@ export const handlePrelogin = async (c: AppContext) => {
             return c.json(response)
         }
 
-        // Default for unknown users (PBKDF2)
-        return c.json<PreloginResponse>({
-            kdf: 0,
-            kdfIterations: 100000
-        })
+        // Unknown users get stable decoy settings, so prelogin doesn't reveal which accounts exist
+        return c.json<PreloginResponse>(await getDecoyKdfSettings(c.env, emailIn))
     } catch {
         return errorResponse(c, 'Invalid request')
     }
@@ -137,7 +508,7 @@ export const handleRegisterFinish = async (c: AppContext) => {
     const email = body.email?.toLowerCase()
     const masterHash = body.masterPasswordHash
     const key = body.userSymmetricKey
-    const kdf = body.kdf ?? 0
+    const kdf = body.kdf ?? KDF_PBKDF2
     const iterations = body.kdfIterations ?? 600000
     const hint = body.masterPasswordHint
     const emailToken = body.emailVerificationToken
@@ -149,14 +520,23 @@ export const handleRegisterFinish = async (c: AppContext) => {
         return errorResponse(c, 'Missing required fields (email, masterPasswordHash, userSymmetricKey)')
     }
 
+    const invalidKdf = validateKdfSettings({
+        kdf,
+        kdfIterations: iterations,
+        kdfMemory: body.kdfMemory,
+        kdfParallelism: body.kdfParallelism
+    })
+    if (invalidKdf) {
+        return errorResponse(c, invalidKdf)
+    }
+
     if (!emailToken) {
         return errorResponse(c, 'Email verification token required')
     }
 
     let tokenName: string | undefined
     try {
-        const secret = getSecret(c.env)
-        const payload = await verify(emailToken, secret)
+        const payload = await verifyToken(c.env, 'registration', emailToken)
 
         if (payload.type !== 'registration') {
             return errorResponse(c, 'Invalid verification token type')
@@ -169,34 +549,41 @@ export const handleRegisterFinish = async (c: AppContext) => {
         return errorResponse(c, 'Invalid or expired verification token')
     }
 
+    // The policy may have changed since the link was sent
+    const denied = await checkSignupAllowed(c.env, email)
+    if (denied) {
+        return errorResponse(c, denied)
+    }
+
     const existing = await getUser(c.env.DB, email)
     if (existing) {
         return errorResponse(c, 'User already exists')
     }
 
-    const securityStamp = crypto.randomUUID()
-    const serverHash = await hashPassword(masterHash, securityStamp)
-
     const now = new Date().toISOString()
     const newUser: UserData = {
         id: crypto.randomUUID(),
         email: email,
-        masterPasswordHash: serverHash,
+        masterPasswordHash: '',
         masterPasswordHint: hint,
         key: key,
         kdf: kdf,
         kdfIterations: iterations,
+        kdfMemory: kdf === KDF_ARGON2 ? body.kdfMemory : undefined,
+        kdfParallelism: kdf === KDF_ARGON2 ? body.kdfParallelism : undefined,
         name: tokenName || "",
         publicKey: pubKey,
         encryptedPrivateKey: privKey,
-        securityStamp: securityStamp,
+        securityStamp: crypto.randomUUID(),
         culture: 'en-US',
         emailVerified: true,
         createdAt: now,
         updatedAt: now
     }
 
+    await setMasterPassword(c.env, newUser, masterHash)
     await putUser(c.env.DB, newUser)
+    await consumeInvite(c.env, email)
 
     console.log(`Registered user (finish): ${newUser.id}, KDF: ${newUser.kdf}, verified: ${newUser.emailVerified}`)
     return c.json({ id: newUser.id }, 200)
@@ -209,29 +596,52 @@ export const handleRegisterFinish = async (c: AppContext) => {
 export const handleSendVerificationEmail = async (c: AppContext) => {
     const body = await c.req.json<any>()
     const email = (body.Email || body.email || '').toLowerCase()
-    const baseUrl = new URL(c.req.url).origin
 
     if (!email) {
         return c.json({ success: true }, 200)
     }
 
+    // Counted before the existence check so the limit reveals nothing
+    const status = await throttle(c.env.DB, [
+        { scope: 'mail', subject: email, policy: MAIL_POLICY },
+        { scope: 'mail-ip', subject: getClientIp(c), policy: MAIL_POLICY }
+    ])
+    if (!status.allowed) return rateLimitedResponse(c, status.retryAfter)
+
+    const denied = await checkSignupAllowed(c.env, email)
+    if (denied) {
+        return errorResponse(c, denied)
+    }
+
     const existing = await getUser(c.env.DB, email)
     if (existing) {
         console.log(`[NanoVault] Registration attempt for existing email: ${email}`)
         return c.json({ success: true }, 200)
     }
 
-    const secret = getSecret(c.env)
     const name = body.Name || body.name || ''
+    await sendRegistrationLink(c, email, name, 24 * 3600)
 
-    const registrationToken = await sign({
+    return c.json({ success: true }, 200)
+}
+
+/**
+ * Emails (or logs, without a mail provider) a link to finish registration.
+ *
+ * @returns The registration link
+ */
+export const sendRegistrationLink = async (c: AppContext, email: string, name: string, expiresIn: number): Promise<string> => {
+    const baseUrl = new URL(c.req.url).origin
+
+    const registrationToken = await signToken(c.env, 'registration', {
         email: email,
         name: name,
         type: 'registration',
-        exp: Math.floor(Date.now() / 1000) + 24 * 3600
-    }, secret)
+        exp: Math.floor(Date.now() / 1000) + expiresIn
+    })
 
     const registerUrl = `${baseUrl}/#/finish-signup/?email=${encodeURIComponent(email)}&token=${encodeURIComponent(registrationToken)}`
+    const hours = Math.round(expiresIn / 3600)
 
     // Send actual email if Resend is configured
     if (c.env.RESEND_API_KEY) {
@@ -245,7 +655,7 @@ export const handleSendVerificationEmail = async (c: AppContext) => {
             <p><a href="${registerUrl}">Complete Registration</a></p>
             <p>If the link doesn't work, copy and paste this URL into your browser:</p>
             <pre>${registerUrl}</pre>
-            <p>This link will expire in 24 hours.</p>
+            <p>This link will expire in ${hours} hours.</p>
             `
         )
     }
@@ -254,10 +664,10 @@ export const handleSendVerificationEmail = async (c: AppContext) => {
     console.log(`[NanoVault] Registration request for: ${email}`)
     console.log(`[NanoVault] Complete registration at:`)
     console.log(`[NanoVault] ${registerUrl}`)
-    console.log(`[NanoVault] Token valid for 24 hours`)
+    console.log(`[NanoVault] Token valid for ${hours} hours`)
     console.log(`[NanoVault] ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`)
 
-    return c.json({ success: true }, 200)
+    return registerUrl
 }
 
 // --------------------------------------------------------------------------
@@ -280,9 +690,11 @@ export const handleEmailToken = async (c: AppContext) => {
         return errorResponse(c, 'User not found', 404)
     }
 
-    const incomingHash = await hashPassword(passwordHash, user.securityStamp)
-    if (user.masterPasswordHash !== incomingHash) {
-        return errorResponse(c, 'Invalid password')
+    const blocked = await checkLoginLimits(c, user.email)
+    if (blocked) return blocked
+
+    if (!await verifyMasterPassword(user, passwordHash)) {
+        return loginFailed(c, user.email, user, 'Invalid password')
     }
 
     const existing = await getUser(c.env.DB, newEmail)
@@ -290,14 +702,13 @@ export const handleEmailToken = async (c: AppContext) => {
         return errorResponse(c, 'Email already in use')
     }
 
-    const secret = getSecret(c.env)
-    const emailChangeToken = await sign({
+    const emailChangeToken = await signToken(c.env, 'email_change', {
         userId: user.id,
         oldEmail: user.email,
         newEmail: newEmail,
         type: 'email_change',
         exp: Math.floor(Date.now() / 1000) + 24 * 3600
-    }, secret)
+    })
 
     const baseUrl = new URL(c.req.url).origin
 
@@ -343,10 +754,9 @@ export const handleEmailChange = async (c: AppContext) => {
         return errorResponse(c, 'Missing required fields')
     }
 
-    const secret = getSecret(c.env)
     let tokenPayload
     try {
-        tokenPayload = await verify(token, secret)
+        tokenPayload = await verifyToken(c.env, 'email_change', token)
         if (tokenPayload.type !== 'email_change') {
             return errorResponse(c, 'Invalid token type')
         }
@@ -359,9 +769,11 @@ export const handleEmailChange = async (c: AppContext) => {
         return errorResponse(c, 'User mismatch', 401)
     }
 
-    const incomingHash = await hashPassword(masterPasswordHash, user.securityStamp)
-    if (user.masterPasswordHash !== incomingHash) {
-        return errorResponse(c, 'Invalid password')
+    const blocked = await checkLoginLimits(c, user.email)
+    if (blocked) return blocked
+
+    if (!await verifyMasterPassword(user, masterPasswordHash)) {
+        return loginFailed(c, user.email, user, 'Invalid password')
     }
 
     const existing = await getUser(c.env.DB, newEmail)
@@ -369,20 +781,20 @@ export const handleEmailChange = async (c: AppContext) => {
         return errorResponse(c, 'Email already in use')
     }
 
-    const newSecurityStamp = crypto.randomUUID()
-    const newServerHash = await hashPassword(newMasterPasswordHash, newSecurityStamp)
-
     const updatedUser: UserData = {
         ...user,
         email: newEmail,
-        masterPasswordHash: newServerHash,
         key: newKey,
-        securityStamp: newSecurityStamp,
+        securityStamp: crypto.randomUUID(),
         updatedAt: new Date().toISOString()
     }
+    await setMasterPassword(c.env, updatedUser, newMasterPasswordHash)
 
     await c.env.DB.delete(`user:${user.email}`)
     await putUser(c.env.DB, updatedUser)
+    if (updatedUser.apiKey) {
+        await putUserIdIndex(c.env.DB, updatedUser)
+    }
 
     console.log(`[NanoVault] Email changed: ${user.email} -> ${newEmail}`)
     return c.json({}, 200)
@@ -401,10 +813,12 @@ export const handlePasswordChange = async (c: AppContext) => {
         return errorResponse(c, 'User not found', 404)
     }
 
+    const blocked = await checkLoginLimits(c, user.email)
+    if (blocked) return blocked
+
     const currentHash = body.MasterPasswordHash || body.masterPasswordHash
-    const incomingHash = await hashPassword(currentHash, user.securityStamp)
-    if (user.masterPasswordHash !== incomingHash) {
-        return errorResponse(c, 'Invalid current password')
+    if (!await verifyMasterPassword(user, currentHash)) {
+        return loginFailed(c, user.email, user, 'Invalid current password')
     }
 
     const newHash = body.NewMasterPasswordHash || body.newMasterPasswordHash
@@ -414,17 +828,169 @@ export const handlePasswordChange = async (c: AppContext) => {
         return errorResponse(c, 'New password hash and key required')
     }
 
-    const newSecurityStamp = crypto.randomUUID()
-    user.masterPasswordHash = await hashPassword(newHash, newSecurityStamp)
+    await setMasterPassword(c.env, user, newHash)
+    user.key = newKey
+    user.securityStamp = crypto.randomUUID()
+    user.updatedAt = new Date().toISOString()
+
+    await putUser(c.env.DB, user)
+
+    return c.json({})
+}
+
+// --------------------------------------------------------------------------
+// Set Password Handler (SSO accounts without a master password)
+// --------------------------------------------------------------------------
+
+export const handleSetPassword = async (c: AppContext) => {
+    const jwtPayload = c.get('jwtPayload')
+    const body = await c.req.json<any>()
+
+    const user = await getUser(c.env.DB, jwtPayload.email)
+    if (!user) {
+        return errorResponse(c, 'User not found', 404)
+    }
+
+    if (user.masterPasswordHash) {
+        return errorResponse(c, 'Account already has a master password.')
+    }
+
+    const newHash = body.MasterPasswordHash ?? body.masterPasswordHash
+    const newKey = body.Key ?? body.key
+    if (!newHash || !newKey) {
+        return errorResponse(c, 'Master password hash and key required')
+    }
+
+    const kdf: KdfSettings = {
+        kdf: body.Kdf ?? body.kdf ?? KDF_PBKDF2,
+        kdfIterations: body.KdfIterations ?? body.kdfIterations,
+        kdfMemory: body.KdfMemory ?? body.kdfMemory ?? undefined,
+        kdfParallelism: body.KdfParallelism ?? body.kdfParallelism ?? undefined
+    }
+    const invalid = validateKdfSettings(kdf)
+    if (invalid) {
+        return errorResponse(c, invalid)
+    }
+
+    const keys = body.Keys ?? body.keys
+    user.kdf = kdf.kdf
+    user.kdfIterations = kdf.kdfIterations
+    user.kdfMemory = kdf.kdf === KDF_ARGON2 ? kdf.kdfMemory : undefined
+    user.kdfParallelism = kdf.kdf === KDF_ARGON2 ? kdf.kdfParallelism : undefined
+    user.key = newKey
+    user.masterPasswordHint = body.MasterPasswordHint ?? body.masterPasswordHint ?? user.masterPasswordHint
+    user.publicKey = keys?.publicKey ?? keys?.PublicKey ?? user.publicKey
+    user.encryptedPrivateKey = keys?.encryptedPrivateKey ?? keys?.EncryptedPrivateKey ?? user.encryptedPrivateKey
+    await setMasterPassword(c.env, user, newHash)
+    user.updatedAt = new Date().toISOString()
+
+    await putUser(c.env.DB, user)
+
+    return c.json({})
+}
+
+// --------------------------------------------------------------------------
+// KDF Change Handler
+// --------------------------------------------------------------------------
+
+export const handleKdfChange = async (c: AppContext) => {
+    const jwtPayload = c.get('jwtPayload')
+    const body = await c.req.json<any>()
+
+    const user = await getUser(c.env.DB, jwtPayload.email)
+    if (!user) {
+        return errorResponse(c, 'User not found', 404)
+    }
+
+    const blocked = await checkLoginLimits(c, user.email)
+    if (blocked) return blocked
+
+    if (!await verifyMasterPassword(user, body.MasterPasswordHash || body.masterPasswordHash)) {
+        return loginFailed(c, user.email, user, 'Invalid password')
+    }
+
+    // Newer clients nest the settings under authenticationData / unlockData
+    const kdfBody = body.authenticationData?.kdf
+    const settings: KdfSettings = kdfBody
+        ? {
+            kdf: kdfBody.kdfType,
+            kdfIterations: kdfBody.iterations,
+            kdfMemory: kdfBody.memory ?? undefined,
+            kdfParallelism: kdfBody.parallelism ?? undefined
+        }
+        : {
+            kdf: body.kdf,
+            kdfIterations: body.kdfIterations,
+            kdfMemory: body.kdfMemory ?? undefined,
+            kdfParallelism: body.kdfParallelism ?? undefined
+        }
+    const newHash = body.authenticationData?.masterPasswordAuthenticationHash
+        || body.NewMasterPasswordHash || body.newMasterPasswordHash
+    const newKey = body.unlockData?.masterKeyWrappedUserKey || body.Key || body.key
+
+    if (!newHash || !newKey) {
+        return errorResponse(c, 'New password hash and key required')
+    }
+
+    const invalid = validateKdfSettings(settings)
+    if (invalid) {
+        return errorResponse(c, invalid)
+    }
+
+    user.kdf = settings.kdf
+    user.kdfIterations = settings.kdfIterations
+    user.kdfMemory = settings.kdf === KDF_ARGON2 ? settings.kdfMemory : undefined
+    user.kdfParallelism = settings.kdf === KDF_ARGON2 ? settings.kdfParallelism : undefined
     user.key = newKey
-    user.securityStamp = newSecurityStamp
+    await rotateSecurityStamp(c.env, user, newHash)
     user.updatedAt = new Date().toISOString()
 
     await putUser(c.env.DB, user)
 
+    // Other devices hold a master key derived with the old settings
+    notifyLogout(c.env, user.id)
+
     return c.json({})
 }
 
+// --------------------------------------------------------------------------
+// API Key Handlers (client_credentials secret)
+// --------------------------------------------------------------------------
+
+const handleApiKeyRequest = async (c: AppContext, rotate: boolean) => {
+    const jwtPayload = c.get('jwtPayload')
+    const body = await c.req.json<any>()
+
+    const user = await getUser(c.env.DB, jwtPayload.email)
+    if (!user) {
+        return errorResponse(c, 'User not found', 404)
+    }
+
+    const blocked = await checkLoginLimits(c, user.email)
+    if (blocked) return blocked
+
+    if (!await verifyMasterPassword(user, body.MasterPasswordHash || body.masterPasswordHash)) {
+        return loginFailed(c, user.email, user, 'Invalid password')
+    }
+
+    if (rotate || !user.apiKey) {
+        user.apiKey = generateApiKey()
+        user.updatedAt = new Date().toISOString()
+        await putUser(c.env.DB, user)
+        await putUserIdIndex(c.env.DB, user)
+    }
+
+    return c.json({
+        apiKey: user.apiKey,
+        revisionDate: user.updatedAt,
+        object: 'apiKey'
+    })
+}
+
+export const handleApiKey = (c: AppContext) => handleApiKeyRequest(c, false)
+
+export const handleRotateApiKey = (c: AppContext) => handleApiKeyRequest(c, true)
+
 // --------------------------------------------------------------------------
 // Token Handler (login / refresh)
 // --------------------------------------------------------------------------
@@ -432,13 +998,12 @@ export const handlePasswordChange = async (c: AppContext) => {
 export const handleToken = async (c: AppContext) => {
     try {
         const body = await c.req.parseBody()
-        const secret = getSecret(c.env)
 
         // --- Refresh Token Flow ---
         if (body['grant_type'] === 'refresh_token') {
             const refreshToken = body['refresh_token'] as string
             try {
-                const payload = await verify(refreshToken, secret)
+                const payload = await verifyToken(c.env, 'refresh', refreshToken)
 
                 if (payload.token_type !== 'refresh') {
                     return errorResponse(c, 'Invalid token type')
@@ -451,8 +1016,24 @@ export const handleToken = async (c: AppContext) => {
                     return errorResponse(c, 'Token has been revoked')
                 }
 
-                const newAccessToken = await sign(buildJwtPayload(user, ACCESS_TOKEN_TTL, 'access'), secret)
-                const newRefreshToken = await sign(buildJwtPayload(user, REFRESH_TOKEN_TTL, 'refresh'), secret)
+                const session = payload.sid ? await getRefreshSession(c.env.DB, payload.sid as string) : null
+                if (!session || session.userId !== user.id || Date.now() > new Date(session.expiresAt).getTime()) {
+                    return errorResponse(c, 'Token has been revoked')
+                }
+
+                // An already-rotated token means a copy exists somewhere: end the session for both holders
+                if (payload.jti !== session.tokenId) {
+                    await deleteRefreshSession(c.env.DB, session.userId, session.id)
+                    console.log(`[NanoVault] Refresh token reuse detected for ${user.email}, session revoked`)
+                    return errorResponse(c, 'Token has been revoked')
+                }
+
+                session.tokenId = crypto.randomUUID()
+                session.expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL * 1000).toISOString()
+                await putRefreshSession(c.env.DB, session)
+
+                const newAccessToken = await signToken(c.env, 'access', buildJwtPayload(user, ACCESS_TOKEN_TTL, 'access'))
+                const newRefreshToken = await signRefreshToken(c.env, user, session)
 
                 return c.json(buildTokenResponse(user, newAccessToken, newRefreshToken))
             } catch {
@@ -460,9 +1041,68 @@ export const handleToken = async (c: AppContext) => {
             }
         }
 
+        // --- Client Credentials Flow (personal API key, e.g. `bw login --apikey`) ---
+        if (body['grant_type'] === 'client_credentials') {
+            const clientId = (body['client_id'] as string) || ''
+            const clientSecret = body['client_secret'] as string
+
+            const blocked = await checkLoginLimits(c, clientId)
+            if (blocked) return blocked
+
+            const user = clientId.startsWith('user.')
+                ? await getUserById(c.env.DB, clientId.slice('user.'.length))
+                : null
+            if (!user || !apiKeyMatches(user, clientSecret)) {
+                console.log(`Login failed: invalid client credentials`)
+                return loginFailed(c, clientId, user, 'Invalid client credentials')
+            }
+            await resetLimit(c.env.DB, 'login', clientId)
+
+            const accessToken = await signToken(c.env, 'access', buildJwtPayload(user, ACCESS_TOKEN_TTL, 'access'))
+            const { session, refreshToken } = await startRefreshSession(c, user, body['deviceIdentifier'] as string)
+            await recordLoginDevice(c, user, body, false, session.id)
+
+            return c.json({
+                ...buildTokenResponse(user, accessToken, refreshToken),
+                scope: 'api'
+            })
+        }
+
+        // --- Authorization Code Flow (SSO) ---
+        // New device checks are left to the identity provider; accounts with
+        // two-step login are refused in resolveSsoUser
+        if (body['grant_type'] === 'authorization_code') {
+            if (!isSsoEnabled(c.env)) {
+                return errorResponse(c, 'SSO is not enabled on this server.')
+            }
+
+            const identity = await consumeSsoCode(
+                c.env,
+                body['code'] as string,
+                body['code_verifier'] as string,
+                body['redirect_uri'] as string
+            )
+            if (!identity) {
+                return errorResponse(c, 'Invalid or expired authorization code')
+            }
+
+            const user = await resolveSsoUser(c, identity)
+            if (typeof user === 'string') {
+                return errorResponse(c, user)
+            }
+
+            const deviceIdentifier = body['deviceIdentifier'] as string
+            const accessToken = await signToken(c.env, 'access', buildJwtPayload(user, ACCESS_TOKEN_TTL, 'access'))
+            const { session, refreshToken } = await startRefreshSession(c, user, deviceIdentifier)
+            await recordLoginDevice(c, user, body, false, session.id)
+
+            const trustedDeviceOption = await buildTrustedDeviceOption(c, user, deviceIdentifier)
+            return c.json(buildTokenResponse(user, accessToken, refreshToken, undefined, trustedDeviceOption))
+        }
+
         // --- Password Flow ---
         if (body['grant_type'] !== 'password') {
-            return errorResponse(c, 'Unsupported grant_type. Supported: password, refresh_token')
+            return errorResponse(c, 'Unsupported grant_type. Supported: password, refresh_token, client_credentials, authorization_code')
         }
 
         const emailInput = body['username'] as string
@@ -471,10 +1111,16 @@ export const handleToken = async (c: AppContext) => {
         const email = emailInput.toLowerCase()
         const password = body['password'] as string
 
+        // Unknown accounts are counted too, so lockouts don't reveal which emails exist
+        const blocked = await checkLoginLimits(c, email)
+        if (blocked) return blocked
+
         const user = await getUser(c.env.DB, email)
         if (!user) {
+            // Hash anyway so the response takes as long as a wrong password
+            await simulateMasterPasswordCheck(c.env, password)
             console.log(`Login failed: user not found`)
-            return errorResponse(c, 'Invalid username or password')
+            return loginFailed(c, email, null, 'Invalid username or password')
         }
 
         let passwordToCheck = password
@@ -482,51 +1128,90 @@ export const handleToken = async (c: AppContext) => {
             passwordToCheck = password.replace(/ /g, '+')
         }
 
-        const incomingServerHash = await hashPassword(passwordToCheck, user.securityStamp)
-        if (user.masterPasswordHash !== incomingServerHash) {
-            console.log(`Login failed: hash mismatch`)
-            return errorResponse(c, 'Invalid username or password')
-        }
+        // Login with device sends the approved request ID and its access code as the password
+        const authRequestId = body['authRequest'] as string
+        if (authRequestId) {
+            if (!await consumeAuthRequest(c.env, user, authRequestId, password)) {
+                console.log(`Login failed: invalid auth request`)
+                return loginFailed(c, email, user, 'Invalid username or password')
+            }
+        } else {
+            if (!await verifyMasterPassword(user, passwordToCheck)) {
+                console.log(`Login failed: hash mismatch`)
+                return loginFailed(c, email, user, 'Invalid username or password')
+            }
 
-        const accessToken = await sign(buildJwtPayload(user, ACCESS_TOKEN_TTL, 'access'), secret)
-        const refreshToken = await sign(buildJwtPayload(user, REFRESH_TOKEN_TTL, 'refresh'), secret)
+            // Upgrade legacy or outdated hashes now that we hold the client hash
+            if (needsRehash(c.env, user)) {
+                await setMasterPassword(c.env, user, passwordToCheck)
+                await putUser(c.env.DB, user)
+            }
+        }
 
-        // Capture device info for push notifications
         const deviceIdentifier = body['deviceIdentifier'] as string
-        const deviceName = body['deviceName'] as string
-        const deviceType = parseInt(body['deviceType'] as string) || 0
-        const devicePushToken = body['devicePushToken'] as string
-
-        if (deviceIdentifier) {
-            const now = new Date().toISOString()
-            const device: Device = {
-                id: crypto.randomUUID(),
-                userId: user.id,
-                name: deviceName || 'Unknown Device',
-                type: deviceType,
-                identifier: deviceIdentifier,
-                pushToken: devicePushToken,
-                createdAt: now,
-                updatedAt: now
-            }
 
-            const existingDevice = await getDevice(c.env.DB, deviceIdentifier)
-            if (existingDevice) {
-                device.id = existingDevice.id
-                device.createdAt = existingDevice.createdAt
+        // --- Two-Factor Check ---
+        // An approved auth request already proves possession of a logged-in device
+        let rememberDevice = false
+        const providers = authRequestId ? [] : getEnabledProviders(user)
+        if (providers.length > 0) {
+            const twoFactorToken = body['twoFactorToken'] as string
+            const twoFactorProvider = parseInt(body['twoFactorProvider'] as string)
+
+            if (!twoFactorToken) {
+                return twoFactorRequiredResponse(c, user, providers)
             }
 
-            if (devicePushToken && isPushEnabled(c.env)) {
-                const pushUuid = await registerDevice(c.env, user.id, device)
-                if (pushUuid) {
-                    device.pushUuid = pushUuid
+            if (twoFactorProvider === TWO_FACTOR_REMEMBER) {
+                const device = deviceIdentifier ? await getDevice(c.env.DB, deviceIdentifier) : null
+                if (!await verifyRememberToken(device, user.id, twoFactorToken)) {
+                    // Expired or revoked remember token: fall back to a real second factor
+                    return twoFactorRequiredResponse(c, user, providers)
                 }
+            } else if (!providers.includes(twoFactorProvider) ||
+                !await verifyTwoFactorToken(c.env, user, twoFactorProvider, twoFactorToken, new URL(c.req.url).origin)) {
+                console.log(`Login failed: invalid two-factor token`)
+                return loginFailed(c, email, user, 'Two-step token is invalid. Try again.')
+            } else {
+                rememberDevice = body['twoFactorRemember'] === '1'
             }
+        } else if (!authRequestId && await requiresDeviceVerification(c, user, deviceIdentifier)) {
+            // --- New Device Verification ---
+            const newDeviceOtp = body['newDeviceOtp'] as string
+
+            if (!newDeviceOtp) {
+                // Each attempt replaces the code, so resends are limited like other mail
+                const status = await throttle(c.env.DB, [
+                    { scope: 'mail', subject: email, policy: MAIL_POLICY },
+                    { scope: 'mail-ip', subject: getClientIp(c), policy: MAIL_POLICY }
+                ])
+                if (!status.allowed) {
+                    return loginBlockedResponse(c, status, 'Too many verification emails. Try again later.')
+                }
 
-            await putDevice(c.env.DB, device)
+                await sendEmailCode(c.env, user.id, user.email, 'new-device')
+                return c.json({
+                    error: 'invalid_grant',
+                    error_description: NEW_DEVICE_VERIFICATION_REQUIRED,
+                    ErrorModel: { Message: NEW_DEVICE_VERIFICATION_REQUIRED, Object: 'error' }
+                }, 400)
+            }
+
+            if (!await verifyEmailCode(c.env, user.id, user.email, newDeviceOtp, 'new-device')) {
+                console.log(`Login failed: invalid new device code`)
+                return loginFailed(c, email, user, 'Invalid new device verification code')
+            }
         }
 
-        return c.json(buildTokenResponse(user, accessToken, refreshToken))
+        await resetLimit(c.env.DB, 'login', email)
+
+        const accessToken = await signToken(c.env, 'access', buildJwtPayload(user, ACCESS_TOKEN_TTL, 'access'))
+        const { session, refreshToken } = await startRefreshSession(c, user, deviceIdentifier)
+
+        // Capture device info for push notifications
+        const rememberToken = await recordLoginDevice(c, user, body, rememberDevice, session.id)
+
+        return c.json(buildTokenResponse(user, accessToken, refreshToken, rememberToken))
     } catch (e) {
         console.error('Token Error:', e)
         return errorResponse(c, 'Invalid request')
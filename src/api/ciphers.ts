@@ -5,14 +5,19 @@
  */
 
 import { Context } from 'hono'
-import type { Bindings, Cipher, Folder } from '../types'
-import { addCipherToIndex, removeCipherFromIndex, addFolderToIndex } from '../storage/kv'
-import { getCipher, putCipher, deleteCipher, deleteAllAttachments, putFolder } from '../storage/s3'
-import { errorResponse } from './auth'
-import { notifyCipherCreate, notifyCipherUpdate, notifyCipherDelete } from './push'
+import type { Bindings, Cipher, Folder, AttachmentMeta } from '../types'
+import { getUser, addCipherToIndex, removeCipherFromIndex, addFolderToIndex, getVaultIndex, putVaultIndex, putStorageUsage } from '../storage/kv'
+import { getCipher, putCipher, deleteCipher, deleteAllAttachments, getFolder, putFolder, deleteVault } from '../storage/s3'
+import { errorResponse, checkLoginLimits, loginFailed } from './auth'
+import { notifyCipherCreate, notifyCipherUpdate, notifyCipherDelete, notifySyncCiphers, notifySyncVault } from './push'
+import { withAttachmentUrls } from '../utils/attachment-url'
+import { verifyMasterPassword } from '../utils/password'
+import { checkStorageQuota, recordStorageUsage, cipherUsage, folderUsage, usageChange, sumUsage } from '../utils/quota'
 
 type AppContext = Context<{ Bindings: Bindings }>
 
+// Bitwarden caps multi-select actions at 500 items
+const MAX_BULK_CIPHERS = 500
 
 /**
  * Options for building a cipher object.
@@ -26,6 +31,19 @@ interface BuildCipherOptions {
     creationDate?: string
 }
 
+/**
+ * Keeps the stored attachments on an update. Re-encrypted names and keys
+ * arrive as attachments2: { [id]: { fileName, key } }.
+ */
+const updateAttachments = (existing: Cipher, body: Record<string, any>): AttachmentMeta[] | null => {
+    const updated = body.attachments2 ?? {}
+    return existing.attachments?.map(a => ({
+        ...a,
+        fileName: updated[a.id]?.fileName ?? a.fileName,
+        key: updated[a.id]?.key ?? a.key
+    })) ?? null
+}
+
 /**
  * Builds a normalized Cipher object from request body.
  * 
@@ -33,7 +51,7 @@ interface BuildCipherOptions {
  * @param opts - Optional build configuration
  * @returns A normalized Cipher object
  */
-const buildCipher = (body: Record<string, any>, opts: BuildCipherOptions = {}): Cipher => {
+export const buildCipher = (body: Record<string, any>, opts: BuildCipherOptions = {}): Cipher => {
     const { existing, id, creationDate } = opts
     const now = new Date().toISOString()
 
@@ -63,7 +81,8 @@ const buildCipher = (body: Record<string, any>, opts: BuildCipherOptions = {}):
         organizationUseTotp: false,
         data: body.data,
         object: 'cipher',
-        attachments: body.attachments ?? null,
+        // Attachments only come from uploads, never from the cipher body
+        attachments: existing ? updateAttachments(existing, body) : null,
         collectionIds: body.collectionIds ?? [],
     }
 }
@@ -84,6 +103,34 @@ const validateCipher = (cipher: Cipher): string | null => {
     return null
 }
 
+/** Cipher IDs of a bulk request ({ ids: [...] }) */
+const getBulkIds = (body: Record<string, any>): string[] => {
+    const ids = body.ids ?? body.Ids
+    if (!Array.isArray(ids)) return []
+    return [...new Set(ids.filter((id): id is string => typeof id === 'string'))]
+}
+
+/**
+ * Validates the IDs of a bulk request.
+ *
+ * @returns Error message if invalid, null if valid
+ */
+const validateBulkIds = (ids: string[]): string | null => {
+    if (ids.length === 0) {
+        return 'No cipher IDs provided'
+    }
+    if (ids.length > MAX_BULK_CIPHERS) {
+        return `You can only process up to ${MAX_BULK_CIPHERS} items at once.`
+    }
+    return null
+}
+
+/** The user's ciphers among the IDs; unknown IDs are skipped */
+const getBulkCiphers = async (c: AppContext, userId: string, ids: string[]): Promise<Cipher[]> => {
+    const ciphers = await Promise.all(ids.map(id => getCipher(c.env.VAULT, userId, id)))
+    return ciphers.filter((cipher): cipher is Cipher => cipher !== null)
+}
+
 
 // --------------------------------------------------------------------------
 // Create Cipher Handler
@@ -101,14 +148,21 @@ export const handleCreate = async (c: AppContext) => {
         return errorResponse(c, validationError)
     }
 
+    const change = cipherUsage(newCipher)
+    const quotaError = await checkStorageQuota(c.env, userId, change)
+    if (quotaError) {
+        return errorResponse(c, quotaError)
+    }
+
     await Promise.all([
         putCipher(c.env.VAULT, userId, newCipher),
         addCipherToIndex(c.env.DB, userId, newCipher.id)
     ])
+    await recordStorageUsage(c.env, userId, change)
 
     notifyCipherCreate(c.env, userId, newCipher.id, newCipher.revisionDate)
 
-    return c.json(newCipher)
+    return c.json(await withAttachmentUrls(c.env, new URL(c.req.url).origin, userId, newCipher))
 }
 
 // --------------------------------------------------------------------------
@@ -126,22 +180,35 @@ export const handleImport = async (c: AppContext) => {
     const importedCiphers: Cipher[] = []
     const importedFolders: Folder[] = []
 
-    // Process folders first
-    const folderPromises = folders
+    const newFolders: Folder[] = folders
         .filter((item: any) => item.Name ?? item.name)
-        .map(async (item: any) => {
-            const folder: Folder = {
-                id: item.Id ?? item.id ?? crypto.randomUUID(),
-                name: item.Name ?? item.name,
-                revisionDate: new Date().toISOString(),
-                object: 'folder'
-            }
-            await Promise.all([
-                putFolder(c.env.VAULT, userId, folder),
-                addFolderToIndex(c.env.DB, userId, folder.id)
-            ])
-            return folder
-        })
+        .map((item: any) => ({
+            id: item.Id ?? item.id ?? crypto.randomUUID(),
+            name: item.Name ?? item.name,
+            revisionDate: new Date().toISOString(),
+            object: 'folder'
+        }))
+    const newCiphers: Cipher[] = items
+        .map((item: any) => buildCipher(item))
+        .filter((cipher: Cipher) => !validateCipher(cipher))
+
+    // The whole import has to fit, rather than stopping halfway through
+    const quotaError = await checkStorageQuota(c.env, userId, sumUsage([
+        ...newFolders.map(folderUsage),
+        ...newCiphers.map(cipherUsage)
+    ]))
+    if (quotaError) {
+        return errorResponse(c, quotaError)
+    }
+
+    // Process folders first
+    const folderPromises = newFolders.map(async folder => {
+        await Promise.all([
+            putFolder(c.env.VAULT, userId, folder),
+            addFolderToIndex(c.env.DB, userId, folder.id)
+        ])
+        return folder
+    })
 
     const folderResults = await Promise.allSettled(folderPromises)
     for (const result of folderResults) {
@@ -151,16 +218,13 @@ export const handleImport = async (c: AppContext) => {
     }
 
     // Process ciphers
-    const cipherPromises = items
-        .map((item: any) => buildCipher(item))
-        .filter((cipher: Cipher) => !validateCipher(cipher))
-        .map(async (cipher: Cipher) => {
-            await Promise.all([
-                putCipher(c.env.VAULT, userId, cipher),
-                addCipherToIndex(c.env.DB, userId, cipher.id)
-            ])
-            return cipher
-        })
+    const cipherPromises = newCiphers.map(async cipher => {
+        await Promise.all([
+            putCipher(c.env.VAULT, userId, cipher),
+            addCipherToIndex(c.env.DB, userId, cipher.id)
+        ])
+        return cipher
+    })
 
     const cipherResults = await Promise.allSettled(cipherPromises)
     for (const result of cipherResults) {
@@ -169,6 +233,11 @@ export const handleImport = async (c: AppContext) => {
         }
     }
 
+    await recordStorageUsage(c.env, userId, sumUsage([
+        ...importedFolders.map(folderUsage),
+        ...importedCiphers.map(cipherUsage)
+    ]))
+
     return c.json({
         ciphers: importedCiphers,
         folders: importedFolders,
@@ -190,7 +259,7 @@ export const handleGet = async (c: AppContext) => {
         return errorResponse(c, 'Cipher not found', 404)
     }
 
-    return c.json(cipher)
+    return c.json(await withAttachmentUrls(c.env, new URL(c.req.url).origin, userId, cipher))
 }
 
 // --------------------------------------------------------------------------
@@ -210,6 +279,12 @@ export const handleUpdate = async (c: AppContext) => {
         existing,
     })
 
+    const change = usageChange(cipherUsage(existing), cipherUsage(updatedCipher))
+    const quotaError = await checkStorageQuota(c.env, userId, change)
+    if (quotaError) {
+        return errorResponse(c, quotaError)
+    }
+
     const promises: Promise<void>[] = [
         putCipher(c.env.VAULT, userId, updatedCipher)
     ]
@@ -219,10 +294,11 @@ export const handleUpdate = async (c: AppContext) => {
     }
 
     await Promise.all(promises)
+    await recordStorageUsage(c.env, userId, change)
 
     notifyCipherUpdate(c.env, userId, updatedCipher.id, updatedCipher.revisionDate)
 
-    return c.json(updatedCipher)
+    return c.json(await withAttachmentUrls(c.env, new URL(c.req.url).origin, userId, updatedCipher))
 }
 
 // --------------------------------------------------------------------------
@@ -234,12 +310,15 @@ export const handleDelete = async (c: AppContext) => {
     const userId = payload.sub as string
     const cipherId = c.req.param('id')
 
+    const cipher = await getCipher(c.env.VAULT, userId, cipherId)
+
     await Promise.all([
         deleteAllAttachments(c.env.VAULT, userId, cipherId),
         deleteCipher(c.env.VAULT, userId, cipherId)
     ])
 
     await removeCipherFromIndex(c.env.DB, userId, cipherId)
+    await recordStorageUsage(c.env, userId, usageChange(cipherUsage(cipher), cipherUsage(null)))
 
     notifyCipherDelete(c.env, userId, cipherId)
 
@@ -260,13 +339,15 @@ export const handleSoftDelete = async (c: AppContext) => {
         return errorResponse(c, 'Cipher not found', 404)
     }
 
+    const before = cipherUsage(cipher)
     const now = new Date().toISOString()
     cipher.deletedDate = now
     cipher.revisionDate = now
 
     await putCipher(c.env.VAULT, userId, cipher)
+    await recordStorageUsage(c.env, userId, usageChange(before, cipherUsage(cipher)))
 
-    return c.json(cipher)
+    return c.json(await withAttachmentUrls(c.env, new URL(c.req.url).origin, userId, cipher))
 }
 
 // --------------------------------------------------------------------------
@@ -283,10 +364,184 @@ export const handleRestore = async (c: AppContext) => {
         return errorResponse(c, 'Cipher not found', 404)
     }
 
+    const before = cipherUsage(cipher)
     cipher.deletedDate = null
     cipher.revisionDate = new Date().toISOString()
 
     await putCipher(c.env.VAULT, userId, cipher)
+    await recordStorageUsage(c.env, userId, usageChange(before, cipherUsage(cipher)))
+
+    return c.json(await withAttachmentUrls(c.env, new URL(c.req.url).origin, userId, cipher))
+}
+
+// --------------------------------------------------------------------------
+// Bulk Move Handler (POST/PUT /api/ciphers/move)
+// --------------------------------------------------------------------------
+
+export const handleMoveMany = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const userId = payload.sub as string
+    const body = await c.req.json<any>()
+
+    const ids = getBulkIds(body)
+    const idsError = validateBulkIds(ids)
+    if (idsError) {
+        return errorResponse(c, idsError)
+    }
+
+    const folderId: string | null = body.folderId ?? body.FolderId ?? null
+    if (folderId && !await getFolder(c.env.VAULT, userId, folderId)) {
+        return errorResponse(c, 'Folder not found', 404)
+    }
+
+    const ciphers = await getBulkCiphers(c, userId, ids)
+    const before = sumUsage(ciphers.map(cipherUsage))
+    const now = new Date().toISOString()
+    for (const cipher of ciphers) {
+        cipher.folderId = folderId
+        cipher.revisionDate = now
+    }
+
+    await Promise.all(ciphers.map(cipher => putCipher(c.env.VAULT, userId, cipher)))
+    await recordStorageUsage(c.env, userId, usageChange(before, sumUsage(ciphers.map(cipherUsage))))
+
+    notifySyncCiphers(c.env, userId)
+
+    return c.json({}, 200)
+}
+
+// --------------------------------------------------------------------------
+// Bulk Soft Delete Handler (PUT /api/ciphers/delete)
+// --------------------------------------------------------------------------
+
+export const handleSoftDeleteMany = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const userId = payload.sub as string
+    const body = await c.req.json<any>()
+
+    const ids = getBulkIds(body)
+    const idsError = validateBulkIds(ids)
+    if (idsError) {
+        return errorResponse(c, idsError)
+    }
+
+    // Already trashed items keep their original deletion date
+    const ciphers = (await getBulkCiphers(c, userId, ids)).filter(cipher => !cipher.deletedDate)
+    const before = sumUsage(ciphers.map(cipherUsage))
+    const now = new Date().toISOString()
+    for (const cipher of ciphers) {
+        cipher.deletedDate = now
+        cipher.revisionDate = now
+    }
+
+    await Promise.all(ciphers.map(cipher => putCipher(c.env.VAULT, userId, cipher)))
+    await recordStorageUsage(c.env, userId, usageChange(before, sumUsage(ciphers.map(cipherUsage))))
+
+    notifySyncCiphers(c.env, userId)
 
-    return c.json(cipher)
+    return c.json({}, 200)
+}
+
+// --------------------------------------------------------------------------
+// Bulk Restore Handler (PUT /api/ciphers/restore)
+// --------------------------------------------------------------------------
+
+export const handleRestoreMany = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const userId = payload.sub as string
+    const body = await c.req.json<any>()
+
+    const ids = getBulkIds(body)
+    const idsError = validateBulkIds(ids)
+    if (idsError) {
+        return errorResponse(c, idsError)
+    }
+
+    const trashed = (await getBulkCiphers(c, userId, ids)).filter(cipher => cipher.deletedDate)
+    const before = sumUsage(trashed.map(cipherUsage))
+    const now = new Date().toISOString()
+    for (const cipher of trashed) {
+        cipher.deletedDate = null
+        cipher.revisionDate = now
+    }
+
+    await Promise.all(trashed.map(cipher => putCipher(c.env.VAULT, userId, cipher)))
+    await recordStorageUsage(c.env, userId, usageChange(before, sumUsage(trashed.map(cipherUsage))))
+
+    notifySyncCiphers(c.env, userId)
+
+    const origin = new URL(c.req.url).origin
+    return c.json({
+        data: await Promise.all(trashed.map(cipher => withAttachmentUrls(c.env, origin, userId, cipher))),
+        continuationToken: null,
+        object: 'list'
+    })
+}
+
+// --------------------------------------------------------------------------
+// Bulk Delete Handler (DELETE /api/ciphers, POST /api/ciphers/delete)
+// --------------------------------------------------------------------------
+
+export const handleDeleteMany = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const userId = payload.sub as string
+    const body = await c.req.json<any>()
+
+    const ids = getBulkIds(body)
+    const idsError = validateBulkIds(ids)
+    if (idsError) {
+        return errorResponse(c, idsError)
+    }
+
+    const ciphers = await getBulkCiphers(c, userId, ids)
+
+    await Promise.all(ciphers.flatMap(cipher => [
+        deleteAllAttachments(c.env.VAULT, userId, cipher.id),
+        deleteCipher(c.env.VAULT, userId, cipher.id)
+    ]))
+
+    // One index write for the whole batch
+    const deletedIds = new Set(ciphers.map(cipher => cipher.id))
+    const index = await getVaultIndex(c.env.DB, userId)
+    index.cipherIds = index.cipherIds.filter(id => !deletedIds.has(id))
+    await putVaultIndex(c.env.DB, userId, index)
+
+    await recordStorageUsage(c.env, userId, usageChange(sumUsage(ciphers.map(cipherUsage)), sumUsage([])))
+
+    notifySyncCiphers(c.env, userId)
+
+    return c.json({}, 200)
+}
+
+// --------------------------------------------------------------------------
+// Purge Vault Handler (POST /api/ciphers/purge)
+// --------------------------------------------------------------------------
+
+/** Deletes every cipher, folder and attachment, keeping the account */
+export const handlePurge = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const userId = payload.sub as string
+    const body = await c.req.json<any>().catch(() => ({}))
+
+    const user = await getUser(c.env.DB, payload.email)
+    if (!user) {
+        return errorResponse(c, 'User not found', 404)
+    }
+
+    const blocked = await checkLoginLimits(c, user.email)
+    if (blocked) return blocked
+
+    if (!await verifyMasterPassword(user, body.MasterPasswordHash || body.masterPasswordHash)) {
+        return loginFailed(c, user.email, user, 'Invalid password.')
+    }
+
+    await deleteVault(c.env.VAULT, userId)
+    await putVaultIndex(c.env.DB, userId, { cipherIds: [], folderIds: [], revision: '' })
+    await putStorageUsage(c.env.DB, userId, { bytes: 0, items: 0 })
+
+    console.log(`[NanoVault] Purged vault for ${user.email}`)
+
+    notifySyncVault(c.env, userId)
+
+    return c.json({}, 200)
 }
@@ -7,8 +7,13 @@
 import { Context } from 'hono'
 import type { Bindings, DomainsData, GlobalEquivalentDomain } from '../types'
 import { getUser, putUser } from '../storage/kv'
-import { errorResponse } from './auth'
+import { errorResponse, rateLimitedResponse } from './auth'
 import { sendMail } from '../utils/mail'
+import { getClientIp } from '../utils/auth'
+import { throttle, MAIL_POLICY } from '../utils/rate-limit'
+import { getJwks } from '../utils/jwt'
+import { isSignupOpen } from '../utils/signup'
+import { isSsoEnabled } from '../utils/sso'
 import { GLOBAL_EQUIVALENT_DOMAINS } from '../constants/domains'
 
 type AppContext = Context<{ Bindings: Bindings }>
@@ -83,11 +88,12 @@ export const handleConfig = (c: AppContext) => {
         api: baseUrl,
         identity: baseUrl,
         notifications: baseUrl,
-        sso: ''
+        sso: isSsoEnabled(c.env) ? baseUrl : ''
     }
     return c.json({
         settings: {
-            environment
+            environment,
+            disableUserRegistration: !isSignupOpen(c.env)
         },
         environment,
         version: '2.0.0',
@@ -101,7 +107,7 @@ export const handleConfig = (c: AppContext) => {
 
 export const handleFeatures = (c: AppContext) => {
     return c.json({
-        '2fa': false,
+        '2fa': true,
         'directory-sync': false,
         'events': false,
         'groups': false,
@@ -113,11 +119,43 @@ export const handleFeatures = (c: AppContext) => {
     })
 }
 
+// --------------------------------------------------------------------------
+// JWKS Handler (Public)
+// --------------------------------------------------------------------------
+
+export const handleJwks = async (c: AppContext) => {
+    c.header('Cache-Control', 'public, max-age=3600')
+    return c.json(await getJwks(c.env))
+}
+
+// --------------------------------------------------------------------------
+// OpenID Configuration Handler (Public)
+// --------------------------------------------------------------------------
+
+export const handleOpenIdConfiguration = async (c: AppContext) => {
+    const baseUrl = new URL(c.req.url).origin
+    const { keys } = await getJwks(c.env)
+    const sso = isSsoEnabled(c.env)
+
+    return c.json({
+        issuer: baseUrl,
+        jwks_uri: `${baseUrl}/.well-known/jwks`,
+        token_endpoint: `${baseUrl}/identity/connect/token`,
+        ...(sso && { authorization_endpoint: `${baseUrl}/identity/connect/authorize` }),
+        grant_types_supported: ['password', 'refresh_token', 'client_credentials', ...(sso ? ['authorization_code'] : [])],
+        response_types_supported: sso ? ['token', 'code'] : ['token'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: [...new Set(keys.map(k => k.alg))],
+        token_endpoint_auth_methods_supported: ['client_secret_post'],
+        scopes_supported: ['api', 'offline_access'],
+        claims_supported: ['sub', 'email', 'email_verified', 'name']
+    })
+}
+
 // --------------------------------------------------------------------------
 // Stub Handlers
 // --------------------------------------------------------------------------
 
-export const handleTwoFactor = (c: AppContext) => c.json([], 200)
 export const handlePasswordHint = async (c: AppContext) => {
     try {
         const body = await c.req.json<any>()
@@ -127,6 +165,12 @@ export const handlePasswordHint = async (c: AppContext) => {
             return c.json({}, 200)
         }
 
+        const status = await throttle(c.env.DB, [
+            { scope: 'mail', subject: email, policy: MAIL_POLICY },
+            { scope: 'mail-ip', subject: getClientIp(c), policy: MAIL_POLICY }
+        ])
+        if (!status.allowed) return rateLimitedResponse(c, status.retryAfter)
+
         const user = await getUser(c.env.DB, email)
         if (user && user.masterPasswordHint) {
             if (c.env.RESEND_API_KEY) {
@@ -228,29 +272,3 @@ export const handleKeys = async (c: AppContext) => {
 
     return c.json({})
 }
-
-// --------------------------------------------------------------------------
-// Key Handler (Protected)
-// --------------------------------------------------------------------------
-
-export const handleKey = async (c: AppContext) => {
-    const payload = c.get('jwtPayload')
-    const body = await c.req.json<any>()
-
-    const user = await getUser(c.env.DB, payload.email)
-    if (!user) return errorResponse(c, 'User not found', 404)
-
-    const newKey = body.Key ?? body.key
-    if (newKey) user.key = newKey
-
-    const newHash = body.MasterPasswordHash ?? body.masterPasswordHash
-    if (newHash) {
-        user.masterPasswordHash = newHash
-        user.securityStamp = crypto.randomUUID()
-    }
-
-    user.updatedAt = new Date().toISOString()
-    await putUser(c.env.DB, user)
-
-    return c.json({})
-}
@@ -1,14 +1,24 @@
 /**
  * Devices Handlers Module
  * 
- * Exports handler functions for device management for push notifications.
+ * Exports handler functions for device management for push notifications
+ * and trusted device encryption.
  */
 
 import { Context } from 'hono'
 import type { Bindings } from '../types'
-import { getDevice, getDevicesByUser, putDevice, deleteDevice as deleteDeviceKV } from '../storage/kv'
+import {
+    getUser,
+    getDevice,
+    getDevicesByUser,
+    getDeviceIdentifiers,
+    putDevice,
+    deleteDevice as deleteDeviceKV,
+    deleteRefreshSession
+} from '../storage/kv'
 import { deleteDevice as deletePushDevice, registerDevice, isPushEnabled } from './push'
 import { errorResponse } from './auth'
+import { fromBase64Url } from '../utils/encoding'
 
 type AppContext = Context<{ Bindings: Bindings }>
 
@@ -26,6 +36,7 @@ export const handleList = async (c: AppContext) => {
             name: d.name,
             type: d.type,
             identifier: d.identifier,
+            isTrusted: !!d.encryptedUserKey,
             creationDate: d.createdAt,
         })),
         continuationToken: null,
@@ -37,8 +48,31 @@ export const handleList = async (c: AppContext) => {
 // Known Device Check Handler
 // --------------------------------------------------------------------------
 
+/**
+ * Clients ask before logging in, sending the email (base64url) in
+ * X-Request-Email and the device in X-Device-Identifier.
+ */
 export const handleKnownDevice = async (c: AppContext) => {
-    return c.json(true)
+    const encodedEmail = c.req.header('X-Request-Email')
+    const identifier = c.req.header('X-Device-Identifier')
+    if (!encodedEmail || !identifier) {
+        return c.json(false)
+    }
+
+    let email: string
+    try {
+        email = new TextDecoder().decode(fromBase64Url(encodedEmail)).toLowerCase()
+    } catch {
+        return c.json(false)
+    }
+
+    const user = await getUser(c.env.DB, email)
+    if (!user) {
+        return c.json(false)
+    }
+
+    const knownDevices = await getDeviceIdentifiers(c.env.DB, user.id)
+    return c.json(knownDevices.includes(identifier))
 }
 
 // --------------------------------------------------------------------------
@@ -60,6 +94,11 @@ export const handleDelete = async (c: AppContext) => {
         await deletePushDevice(c.env, device.pushUuid)
     }
 
+    // Ends this device's login only; other devices keep their sessions
+    if (device.sessionId) {
+        await deleteRefreshSession(c.env.DB, device.userId, device.sessionId)
+    }
+
     await deleteDeviceKV(c.env.DB, device)
 
     return c.json({}, 200)
@@ -127,3 +166,72 @@ export const handleClearToken = async (c: AppContext) => {
 
     return c.json({}, 200)
 }
+
+// --------------------------------------------------------------------------
+// Update Device Keys Handler (trust this device)
+// --------------------------------------------------------------------------
+
+/**
+ * Stores the user key wrapped for a device, so SSO logins on it can
+ * decrypt the vault without a master password.
+ */
+export const handleUpdateKeys = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const identifier = c.req.param('identifier')
+    const body = await c.req.json<any>()
+
+    const encryptedUserKey = body.encryptedUserKey ?? body.EncryptedUserKey
+    const encryptedPublicKey = body.encryptedPublicKey ?? body.EncryptedPublicKey
+    const encryptedPrivateKey = body.encryptedPrivateKey ?? body.EncryptedPrivateKey
+
+    if (!encryptedUserKey || !encryptedPublicKey || !encryptedPrivateKey) {
+        return errorResponse(c, 'Missing device keys')
+    }
+
+    const device = await getDevice(c.env.DB, identifier)
+
+    if (!device || device.userId !== payload.sub) {
+        return errorResponse(c, 'Device not found', 404)
+    }
+
+    device.encryptedUserKey = encryptedUserKey
+    device.encryptedPublicKey = encryptedPublicKey
+    device.encryptedPrivateKey = encryptedPrivateKey
+    device.updatedAt = new Date().toISOString()
+
+    await putDevice(c.env.DB, device)
+
+    return c.json({
+        id: device.id,
+        name: device.name,
+        type: device.type,
+        identifier: device.identifier,
+        isTrusted: true,
+        creationDate: device.createdAt,
+        object: 'device',
+    })
+}
+
+// --------------------------------------------------------------------------
+// Untrust Devices Handler
+// --------------------------------------------------------------------------
+
+export const handleUntrust = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const body = await c.req.json<any>()
+    const deviceIds: string[] = body.devices ?? body.Devices ?? []
+
+    const userDevices = await getDevicesByUser(c.env.DB, payload.sub)
+
+    for (const device of userDevices) {
+        if (!deviceIds.includes(device.id)) continue
+
+        device.encryptedUserKey = undefined
+        device.encryptedPublicKey = undefined
+        device.encryptedPrivateKey = undefined
+        device.updatedAt = new Date().toISOString()
+        await putDevice(c.env.DB, device)
+    }
+
+    return c.json({}, 200)
+}
@@ -10,6 +10,7 @@ import { addFolderToIndex, removeFolderFromIndex } from '../storage/kv'
 import { getFolder, putFolder, deleteFolder } from '../storage/s3'
 import { errorResponse } from './auth'
 import { notifyFolderCreate, notifyFolderUpdate, notifyFolderDelete } from './push'
+import { checkStorageQuota, recordStorageUsage, folderUsage, usageChange } from '../utils/quota'
 
 type AppContext = Context<{ Bindings: Bindings }>
 
@@ -41,10 +42,17 @@ export const handleCreate = async (c: AppContext) => {
         return errorResponse(c, 'Folder name required')
     }
 
+    const change = folderUsage(newFolder)
+    const quotaError = await checkStorageQuota(c.env, userId, change)
+    if (quotaError) {
+        return errorResponse(c, quotaError)
+    }
+
     await Promise.all([
         putFolder(c.env.VAULT, userId, newFolder),
         addFolderToIndex(c.env.DB, userId, newFolder.id)
     ])
+    await recordStorageUsage(c.env, userId, change)
 
     notifyFolderCreate(c.env, userId, newFolder.id, newFolder.revisionDate)
 
@@ -81,6 +89,12 @@ export const handleUpdate = async (c: AppContext) => {
     const existing = await getFolder(c.env.VAULT, userId, folderId)
     const updatedFolder = buildFolder(body, folderId)
 
+    const change = usageChange(folderUsage(existing), folderUsage(updatedFolder))
+    const quotaError = await checkStorageQuota(c.env, userId, change)
+    if (quotaError) {
+        return errorResponse(c, quotaError)
+    }
+
     const promises: Promise<void>[] = [
         putFolder(c.env.VAULT, userId, updatedFolder)
     ]
@@ -90,6 +104,7 @@ export const handleUpdate = async (c: AppContext) => {
     }
 
     await Promise.all(promises)
+    await recordStorageUsage(c.env, userId, change)
 
     notifyFolderUpdate(c.env, userId, updatedFolder.id, updatedFolder.revisionDate)
 
@@ -105,8 +120,11 @@ export const handleDelete = async (c: AppContext) => {
     const userId = payload.sub as string
     const folderId = c.req.param('id')
 
+    const folder = await getFolder(c.env.VAULT, userId, folderId)
+
     await deleteFolder(c.env.VAULT, userId, folderId)
     await removeFolderFromIndex(c.env.DB, userId, folderId)
+    await recordStorageUsage(c.env, userId, usageChange(folderUsage(folder), folderUsage(null)))
 
     notifyFolderDelete(c.env, userId, folderId)
 
@@ -0,0 +1,222 @@
+/**
+ * Key Management Handlers Module
+ *
+ * Exports handler functions for user key rotation: the whole vault is
+ * re-encrypted client-side and uploaded in one request, then written
+ * all-or-nothing so no item is left encrypted under a key the user no
+ * longer has.
+ */
+
+import { Context } from 'hono'
+import type { Bindings, UserData, Cipher, Folder } from '../types'
+import { getUser, putUser, getDevicesByUser, putDevice } from '../storage/kv'
+import { listCiphers, listFolders, putCipher, putFolder } from '../storage/s3'
+import { errorResponse, rotateSecurityStamp, checkLoginLimits, loginFailed } from './auth'
+import { buildCipher } from './ciphers'
+import { notifyLogout } from './push'
+import { verifyMasterPassword } from '../utils/password'
+import { recordStorageUsage, cipherUsage, folderUsage, usageChange, sumUsage } from '../utils/quota'
+
+type AppContext = Context<{ Bindings: Bindings }>
+
+/** Rotation request, normalized from the modern and legacy body formats */
+interface RotationRequest {
+    masterPasswordHash: string
+    newMasterPasswordHash: string
+    key: string
+    publicKey?: string
+    encryptedPrivateKey: string
+    unlockData?: {
+        email: string
+        kdf: number
+        kdfIterations: number
+        kdfMemory?: number
+        kdfParallelism?: number
+    }
+    ciphers: any[]
+    folders: any[]
+    sends: any[]
+}
+
+// --------------------------------------------------------------------------
+// Helpers
+// --------------------------------------------------------------------------
+
+/**
+ * Checks that a rotated list holds exactly the stored items, once each.
+ *
+ * @returns Error message if items are missing, unknown or repeated
+ */
+const checkComplete = (kind: string, existingIds: string[], items: any[]): string | null => {
+    const ids = items.map(item => item?.id ?? item?.Id)
+    if (new Set(ids).size !== ids.length) {
+        return `Duplicate ${kind} in rotation request.`
+    }
+    if (ids.some(id => !existingIds.includes(id))) {
+        return `Unknown ${kind} in rotation request.`
+    }
+    if (ids.length !== existingIds.length) {
+        return `All existing ${kind} must be included in the rotation.`
+    }
+    return null
+}
+
+// --------------------------------------------------------------------------
+// Rotation
+// --------------------------------------------------------------------------
+
+const rotateUserKeys = async (c: AppContext, request: RotationRequest) => {
+    const payload = c.get('jwtPayload')
+    const userId = payload.sub as string
+
+    const user = await getUser(c.env.DB, payload.email)
+    if (!user) {
+        return errorResponse(c, 'User not found', 404)
+    }
+
+    const blocked = await checkLoginLimits(c, user.email)
+    if (blocked) return blocked
+
+    if (!await verifyMasterPassword(user, request.masterPasswordHash)) {
+        return loginFailed(c, user.email, user, 'Invalid password')
+    }
+
+    if (!request.key || !request.encryptedPrivateKey || !request.newMasterPasswordHash) {
+        return errorResponse(c, 'New user key, private key and master password hash required')
+    }
+
+    const unlock = request.unlockData
+    if (unlock) {
+        if (unlock.email?.toLowerCase() !== user.email) {
+            return errorResponse(c, 'Invalid unlock data email')
+        }
+        if (unlock.kdf !== user.kdf
+            || unlock.kdfIterations !== user.kdfIterations
+            || (unlock.kdfMemory ?? undefined) !== user.kdfMemory
+            || (unlock.kdfParallelism ?? undefined) !== user.kdfParallelism) {
+            return errorResponse(c, 'Changing the kdf type or kdf settings is not supported in key rotation.')
+        }
+    }
+
+    const [storedCiphers, storedFolders] = await Promise.all([
+        listCiphers(c.env.VAULT, userId),
+        listFolders(c.env.VAULT, userId)
+    ])
+
+    // Sends are not stored on this server, so the client must not have any
+    const incomplete = checkComplete('ciphers', storedCiphers.map(x => x.id), request.ciphers)
+        ?? checkComplete('folders', storedFolders.map(x => x.id), request.folders)
+        ?? checkComplete('sends', [], request.sends)
+    if (incomplete) {
+        return errorResponse(c, incomplete)
+    }
+
+    // Build everything before the first write
+    const now = new Date().toISOString()
+    const ciphers: Cipher[] = request.ciphers.map(item => {
+        const existing = storedCiphers.find(x => x.id === (item.id ?? item.Id))!
+        return {
+            ...buildCipher(item, { id: existing.id, existing }),
+            revisionDate: now,
+            deletedDate: existing.deletedDate
+        }
+    })
+    const folders: Folder[] = request.folders.map(item => {
+        const existing = storedFolders.find(x => x.id === (item.id ?? item.Id))!
+        return { ...existing, name: item.name ?? item.Name, revisionDate: now }
+    })
+
+    const originalUser: UserData = { ...user }
+
+    user.key = request.key
+    user.publicKey = request.publicKey ?? user.publicKey
+    user.encryptedPrivateKey = request.encryptedPrivateKey
+    await rotateSecurityStamp(c.env, user, request.newMasterPasswordHash)
+    user.updatedAt = now
+
+    // The user record goes last: until it is written, clients still unlock with the old key
+    try {
+        await Promise.all([
+            ...ciphers.map(cipher => putCipher(c.env.VAULT, userId, cipher)),
+            ...folders.map(folder => putFolder(c.env.VAULT, userId, folder))
+        ])
+        await putUser(c.env.DB, user)
+    } catch (e) {
+        console.error('[NanoVault] Key rotation failed, restoring previous vault', e)
+        await Promise.allSettled([
+            ...storedCiphers.map(cipher => putCipher(c.env.VAULT, userId, cipher)),
+            ...storedFolders.map(folder => putFolder(c.env.VAULT, userId, folder)),
+            putUser(c.env.DB, originalUser)
+        ])
+        return errorResponse(c, 'Key rotation failed, no changes were made', 500)
+    }
+
+    // Re-encrypted items differ slightly in size; not checked, the vault has to be rotated as a whole
+    await recordStorageUsage(c.env, userId, usageChange(
+        sumUsage([...storedCiphers.map(cipherUsage), ...storedFolders.map(folderUsage)]),
+        sumUsage([...ciphers.map(cipherUsage), ...folders.map(folderUsage)])
+    ))
+
+    // Trusted devices hold the old user key and have to be trusted again
+    for (const device of await getDevicesByUser(c.env.DB, userId)) {
+        if (!device.encryptedUserKey) continue
+        device.encryptedUserKey = undefined
+        device.encryptedPublicKey = undefined
+        device.encryptedPrivateKey = undefined
+        await putDevice(c.env.DB, device)
+    }
+
+    console.log(`[NanoVault] Rotated user key for ${user.email}: ${ciphers.length} ciphers, ${folders.length} folders`)
+
+    // Every other session holds the old user key
+    notifyLogout(c.env, user.id)
+
+    return c.json({})
+}
+
+// --------------------------------------------------------------------------
+// Rotate User Account Keys Handler
+// --------------------------------------------------------------------------
+
+export const handleRotateUserAccountKeys = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const unlock = body.accountUnlockData?.masterPasswordUnlockData ?? {}
+    const data = body.accountData ?? {}
+
+    return rotateUserKeys(c, {
+        masterPasswordHash: body.oldMasterKeyAuthenticationHash,
+        newMasterPasswordHash: unlock.masterKeyAuthenticationHash,
+        key: unlock.masterKeyEncryptedUserKey,
+        publicKey: body.accountKeys?.accountPublicKey,
+        encryptedPrivateKey: body.accountKeys?.userKeyEncryptedAccountPrivateKey,
+        unlockData: {
+            email: unlock.email,
+            kdf: unlock.kdfType,
+            kdfIterations: unlock.kdfIterations,
+            kdfMemory: unlock.kdfMemory,
+            kdfParallelism: unlock.kdfParallelism
+        },
+        ciphers: data.ciphers ?? [],
+        folders: data.folders ?? [],
+        sends: data.sends ?? []
+    })
+}
+
+// --------------------------------------------------------------------------
+// Legacy Update Key Handler (POST /api/accounts/key, older clients)
+// --------------------------------------------------------------------------
+
+export const handleUpdateKey = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const masterPasswordHash = body.MasterPasswordHash ?? body.masterPasswordHash
+
+    return rotateUserKeys(c, {
+        masterPasswordHash,
+        newMasterPasswordHash: masterPasswordHash,
+        key: body.Key ?? body.key,
+        encryptedPrivateKey: body.PrivateKey ?? body.privateKey,
+        ciphers: body.Ciphers ?? body.ciphers ?? [],
+        folders: body.Folders ?? body.folders ?? [],
+        sends: body.Sends ?? body.sends ?? []
+    })
+}
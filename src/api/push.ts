@@ -187,7 +187,7 @@ export const sendNotification = async (
     env: Bindings,
     userId: string,
     type: number,
-    payload?: { id?: string; revisionDate?: string }
+    payload?: { id?: string; userId?: string; revisionDate?: string }
 ): Promise<boolean> => {
     if (!isPushEnabled(env)) {
         return false
@@ -309,6 +309,30 @@ export const notifyFolderDelete = async (
     })
 }
 
+/**
+ * Send full cipher sync notification (after bulk changes)
+ */
+export const notifySyncCiphers = async (
+    env: Bindings,
+    userId: string
+): Promise<void> => {
+    await sendNotification(env, userId, NOTIFICATION_TYPE.SyncCiphers, {
+        userId,
+    })
+}
+
+/**
+ * Send full vault sync notification (after the vault was purged)
+ */
+export const notifySyncVault = async (
+    env: Bindings,
+    userId: string
+): Promise<void> => {
+    await sendNotification(env, userId, NOTIFICATION_TYPE.SyncVault, {
+        userId,
+    })
+}
+
 /**
  * Send logout notification (forces sync on all devices)
  */
@@ -318,3 +342,43 @@ export const notifyLogout = async (
 ): Promise<void> => {
     await sendNotification(env, userId, NOTIFICATION_TYPE.LogOut)
 }
+
+/**
+ * Send settings notification (profile or avatar changed)
+ */
+export const notifySettings = async (
+    env: Bindings,
+    userId: string
+): Promise<void> => {
+    await sendNotification(env, userId, NOTIFICATION_TYPE.SyncSettings, {
+        userId,
+    })
+}
+
+/**
+ * Send auth request notification (prompts approval on the user's devices)
+ */
+export const notifyAuthRequest = async (
+    env: Bindings,
+    userId: string,
+    authRequestId: string
+): Promise<void> => {
+    await sendNotification(env, userId, NOTIFICATION_TYPE.AuthRequest, {
+        id: authRequestId,
+        userId,
+    })
+}
+
+/**
+ * Send auth request response notification (tells the requesting device to check back)
+ */
+export const notifyAuthRequestResponse = async (
+    env: Bindings,
+    userId: string,
+    authRequestId: string
+): Promise<void> => {
+    await sendNotification(env, userId, NOTIFICATION_TYPE.AuthRequestResponse, {
+        id: authRequestId,
+        userId,
+    })
+}
@@ -0,0 +1,111 @@
+/**
+ * SSO Handlers Module
+ *
+ * Exports handler functions for OpenID Connect single sign-on: the
+ * prevalidate check clients run first, the authorize redirect to the IdP
+ * and the IdP's callback. The code they end with is redeemed at the token
+ * endpoint (authorization_code grant).
+ */
+
+import { Context } from 'hono'
+import type { Bindings } from '../types'
+import { errorResponse } from './auth'
+import { signToken, verifyToken } from '../utils/jwt'
+import { isSsoEnabled, isAllowedRedirectUri, startSsoLogin, completeSsoLogin, SsoError } from '../utils/sso'
+
+type AppContext = Context<{ Bindings: Bindings }>
+
+// Prevalidate tokens only need to survive the hop to /identity/connect/authorize
+const SSO_TOKEN_TTL = 5 * 60
+
+// --------------------------------------------------------------------------
+// Prevalidate Handler (GET /api/sso/prevalidate?domainHint=...)
+// --------------------------------------------------------------------------
+
+/**
+ * Clients ask for an organization identifier before SSO. There is a single
+ * IdP, so any identifier is accepted; the token proves the check was made.
+ */
+export const handlePrevalidate = async (c: AppContext) => {
+    if (!isSsoEnabled(c.env)) {
+        return errorResponse(c, 'SSO is not enabled on this server.')
+    }
+
+    const domainHint = c.req.query('domainHint')
+    if (!domainHint) {
+        return errorResponse(c, 'No organization identifier provided.')
+    }
+
+    const token = await signToken(c.env, 'sso', {
+        domain_hint: domainHint,
+        exp: Math.floor(Date.now() / 1000) + SSO_TOKEN_TTL
+    })
+    return c.json({ token })
+}
+
+// --------------------------------------------------------------------------
+// Authorize Handler (GET /identity/connect/authorize)
+// --------------------------------------------------------------------------
+
+export const handleAuthorize = async (c: AppContext) => {
+    if (!isSsoEnabled(c.env)) {
+        return errorResponse(c, 'SSO is not enabled on this server.')
+    }
+
+    const origin = new URL(c.req.url).origin
+    const query = c.req.query()
+
+    if (query.response_type !== 'code') {
+        return errorResponse(c, 'Unsupported response_type. Supported: code')
+    }
+    if (!query.redirect_uri || !isAllowedRedirectUri(query.redirect_uri, origin)) {
+        return errorResponse(c, 'Invalid redirect_uri')
+    }
+    if (!query.code_challenge || query.code_challenge_method !== 'S256') {
+        return errorResponse(c, 'PKCE with code_challenge_method S256 is required')
+    }
+
+    try {
+        await verifyToken(c.env, 'sso', query.ssoToken || '')
+    } catch {
+        return errorResponse(c, 'Invalid or expired SSO token, start again.')
+    }
+
+    try {
+        const url = await startSsoLogin(c.env, origin, {
+            redirectUri: query.redirect_uri,
+            clientState: query.state || '',
+            codeChallenge: query.code_challenge
+        })
+        return c.redirect(url, 302)
+    } catch (e) {
+        console.error('[NanoVault] SSO authorize failed:', e)
+        return errorResponse(c, 'The identity provider is unavailable.', 500)
+    }
+}
+
+// --------------------------------------------------------------------------
+// IdP Callback Handler (GET /identity/connect/oidc-signin)
+// --------------------------------------------------------------------------
+
+export const handleOidcSignin = async (c: AppContext) => {
+    const { code, state, error, error_description } = c.req.query()
+
+    if (error) {
+        return errorResponse(c, `SSO login failed: ${error_description || error}`)
+    }
+    if (!code || !state) {
+        return errorResponse(c, 'Missing code or state')
+    }
+
+    try {
+        const redirect = await completeSsoLogin(c.env, new URL(c.req.url).origin, state, code)
+        return c.redirect(redirect, 302)
+    } catch (e) {
+        if (e instanceof SsoError) {
+            return errorResponse(c, e.message)
+        }
+        console.error('[NanoVault] SSO callback failed:', e)
+        return errorResponse(c, 'The identity provider is unavailable.', 500)
+    }
+}
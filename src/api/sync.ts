@@ -1,20 +1,35 @@
 /**
  * Sync Handlers Module
  * 
- * Exports handler functions for: Profile, Revision-Date, Sync
+ * Exports handler functions for: Profile, Avatar, Revision-Date, Sync
  */
 
 import { Context } from 'hono'
-import type { Bindings, UserData, ProfileData, SyncResponse, GlobalEquivalentDomain } from '../types'
-import { getUser } from '../storage/kv'
+import type { Bindings, UserData, ProfileData, StorageUsage, SyncResponse, GlobalEquivalentDomain } from '../types'
+import { getUser, putUser } from '../storage/kv'
 import { listCiphers, listFolders } from '../storage/s3'
 import { errorResponse } from './auth'
+import { notifySettings } from './push'
 import { GLOBAL_EQUIVALENT_DOMAINS } from '../constants/domains'
+import { getEnabledProviders } from '../utils/two-factor'
+import { withAttachmentUrls } from '../utils/attachment-url'
+import { getStorageLimits, getUsage, formatSize } from '../utils/quota'
 
 type AppContext = Context<{ Bindings: Bindings }>
 
+// Name length limit matches Bitwarden's profile request model
+const MAX_NAME_LENGTH = 50
+const CULTURE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/
+const AVATAR_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/
+
+/** Storage quota in GB, or null if unlimited */
+const maxStorageGb = (env: Bindings): number | null => {
+    const { maxBytes } = getStorageLimits(env)
+    return maxBytes === null ? null : Math.round(maxBytes / 1024 ** 3 * 100) / 100
+}
+
 // Helper: Build profile object (camelCase)
-const buildProfile = (user: UserData): ProfileData => ({
+const buildProfile = (env: Bindings, user: UserData, usage: StorageUsage): ProfileData => ({
     id: user.id,
     name: user.name ?? null,
     email: user.email,
@@ -23,16 +38,18 @@ const buildProfile = (user: UserData): ProfileData => ({
     premiumFromOrganization: false,
     masterPasswordHint: user.masterPasswordHint ?? null,
     culture: user.culture,
-    twoFactorEnabled: false,
+    twoFactorEnabled: getEnabledProviders(user).length > 0,
     key: user.key,
     publicKey: user.publicKey ?? null,
     privateKey: user.encryptedPrivateKey ?? null,
     securityStamp: user.securityStamp,
     forcePasswordReset: false,
     usesKeyConnector: false,
-    avatarColor: null,
+    avatarColor: user.avatarColor ?? null,
     creationDate: user.createdAt,
     verifyDevices: true,
+    maxStorageGb: maxStorageGb(env),
+    storageName: formatSize(usage.bytes),
     organizations: [],
     providers: [],
     providerOrganizations: [],
@@ -48,7 +65,63 @@ export const handleProfile = async (c: AppContext) => {
     const user = await getUser(c.env.DB, payload.email)
     if (!user) return errorResponse(c, 'User not found', 404)
 
-    return c.json(buildProfile(user))
+    return c.json(buildProfile(c.env, user, await getUsage(c.env, user.id)))
+}
+
+// --------------------------------------------------------------------------
+// Update Profile Handler
+// --------------------------------------------------------------------------
+
+export const handleUpdateProfile = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const body = await c.req.json<any>()
+
+    const user = await getUser(c.env.DB, payload.email)
+    if (!user) return errorResponse(c, 'User not found', 404)
+
+    const name = body.Name ?? body.name ?? null
+    const culture = body.Culture ?? body.culture
+
+    if (name !== null && (typeof name !== 'string' || name.length > MAX_NAME_LENGTH)) {
+        return errorResponse(c, `Name must be at most ${MAX_NAME_LENGTH} characters.`)
+    }
+    if (culture !== undefined && (typeof culture !== 'string' || !CULTURE_PATTERN.test(culture))) {
+        return errorResponse(c, 'Invalid culture.')
+    }
+
+    user.name = name ?? ''
+    if (culture) user.culture = culture
+    user.updatedAt = new Date().toISOString()
+    await putUser(c.env.DB, user)
+
+    notifySettings(c.env, user.id)
+
+    return c.json(buildProfile(c.env, user, await getUsage(c.env, user.id)))
+}
+
+// --------------------------------------------------------------------------
+// Update Avatar Handler
+// --------------------------------------------------------------------------
+
+export const handleUpdateAvatar = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const body = await c.req.json<any>()
+
+    const user = await getUser(c.env.DB, payload.email)
+    if (!user) return errorResponse(c, 'User not found', 404)
+
+    const avatarColor = body.AvatarColor ?? body.avatarColor ?? null
+    if (avatarColor !== null && (typeof avatarColor !== 'string' || !AVATAR_COLOR_PATTERN.test(avatarColor))) {
+        return errorResponse(c, 'Avatar color must be a #RRGGBB hex color.')
+    }
+
+    user.avatarColor = avatarColor
+    user.updatedAt = new Date().toISOString()
+    await putUser(c.env.DB, user)
+
+    notifySettings(c.env, user.id)
+
+    return c.json(buildProfile(c.env, user, await getUsage(c.env, user.id)))
 }
 
 // --------------------------------------------------------------------------
@@ -85,6 +158,9 @@ export const handleSync = async (c: AppContext) => {
         return errorResponse(c, `Failed to load vault data: ${err}`, 500)
     }
 
+    const origin = new URL(c.req.url).origin
+    ciphers = await Promise.all(ciphers.map(cipher => withAttachmentUrls(c.env, origin, userId, cipher)))
+
     const excludedGlobalTypes = user.excludedGlobalEquivalentDomains ?? []
     const globalEquivalentDomains: GlobalEquivalentDomain[] = GLOBAL_EQUIVALENT_DOMAINS.map(g => ({
         type: g.type,
@@ -94,7 +170,7 @@ export const handleSync = async (c: AppContext) => {
 
     return c.json<SyncResponse>({
         object: 'sync',
-        profile: buildProfile(user),
+        profile: buildProfile(c.env, user, await getUsage(c.env, userId)),
         folders: folders,
         ciphers: ciphers,
         domains: {
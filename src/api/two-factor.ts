@@ -0,0 +1,511 @@
+/**
+ * Two-Factor Handlers Module
+ *
+ * Exports handler functions for: provider list, authenticator (TOTP), email and WebAuthn setup,
+ * disable, recovery code and recover-2FA
+ */
+
+import { Context } from 'hono'
+import type { Bindings, UserData, TwoFactorSettings, WebAuthnCredential } from '../types'
+import { TWO_FACTOR_AUTHENTICATOR, TWO_FACTOR_EMAIL, TWO_FACTOR_WEBAUTHN } from '../types'
+import { getUser, putUser } from '../storage/kv'
+import { errorResponse, rateLimitedResponse, rotateSecurityStamp, checkLoginLimits, loginFailed } from './auth'
+import { verifyMasterPassword, simulateMasterPasswordCheck } from '../utils/password'
+import { base32Decode, generateTotpSecret, verifyTotp } from '../utils/totp'
+import {
+    getEnabledProviders,
+    sendEmailCode,
+    verifyEmailCode,
+    createWebAuthnChallenge,
+    consumeWebAuthnChallenge,
+    generateRecoveryCode,
+    recoveryCodeMatches,
+    WEBAUTHN_TIMEOUT
+} from '../utils/two-factor'
+import { sendMail } from '../utils/mail'
+import { verifyRegistration, SUPPORTED_ALGORITHMS } from '../utils/webauthn'
+import { toBase64Url } from '../utils/encoding'
+import { getClientIp } from '../utils/auth'
+import { throttle, MAIL_POLICY } from '../utils/rate-limit'
+
+type AppContext = Context<{ Bindings: Bindings }>
+
+// Where each provider type keeps its settings on UserData.twoFactor
+const PROVIDER_SETTINGS: Record<number, keyof TwoFactorSettings> = {
+    [TWO_FACTOR_AUTHENTICATOR]: 'authenticator',
+    [TWO_FACTOR_EMAIL]: 'email',
+    [TWO_FACTOR_WEBAUTHN]: 'webAuthn'
+}
+
+// Bitwarden clients offer five security key slots
+const MAX_WEBAUTHN_KEYS = 5
+
+// --------------------------------------------------------------------------
+// Helpers
+// --------------------------------------------------------------------------
+
+/**
+ * Loads the current user and checks the master password hash in the request body.
+ * Wrong guesses count toward the same lockout as logins.
+ */
+const getVerifiedUser = async (c: AppContext, body: any): Promise<UserData | Response> => {
+    const payload = c.get('jwtPayload')
+    const user = await getUser(c.env.DB, payload.email)
+    if (!user) return errorResponse(c, 'User not found', 404)
+
+    const blocked = await checkLoginLimits(c, user.email)
+    if (blocked) return blocked
+
+    const hash = body.masterPasswordHash ?? body.MasterPasswordHash
+    if (!await verifyMasterPassword(user, hash)) {
+        return loginFailed(c, user.email, user, 'Invalid password')
+    }
+    return user
+}
+
+const buildAuthenticatorResponse = (enabled: boolean, key: string) => ({
+    enabled,
+    key,
+    object: 'twoFactorAuthenticator'
+})
+
+const buildEmailResponse = (enabled: boolean, email: string) => ({
+    enabled,
+    email,
+    object: 'twoFactorEmail'
+})
+
+const buildWebAuthnResponse = (keys: WebAuthnCredential[]) => ({
+    enabled: keys.length > 0,
+    keys: keys.map(k => ({ name: k.name, id: k.id, migrated: false })),
+    object: 'twoFactorWebAuthn'
+})
+
+/** Merges provider settings into the user and saves; the first provider also issues a recovery code */
+const saveProviderSettings = async (c: AppContext, user: UserData, settings: TwoFactorSettings) => {
+    user.twoFactor = {
+        ...user.twoFactor,
+        ...settings,
+        recoveryCode: user.twoFactor?.recoveryCode ?? generateRecoveryCode()
+    }
+    user.updatedAt = new Date().toISOString()
+    await putUser(c.env.DB, user)
+}
+
+/** Removes a provider from the user's two-factor settings and saves the user */
+const disableProvider = async (c: AppContext, user: UserData, type: number) => {
+    const field = PROVIDER_SETTINGS[type]
+    if (field && user.twoFactor?.[field]) {
+        delete user.twoFactor[field]
+        user.updatedAt = new Date().toISOString()
+        await putUser(c.env.DB, user)
+    }
+    return c.json({ enabled: false, type, object: 'twoFactorProvider' })
+}
+
+// --------------------------------------------------------------------------
+// Provider List Handler
+// --------------------------------------------------------------------------
+
+export const handleList = async (c: AppContext) => {
+    const payload = c.get('jwtPayload')
+    const user = await getUser(c.env.DB, payload.email)
+    if (!user) return errorResponse(c, 'User not found', 404)
+
+    return c.json({
+        data: getEnabledProviders(user).map(type => ({
+            enabled: true,
+            type,
+            object: 'twoFactorProvider'
+        })),
+        continuationToken: null,
+        object: 'list'
+    })
+}
+
+// --------------------------------------------------------------------------
+// Get Authenticator Handler
+// --------------------------------------------------------------------------
+
+export const handleGetAuthenticator = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    const existing = user.twoFactor?.authenticator
+    if (existing) {
+        return c.json(buildAuthenticatorResponse(true, existing.key))
+    }
+
+    // New secret is only persisted once the client proves it with a valid code
+    return c.json(buildAuthenticatorResponse(false, generateTotpSecret()))
+}
+
+// --------------------------------------------------------------------------
+// Enable Authenticator Handler
+// --------------------------------------------------------------------------
+
+export const handleEnableAuthenticator = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    const key = ((body.key ?? body.Key ?? '') as string).toUpperCase().replace(/[\s=]/g, '')
+    const token = String(body.token ?? body.Token ?? '')
+
+    const raw = base32Decode(key)
+    if (!raw || raw.length < 10) {
+        return errorResponse(c, 'Invalid authenticator key')
+    }
+
+    const step = await verifyTotp(key, token)
+    if (step === null) {
+        return errorResponse(c, 'Invalid token.')
+    }
+
+    await saveProviderSettings(c, user, { authenticator: { key, lastUsedStep: step } })
+
+    return c.json(buildAuthenticatorResponse(true, key))
+}
+
+// --------------------------------------------------------------------------
+// Disable Authenticator Handler
+// --------------------------------------------------------------------------
+
+export const handleDisableAuthenticator = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    return disableProvider(c, user, TWO_FACTOR_AUTHENTICATOR)
+}
+
+// --------------------------------------------------------------------------
+// Get Email Handler
+// --------------------------------------------------------------------------
+
+export const handleGetEmail = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    const existing = user.twoFactor?.email
+    return c.json(buildEmailResponse(!!existing, existing?.email ?? user.email))
+}
+
+// --------------------------------------------------------------------------
+// Send Setup Email Handler
+// --------------------------------------------------------------------------
+
+export const handleSendEmail = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    const email = ((body.email ?? body.Email ?? '') as string).toLowerCase()
+    if (!email) {
+        return errorResponse(c, 'Email required')
+    }
+
+    const status = await throttle(c.env.DB, [
+        { scope: 'mail', subject: email, policy: MAIL_POLICY },
+        { scope: 'mail-ip', subject: getClientIp(c), policy: MAIL_POLICY }
+    ])
+    if (!status.allowed) return rateLimitedResponse(c, status.retryAfter)
+
+    await sendEmailCode(c.env, user.id, email, 'setup')
+
+    return c.json({}, 200)
+}
+
+// --------------------------------------------------------------------------
+// Enable Email Handler
+// --------------------------------------------------------------------------
+
+export const handleEnableEmail = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    const email = ((body.email ?? body.Email ?? '') as string).toLowerCase()
+    const token = String(body.token ?? body.Token ?? '')
+    if (!email) {
+        return errorResponse(c, 'Email required')
+    }
+
+    if (!await verifyEmailCode(c.env, user.id, email, token, 'setup')) {
+        return errorResponse(c, 'Invalid token.')
+    }
+
+    await saveProviderSettings(c, user, { email: { email } })
+
+    return c.json(buildEmailResponse(true, email))
+}
+
+// --------------------------------------------------------------------------
+// Disable Email Handler
+// --------------------------------------------------------------------------
+
+export const handleDisableEmail = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    return disableProvider(c, user, TWO_FACTOR_EMAIL)
+}
+
+// --------------------------------------------------------------------------
+// Get WebAuthn Handler
+// --------------------------------------------------------------------------
+
+export const handleGetWebAuthn = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    return c.json(buildWebAuthnResponse(user.twoFactor?.webAuthn ?? []))
+}
+
+// --------------------------------------------------------------------------
+// WebAuthn Registration Challenge Handler
+// --------------------------------------------------------------------------
+
+export const handleGetWebAuthnChallenge = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    const challenge = await createWebAuthnChallenge(c.env, user.id, 'register')
+    const keys = user.twoFactor?.webAuthn ?? []
+
+    return c.json({
+        rp: { id: new URL(c.req.url).hostname, name: 'Nanovault' },
+        user: {
+            id: toBase64Url(new TextEncoder().encode(user.id)),
+            name: user.email,
+            displayName: user.name || user.email
+        },
+        challenge,
+        pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key', alg })),
+        timeout: WEBAUTHN_TIMEOUT,
+        attestation: 'none',
+        authenticatorSelection: {
+            requireResidentKey: false,
+            userVerification: 'discouraged'
+        },
+        excludeCredentials: keys.map(k => ({ type: 'public-key', id: k.credentialId })),
+        extensions: {},
+        status: 'ok',
+        errorMessage: ''
+    })
+}
+
+// --------------------------------------------------------------------------
+// Register WebAuthn Key Handler
+// --------------------------------------------------------------------------
+
+export const handlePutWebAuthn = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    const id = Number(body.id ?? body.Id)
+    const name = (body.name ?? body.Name ?? '') as string
+    const deviceResponse = body.deviceResponse ?? body.DeviceResponse
+    const response = deviceResponse?.response ?? deviceResponse?.Response
+
+    if (!Number.isInteger(id) || id < 1 || id > MAX_WEBAUTHN_KEYS) {
+        return errorResponse(c, 'Invalid key slot')
+    }
+    if (!response) {
+        return errorResponse(c, 'Device response required')
+    }
+
+    const challenge = await consumeWebAuthnChallenge(c.env, user.id, 'register')
+    if (!challenge) {
+        return errorResponse(c, 'Registration challenge expired, please try again')
+    }
+
+    const origin = new URL(c.req.url).origin
+    let registered
+    try {
+        registered = await verifyRegistration({
+            attestationObject: response.attestationObject ?? response.AttestationObject,
+            clientDataJson: response.clientDataJson ?? response.clientDataJSON ?? response.ClientDataJson,
+            challenge,
+            origin,
+            rpId: new URL(origin).hostname
+        })
+    } catch (e) {
+        return errorResponse(c, `Invalid security key response: ${e instanceof Error ? e.message : e}`)
+    }
+
+    const keys = (user.twoFactor?.webAuthn ?? []).filter(k => k.id !== id)
+    if (keys.some(k => k.credentialId === registered.credentialId)) {
+        return errorResponse(c, 'Security key is already registered')
+    }
+
+    keys.push({
+        id,
+        name,
+        ...registered,
+        createdAt: new Date().toISOString()
+    })
+    keys.sort((a, b) => a.id - b.id)
+
+    await saveProviderSettings(c, user, { webAuthn: keys })
+
+    return c.json(buildWebAuthnResponse(keys))
+}
+
+// --------------------------------------------------------------------------
+// Delete WebAuthn Key Handler
+// --------------------------------------------------------------------------
+
+export const handleDeleteWebAuthn = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    const id = Number(body.id ?? body.Id)
+    const keys = user.twoFactor?.webAuthn ?? []
+    const remaining = keys.filter(k => k.id !== id)
+
+    if (remaining.length === keys.length) {
+        return errorResponse(c, 'Security key not found', 404)
+    }
+
+    user.twoFactor = { ...user.twoFactor, webAuthn: remaining }
+    if (remaining.length === 0) {
+        delete user.twoFactor.webAuthn
+    }
+    user.updatedAt = new Date().toISOString()
+    await putUser(c.env.DB, user)
+
+    return c.json(buildWebAuthnResponse(remaining))
+}
+
+// --------------------------------------------------------------------------
+// Send Login Email Handler (Public)
+// --------------------------------------------------------------------------
+
+/** Checks the master password like a login, so it shares the login limits and lockout */
+export const handleSendEmailLogin = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const email = ((body.email ?? body.Email ?? '') as string).toLowerCase()
+    const hash = body.masterPasswordHash ?? body.MasterPasswordHash
+
+    if (!email) {
+        return errorResponse(c, 'Email required')
+    }
+
+    const blocked = await checkLoginLimits(c, email)
+    if (blocked) return blocked
+
+    const user = await getUser(c.env.DB, email)
+    if (!user) {
+        await simulateMasterPasswordCheck(c.env, hash)
+        return loginFailed(c, email, null, 'Invalid username or password')
+    }
+    if (!await verifyMasterPassword(user, hash)) {
+        return loginFailed(c, email, user, 'Invalid username or password')
+    }
+
+    const settings = user.twoFactor?.email
+    if (!settings) {
+        return errorResponse(c, 'Two-step email login is not enabled')
+    }
+
+    const status = await throttle(c.env.DB, [
+        { scope: 'mail', subject: email, policy: MAIL_POLICY },
+        { scope: 'mail-ip', subject: getClientIp(c), policy: MAIL_POLICY }
+    ])
+    if (!status.allowed) return rateLimitedResponse(c, status.retryAfter)
+
+    await sendEmailCode(c.env, user.id, settings.email, 'login')
+
+    return c.json({}, 200)
+}
+
+// --------------------------------------------------------------------------
+// Get Recovery Code Handler
+// --------------------------------------------------------------------------
+
+export const handleGetRecover = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    if (!user.twoFactor?.recoveryCode) {
+        await saveProviderSettings(c, user, {})
+    }
+
+    return c.json({ code: user.twoFactor!.recoveryCode, object: 'twoFactorRecover' })
+}
+
+// --------------------------------------------------------------------------
+// Recover Two-Factor Handler (Public)
+// --------------------------------------------------------------------------
+
+/** Failures count toward the login limits, as both secrets could otherwise be guessed here */
+export const handleRecover = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const email = ((body.email ?? body.Email ?? '') as string).toLowerCase()
+    const hash = body.masterPasswordHash ?? body.MasterPasswordHash
+    const recoveryCode = (body.recoveryCode ?? body.RecoveryCode ?? '') as string
+
+    if (!email) {
+        return errorResponse(c, 'Email required')
+    }
+
+    const blocked = await checkLoginLimits(c, email)
+    if (blocked) return blocked
+
+    const user = await getUser(c.env.DB, email)
+    if (!user) {
+        await simulateMasterPasswordCheck(c.env, hash)
+        return loginFailed(c, email, null, 'Invalid information. Try again.')
+    }
+    if (!await verifyMasterPassword(user, hash) || !recoveryCodeMatches(user, recoveryCode)) {
+        return loginFailed(c, email, user, 'Invalid information. Try again.')
+    }
+
+    // Turn off every provider; the used code is replaced so it works only once
+    user.twoFactor = { recoveryCode: generateRecoveryCode() }
+    await rotateSecurityStamp(c.env, user, hash)
+    user.updatedAt = new Date().toISOString()
+    await putUser(c.env.DB, user)
+
+    if (c.env.RESEND_API_KEY) {
+        await sendMail(
+            c.env,
+            user.email,
+            'Two-step login disabled on your Nanovault account',
+            `
+            <h1>Two-Step Login Disabled</h1>
+            <p>Your recovery code was used to turn off two-step login for your Nanovault account.</p>
+            <p>All sessions have been logged out. If this wasn't you, change your master password immediately.</p>
+            `
+        )
+    }
+
+    console.log(`[NanoVault] Two-step login recovered for user: ${user.id}`)
+    return c.json({}, 200)
+}
+
+// --------------------------------------------------------------------------
+// Disable Provider Handler (generic)
+// --------------------------------------------------------------------------
+
+export const handleDisable = async (c: AppContext) => {
+    const body = await c.req.json<any>()
+    const user = await getVerifiedUser(c, body)
+    if (user instanceof Response) return user
+
+    const type = Number(body.type ?? body.Type)
+    if (Number.isNaN(type)) {
+        return errorResponse(c, 'Two-factor provider type required')
+    }
+
+    return disableProvider(c, user, type)
+}
@@ -9,6 +9,7 @@ import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 import type { Bindings } from './types'
 import { registerRoutes } from './routes'
+import { getKeyring } from './utils/jwt'
 
 /**
  * Creates a new Hono application with all routes registered.
@@ -20,6 +21,17 @@ export function createApp(): Hono<{ Bindings: Bindings }> {
     // CORS middleware
     app.use('*', cors())
 
+    // Refuse to serve without a real JWT_SECRET, rather than sign with the default one
+    app.use('*', async (c, next) => {
+        try {
+            await getKeyring(c.env)
+        } catch (e) {
+            console.log(`[NanoVault] Refusing request: ${(e as Error).message}`)
+            return c.json({ error: 'server_misconfigured', error_description: 'JWT_SECRET is not configured' }, 500)
+        }
+        return next()
+    })
+
     // Register all routes
     registerRoutes(app)
 
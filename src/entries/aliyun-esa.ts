@@ -32,27 +32,42 @@ const CONFIG_NAMESPACE = 'nanovault-config'
  * Expected format:
  * {
  *   "JWT_SECRET": "...",
+ *   "JWT_SIGNING_KEYS": "[...]",
  *   "S3_ENDPOINT": "...",
  *   "S3_BUCKET": "...",
  *   "S3_ACCESS_KEY_ID": "...",
  *   "S3_ACCESS_KEY_SECRET": "...",
  *   "S3_REGION": "...",
+ *   "S3_PRESIGNED_URLS": "true",
  *   "PUSH_ENABLED": "...",
  *   "PUSH_INSTALLATION_ID": "...",
  *   "PUSH_INSTALLATION_KEY": "...",
  *   "PUSH_RELAY_URI": "...",
  *   "PUSH_IDENTITY_URI": "...",
  *   "RESEND_API_KEY": "...",
- *   "MAIL_FROM": "..."
+ *   "MAIL_FROM": "...",
+ *   "PASSWORD_ITERATIONS": "...",
+ *   "SIGNUP_MODE": "...",
+ *   "SIGNUP_DOMAINS": "...",
+ *   "ADMIN_TOKEN": "...",
+ *   "TRUSTED_PROXY": "true",
+ *   "SSO_AUTHORITY": "...",
+ *   "SSO_CLIENT_ID": "...",
+ *   "SSO_CLIENT_SECRET": "...",
+ *   "SSO_SCOPES": "...",
+ *   "STORAGE_QUOTA_MB": "...",
+ *   "ITEM_QUOTA": "..."
  * }
  */
 interface AppConfig {
     JWT_SECRET?: string
+    JWT_SIGNING_KEYS?: string
     S3_ENDPOINT?: string
     S3_BUCKET?: string
     S3_ACCESS_KEY_ID?: string
     S3_ACCESS_KEY_SECRET?: string
     S3_REGION?: string
+    S3_PRESIGNED_URLS?: string
     PUSH_ENABLED?: string
     PUSH_INSTALLATION_ID?: string
     PUSH_INSTALLATION_KEY?: string
@@ -60,6 +75,17 @@ interface AppConfig {
     PUSH_IDENTITY_URI?: string
     RESEND_API_KEY?: string
     MAIL_FROM?: string
+    PASSWORD_ITERATIONS?: string
+    SIGNUP_MODE?: string
+    SIGNUP_DOMAINS?: string
+    ADMIN_TOKEN?: string
+    TRUSTED_PROXY?: string
+    SSO_AUTHORITY?: string
+    SSO_CLIENT_ID?: string
+    SSO_CLIENT_SECRET?: string
+    SSO_SCOPES?: string
+    STORAGE_QUOTA_MB?: string
+    ITEM_QUOTA?: string
 }
 
 /**
@@ -82,13 +108,15 @@ async function handleRequest(request: Request): Promise<Response> {
             accessKeyId: config.S3_ACCESS_KEY_ID || '',
             accessKeySecret: config.S3_ACCESS_KEY_SECRET || '',
             region: config.S3_REGION || '',
+            presignedUrls: config.S3_PRESIGNED_URLS === 'true',
         })
 
         // Create adapted bindings
         const bindings: Bindings = {
             DB: db,
             VAULT: vault,
-            JWT_SECRET: config.JWT_SECRET || 'nanovault-secret-key-change-me',
+            JWT_SECRET: config.JWT_SECRET,
+            JWT_SIGNING_KEYS: config.JWT_SIGNING_KEYS,
             PUSH_ENABLED: config.PUSH_ENABLED,
             PUSH_INSTALLATION_ID: config.PUSH_INSTALLATION_ID,
             PUSH_INSTALLATION_KEY: config.PUSH_INSTALLATION_KEY,
@@ -96,6 +124,17 @@ async function handleRequest(request: Request): Promise<Response> {
             PUSH_IDENTITY_URI: config.PUSH_IDENTITY_URI,
             RESEND_API_KEY: config.RESEND_API_KEY,
             MAIL_FROM: config.MAIL_FROM,
+            PASSWORD_ITERATIONS: config.PASSWORD_ITERATIONS,
+            SIGNUP_MODE: config.SIGNUP_MODE,
+            SIGNUP_DOMAINS: config.SIGNUP_DOMAINS,
+            ADMIN_TOKEN: config.ADMIN_TOKEN,
+            TRUSTED_PROXY: config.TRUSTED_PROXY,
+            SSO_AUTHORITY: config.SSO_AUTHORITY,
+            SSO_CLIENT_ID: config.SSO_CLIENT_ID,
+            SSO_CLIENT_SECRET: config.SSO_CLIENT_SECRET,
+            SSO_SCOPES: config.SSO_SCOPES,
+            STORAGE_QUOTA_MB: config.STORAGE_QUOTA_MB,
+            ITEM_QUOTA: config.ITEM_QUOTA,
         }
 
         // Execute with adapted environment
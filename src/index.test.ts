@@ -1,12 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import app from './index'
+import { signToken } from './utils/jwt'
 
 // --------------------------------------------------------------------------
 // Mock Environment Setup
 // --------------------------------------------------------------------------
 
 // Helper: Create mock user data (camelCase)
-// masterPasswordHash is SHA-256(securityStamp + clientHash)
+// masterPasswordHash is SHA-256(securityStamp + clientHash), the legacy server hash format
 // SHA-256('stamp-123' + 'hashedPassword123') = 'fabaf2e0faf57ba77214d5bccf667ae427c7c73b41cc7a6b832453948c6d0ac4'
 const createMockUser = (overrides = {}) => ({
   id: 'user-123',
@@ -55,8 +56,7 @@ const createMockEnv = () => {
 
 // Helper: Create a valid JWT token for testing (must be access token type)
 const createTestToken = async () => {
-  const { sign } = await import('hono/jwt')
-  return sign({
+  return signToken(createMockEnv() as any, 'access', {
     sub: 'user-123',
     email: 'test@example.com',
     name: 'Test User',
@@ -64,7 +64,7 @@ const createTestToken = async () => {
     stamp: 'stamp-123',
     token_type: 'access',
     exp: Math.floor(Date.now() / 1000) + 3600
-  }, 'test-secret-key-for-jwt')
+  })
 }
 
 // Helper: Create mock cipher data (camelCase)
@@ -96,11 +96,11 @@ describe('NanoVault API', () => {
   describe('Prelogin', () => {
     const testCases = [
       {
-        name: 'returns default KDF for new user',
+        name: 'returns decoy KDF for unknown user',
         email: 'new@example.com',
         existingUser: null,
         expectedKdf: 0,
-        expectedIterations: 100000
+        expectedIterations: 600000
       },
       {
         name: 'returns Argon2 KDF for existing user',
@@ -162,13 +162,12 @@ describe('NanoVault API', () => {
       mockEnv.DB.get.mockResolvedValue(null)
 
       // First generate a registration token (simulating what the API does)
-      const { sign } = await import('hono/jwt')
-      const token = await sign({
+      const token = await signToken(mockEnv as any, 'registration', {
         email: 'new@example.com',
         name: '',
         type: 'registration',
         exp: Math.floor(Date.now() / 1000) + 3600
-      }, 'test-secret-key-for-jwt')
+      })
 
       const res = await app.request('/identity/accounts/register/finish', {
         method: 'POST',
@@ -190,12 +189,11 @@ describe('NanoVault API', () => {
     it('creates new user with Argon2 KDF settings', async () => {
       mockEnv.DB.get.mockResolvedValue(null)
 
-      const { sign } = await import('hono/jwt')
-      const token = await sign({
+      const token = await signToken(mockEnv as any, 'registration', {
         email: 'argon2@example.com',
         type: 'registration',
         exp: Math.floor(Date.now() / 1000) + 3600
-      }, 'test-secret-key-for-jwt')
+      })
 
       const res = await app.request('/identity/accounts/register/finish', {
         method: 'POST',
@@ -205,7 +203,9 @@ describe('NanoVault API', () => {
           masterPasswordHash: 'hash123',
           userSymmetricKey: 'encryptedKey123',
           kdf: 1,
-          kdfIterations: 600000,
+          kdfIterations: 3,
+          kdfMemory: 64,
+          kdfParallelism: 4,
           emailVerificationToken: token
         })
       }, mockEnv)
@@ -216,12 +216,11 @@ describe('NanoVault API', () => {
     it('rejects duplicate email', async () => {
       mockEnv.DB.get.mockResolvedValue(JSON.stringify(createMockUser()))
 
-      const { sign } = await import('hono/jwt')
-      const token = await sign({
+      const token = await signToken(mockEnv as any, 'registration', {
         email: 'test@example.com',
         type: 'registration',
         exp: Math.floor(Date.now() / 1000) + 3600
-      }, 'test-secret-key-for-jwt')
+      })
 
       const res = await app.request('/identity/accounts/register/finish', {
         method: 'POST',
@@ -277,8 +276,14 @@ describe('NanoVault API', () => {
   // ==========================================================================
 
   describe('Token', () => {
+    // Only user records exist; rate limit counters and devices start empty
+    const mockUserOnly = () => {
+      mockEnv.DB.get.mockImplementation((key: string) =>
+        Promise.resolve(key.startsWith('user:') ? JSON.stringify(createMockUser()) : null))
+    }
+
     it('returns tokens for valid password grant', async () => {
-      mockEnv.DB.get.mockResolvedValue(JSON.stringify(createMockUser()))
+      mockUserOnly()
 
       const res = await app.request('/identity/connect/token', {
         method: 'POST',
@@ -301,7 +306,7 @@ describe('NanoVault API', () => {
     })
 
     it('rejects invalid password', async () => {
-      mockEnv.DB.get.mockResolvedValue(JSON.stringify(createMockUser()))
+      mockUserOnly()
 
       const res = await app.request('/identity/connect/token', {
         method: 'POST',
@@ -341,7 +346,7 @@ describe('NanoVault API', () => {
         method: 'POST',
         headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
         body: new URLSearchParams({
-          grant_type: 'client_credentials'
+          grant_type: 'implicit'
         }).toString()
       }, mockEnv)
 
@@ -763,13 +768,16 @@ describe('NanoVault API', () => {
     })
 
     it('returns empty two-factor list', async () => {
+      const token = await createTestToken()
       const res = await app.request('/api/two-factor', {
-        method: 'GET'
+        method: 'GET',
+        headers: { 'Authorization': `Bearer ${token}` }
       }, mockEnv)
 
       expect(res.status).toBe(200)
-      const data = await res.json()
-      expect(Array.isArray(data)).toBe(true)
+      const data: any = await res.json()
+      expect(data.object).toBe('list')
+      expect(data.data).toEqual([])
     })
   })
 
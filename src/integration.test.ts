@@ -5,8 +5,12 @@
  * Unlike mocked unit tests, these test the full request/response cycle.
  */
 
-import { describe, it, expect, beforeAll, beforeEach } from 'vitest'
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest'
 import app from './index'
+import { generateTotp } from './utils/totp'
+import { toBase64Url, fromBase64Url } from './utils/encoding'
+import { signToken } from './utils/jwt'
+import { decode, sign } from 'hono/jwt'
 
 // =============================================================================
 // Test Environment - Uses real Hono test helpers with in-memory storage
@@ -36,14 +40,20 @@ class InMemoryKV {
 class InMemoryR2 {
     private store = new Map<string, any>()
 
-    async get(key: string): Promise<{ json: () => Promise<any> } | null> {
+    async get(key: string): Promise<{ json: () => Promise<any>; body?: ReadableStream } | null> {
         const value = this.store.get(key)
         if (!value) return null
-        return { json: () => Promise.resolve(value) }
+        // Binary objects (attachments) are stored as bytes, JSON documents parsed
+        if (value instanceof Uint8Array) {
+            return { json: () => Promise.reject(new Error('not JSON')), body: new Response(value).body! }
+        }
+        return { json: () => Promise.resolve(value), body: new Response(JSON.stringify(value)).body! }
     }
 
-    async put(key: string, body: string): Promise<void> {
-        this.store.set(key, JSON.parse(body))
+    async put(key: string, body: string | ArrayBuffer | ReadableStream): Promise<void> {
+        this.store.set(key, typeof body === 'string'
+            ? JSON.parse(body)
+            : new Uint8Array(await new Response(body).arrayBuffer()))
     }
 
     async delete(key: string): Promise<void> {
@@ -66,7 +76,8 @@ class InMemoryR2 {
 const createTestEnv = () => ({
     DB: new InMemoryKV(),
     VAULT: new InMemoryR2(),
-    JWT_SECRET: 'integration-test-secret-key-32chars!'
+    JWT_SECRET: 'integration-test-secret-key-32chars!' as string | undefined,
+    JWT_SIGNING_KEYS: undefined as string | undefined
 })
 
 // Helper: Register a user via the new two-step flow
@@ -79,19 +90,19 @@ const registerUser = async (
         key: string
         kdf?: number
         kdfIterations?: number
+        kdfMemory?: number
+        kdfParallelism?: number
         name?: string
         masterPasswordHint?: string
     }
 ) => {
-    const { sign } = await import('hono/jwt')
-
     // Generate registration token (simulating what send-verification-email does)
-    const registrationToken = await sign({
+    const registrationToken = await signToken(env, 'registration', {
         email: userData.email.toLowerCase(),
         name: userData.name || '',
         type: 'registration',
         exp: Math.floor(Date.now() / 1000) + 24 * 3600
-    }, env.JWT_SECRET)
+    })
 
     // Call the new register/finish endpoint
     const res = await app.request('/identity/accounts/register/finish', {
@@ -103,6 +114,8 @@ const registerUser = async (
             userSymmetricKey: userData.key,
             kdf: userData.kdf ?? 0,
             kdfIterations: userData.kdfIterations ?? 600000,
+            kdfMemory: userData.kdfMemory,
+            kdfParallelism: userData.kdfParallelism,
             masterPasswordHint: userData.masterPasswordHint,
             emailVerificationToken: registrationToken
         })
@@ -111,6 +124,25 @@ const registerUser = async (
     return res
 }
 
+// Helper: Password grant login, with optional extra form fields (2FA, device)
+const login = async (
+    env: ReturnType<typeof createTestEnv>,
+    username: string,
+    password: string,
+    extra: Record<string, string> = {}
+) => {
+    return app.request('/identity/connect/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            grant_type: 'password',
+            username,
+            password,
+            ...extra
+        }).toString()
+    }, env)
+}
+
 // =============================================================================
 // Auth Flow Integration Tests
 // =============================================================================
@@ -125,10 +157,10 @@ describe('Integration: Auth Flow', () => {
     describe('Prelogin', () => {
         const testCases = [
             {
-                name: 'returns default PBKDF2 KDF for new user',
+                name: 'returns decoy PBKDF2 KDF for unknown user',
                 email: 'newuser@example.com',
                 setup: async () => { },
-                expected: { kdf: 0, kdfIterations: 100000 }
+                expected: { kdf: 0, kdfIterations: 600000 }
             },
             {
                 name: 'returns stored KDF settings for existing user',
@@ -184,6 +216,32 @@ describe('Integration: Auth Flow', () => {
 
             expect(res.status).toBe(400)
         })
+
+        it('returns stable decoys for unknown emails, shaped like real settings', async () => {
+            const prelogin = async (email: string) => {
+                const res = await app.request('/api/accounts/prelogin', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ email })
+                }, env)
+                return await res.json() as any
+            }
+
+            const valid = [
+                { kdf: 0, kdfIterations: 600000 },
+                { kdf: 1, kdfIterations: 3, kdfMemory: 64, kdfParallelism: 4 }
+            ]
+            const seen = new Set<string>()
+            for (let i = 0; i < 40; i++) {
+                const email = `ghost${i}@example.com`
+                const data = await prelogin(email)
+                expect(valid).toContainEqual(data)
+                expect(await prelogin(email.toUpperCase())).toEqual(data)
+                seen.add(JSON.stringify(data))
+            }
+            // Both defaults show up, so a decoy can't be spotted by its KDF type
+            expect(seen.size).toBe(2)
+        })
     })
 
     describe('Register', () => {
@@ -210,12 +268,30 @@ describe('Integration: Auth Flow', () => {
                 masterPasswordHash: 'hash123',
                 key: 'encryptedKey',
                 kdf: 1,
-                kdfIterations: 600000
+                kdfIterations: 3,
+                kdfMemory: 64,
+                kdfParallelism: 4
             })
 
             expect(res.status).toBe(200)
         })
 
+        it('rejects weak or unsupported KDF settings', async () => {
+            for (const kdf of [
+                { kdf: 0, kdfIterations: 100000 },
+                { kdf: 1, kdfIterations: 3, kdfMemory: 8, kdfParallelism: 4 },
+                { kdf: 7, kdfIterations: 600000 }
+            ]) {
+                const res = await registerUser(env, {
+                    email: 'weak.kdf@example.com',
+                    masterPasswordHash: 'hash123',
+                    key: 'encryptedKey',
+                    ...kdf
+                })
+                expect(res.status).toBe(400)
+            }
+        })
+
         it('rejects duplicate email registration', async () => {
             // First registration
             await registerUser(env, {
@@ -255,6 +331,91 @@ describe('Integration: Auth Flow', () => {
     })
 })
 
+describe('Signup Policy', () => {
+    let env: ReturnType<typeof createTestEnv>
+
+    const postJson = (path: string, body: any, headers: Record<string, string> = {}) => app.request(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body)
+    }, env)
+
+    const sendVerification = (email: string) => postJson('/identity/accounts/register/send-verification-email', { email })
+
+    const finish = (email: string, token: string) => postJson('/identity/accounts/register/finish', {
+        email,
+        masterPasswordHash: 'inviteHash',
+        userSymmetricKey: 'inviteKey',
+        emailVerificationToken: token
+    })
+
+    const config = async () => (await (await app.request('/api/config', { method: 'GET' }, env)).json() as any).settings
+
+    beforeEach(() => {
+        env = createTestEnv()
+    })
+
+    it('is open by default', async () => {
+        expect((await config()).disableUserRegistration).toBe(false)
+        expect((await sendVerification('anyone@example.com')).status).toBe(200)
+    })
+
+    it('limits registration to the allowed domains', async () => {
+        Object.assign(env, { SIGNUP_MODE: 'domains', SIGNUP_DOMAINS: '@ourcompany.com, partner.org' })
+
+        expect((await config()).disableUserRegistration).toBe(false)
+        expect((await sendVerification('dev@ourcompany.com')).status).toBe(200)
+        expect((await sendVerification('dev@partner.org')).status).toBe(200)
+
+        const res = await sendVerification('outsider@example.com')
+        expect(res.status).toBe(400)
+        expect((await res.json() as any).message).toContain('@ourcompany.com')
+
+        // A link issued before the policy changed is refused too
+        const token = await signToken(env, 'registration', {
+            email: 'outsider@example.com',
+            type: 'registration',
+            exp: Math.floor(Date.now() / 1000) + 3600
+        })
+        expect((await finish('outsider@example.com', token)).status).toBe(400)
+    })
+
+    it('registers invited users once in invite-only mode', async () => {
+        Object.assign(env, { SIGNUP_MODE: 'invite', ADMIN_TOKEN: 'admin-secret' })
+
+        expect((await config()).disableUserRegistration).toBe(true)
+        expect((await sendVerification('guest@example.com')).status).toBe(400)
+
+        const inviteRes = await postJson('/admin/invites', { email: 'Guest@example.com' }, { 'Authorization': 'Bearer admin-secret' })
+        expect(inviteRes.status).toBe(200)
+        const invite = await inviteRes.json() as any
+        expect(invite.email).toBe('guest@example.com')
+
+        // The invited address may also request a fresh link itself
+        expect((await sendVerification('guest@example.com')).status).toBe(200)
+
+        const token = new URL(invite.registerUrl.replace('/#/', '/')).searchParams.get('token')!
+        expect((await finish('guest@example.com', token)).status).toBe(200)
+        expect(await env.DB.get('invite:guest@example.com')).toBeNull()
+        expect((await login(env, 'guest@example.com', 'inviteHash')).status).toBe(200)
+    })
+
+    it('revokes invites and guards the admin API', async () => {
+        expect((await postJson('/admin/invites', { email: 'a@example.com' }, { 'Authorization': 'Bearer x' })).status).toBe(404)
+
+        Object.assign(env, { SIGNUP_MODE: 'invite', ADMIN_TOKEN: 'admin-secret' })
+        expect((await postJson('/admin/invites', { email: 'a@example.com' }, { 'Authorization': 'Bearer wrong' })).status).toBe(401)
+        expect((await postJson('/admin/invites', { email: 'a@example.com' }, { 'Authorization': 'Bearer admin-secret' })).status).toBe(200)
+
+        const revoke = await app.request('/admin/invites/a@example.com', {
+            method: 'DELETE',
+            headers: { 'Authorization': 'Bearer admin-secret' }
+        }, env)
+        expect(revoke.status).toBe(200)
+        expect((await sendVerification('a@example.com')).status).toBe(400)
+    })
+})
+
 describe('Token (Login)', () => {
     let env: ReturnType<typeof createTestEnv>
 
@@ -266,7 +427,7 @@ describe('Token (Login)', () => {
             masterPasswordHash: 'correctHash123',
             key: 'userEncryptionKey123',
             kdf: 0,
-            kdfIterations: 100000
+            kdfIterations: 650000
         })
     })
 
@@ -293,7 +454,7 @@ describe('Token (Login)', () => {
         // Bitwarden-specific fields
         expect(data.key).toBe('userEncryptionKey123')
         expect(data.kdf).toBe(0)
-        expect(data.kdfIterations).toBe(100000)
+        expect(data.kdfIterations).toBe(650000)
         expect(data.userDecryptionOptions).toBeDefined()
         expect(data.userDecryptionOptions.hasMasterPassword).toBe(true)
     })
@@ -335,7 +496,7 @@ describe('Token (Login)', () => {
             method: 'POST',
             headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
             body: new URLSearchParams({
-                grant_type: 'client_credentials'
+                grant_type: 'implicit'
             }).toString()
         }, env)
 
@@ -406,6 +567,101 @@ describe('Token Refresh', () => {
         const data = await res.json() as any
         expect(data.message).toContain('Invalid')
     })
+
+    const refresh = (token: string) => {
+        return app.request('/identity/connect/token', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                grant_type: 'refresh_token',
+                refresh_token: token
+            }).toString()
+        }, env)
+    }
+
+    it('rotates the refresh token on every use', async () => {
+        const first = await refresh(refreshToken)
+        const rotated = (await first.json() as any).refresh_token
+        expect(rotated).not.toBe(refreshToken)
+
+        const second = await refresh(rotated)
+        expect(second.status).toBe(200)
+    })
+
+    it('revokes the whole session when an old refresh token is reused', async () => {
+        const first = await refresh(refreshToken)
+        const rotated = (await first.json() as any).refresh_token
+
+        const replay = await refresh(refreshToken)
+        expect(replay.status).toBe(400)
+        expect((await replay.json() as any).message).toContain('revoked')
+
+        // The legitimate holder is logged out too
+        const after = await refresh(rotated)
+        expect(after.status).toBe(400)
+    })
+})
+
+describe('Device Sessions', () => {
+    let env: ReturnType<typeof createTestEnv>
+
+    const loginFrom = async (deviceIdentifier: string) => {
+        const res = await login(env, 'sessions@example.com', 'sessionHash', {
+            deviceIdentifier,
+            deviceName: deviceIdentifier,
+            deviceType: '8'
+        })
+        return await res.json() as any
+    }
+
+    const refresh = (token: string) => {
+        return app.request('/identity/connect/token', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                grant_type: 'refresh_token',
+                refresh_token: token
+            }).toString()
+        }, env)
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        await registerUser(env, {
+            email: 'sessions@example.com',
+            masterPasswordHash: 'sessionHash',
+            key: 'sessionKey'
+        })
+    })
+
+    it('deleting a device ends only that device\'s session', async () => {
+        const laptop = await loginFrom('laptop')
+        const phone = await loginFrom('phone')
+
+        const listRes = await app.request('/api/devices', {
+            method: 'GET',
+            headers: { 'Authorization': `Bearer ${phone.access_token}` }
+        }, env)
+        const devices = (await listRes.json() as any).data
+        const laptopDevice = devices.find((d: any) => d.identifier === 'laptop')
+
+        const deleteRes = await app.request(`/api/devices/${laptopDevice.id}`, {
+            method: 'DELETE',
+            headers: { 'Authorization': `Bearer ${phone.access_token}` }
+        }, env)
+        expect(deleteRes.status).toBe(200)
+
+        expect((await refresh(laptop.refresh_token)).status).toBe(400)
+        expect((await refresh(phone.refresh_token)).status).toBe(200)
+    })
+
+    it('logging in again on a device replaces its session', async () => {
+        const before = await loginFrom('laptop')
+        const after = await loginFrom('laptop')
+
+        expect((await refresh(before.refresh_token)).status).toBe(400)
+        expect((await refresh(after.refresh_token)).status).toBe(200)
+    })
 })
 
 describe('Password Change Token Invalidation', () => {
@@ -532,6 +788,106 @@ describe('Password Change Token Invalidation', () => {
     })
 })
 
+describe('KDF Change', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let accessToken: string
+
+    const changeKdf = (body: Record<string, unknown>) => app.request('/api/accounts/kdf', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ masterPasswordHash: 'pbkdfHash', newMasterPasswordHash: 'argonHash', key: 'argonKey', ...body })
+    }, env)
+
+    const prelogin = async (email: string) => {
+        const res = await app.request('/api/accounts/prelogin', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email })
+        }, env)
+        return await res.json() as any
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        await registerUser(env, { email: 'kdf@example.com', masterPasswordHash: 'pbkdfHash', key: 'pbkdfKey' })
+        accessToken = (await (await login(env, 'kdf@example.com', 'pbkdfHash')).json() as any).access_token
+    })
+
+    it('moves the account to Argon2id and logs out existing sessions', async () => {
+        const res = await changeKdf({ kdf: 1, kdfIterations: 3, kdfMemory: 64, kdfParallelism: 4 })
+        expect(res.status).toBe(200)
+
+        expect(await prelogin('kdf@example.com')).toMatchObject({ kdf: 1, kdfIterations: 3, kdfMemory: 64, kdfParallelism: 4 })
+
+        const syncRes = await app.request('/api/sync', { headers: { 'Authorization': `Bearer ${accessToken}` } }, env)
+        expect(syncRes.status).toBe(401)
+
+        expect((await login(env, 'kdf@example.com', 'pbkdfHash')).status).toBe(400)
+        const loginRes = await login(env, 'kdf@example.com', 'argonHash')
+        expect(loginRes.status).toBe(200)
+        expect((await loginRes.json() as any).key).toBe('argonKey')
+    })
+
+    it('accepts the nested request format from newer clients', async () => {
+        const res = await app.request('/api/accounts/kdf', {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                masterPasswordHash: 'pbkdfHash',
+                authenticationData: {
+                    kdf: { kdfType: 0, iterations: 800000, memory: null, parallelism: null },
+                    masterPasswordAuthenticationHash: 'newPbkdfHash',
+                    salt: 'kdf@example.com'
+                },
+                unlockData: {
+                    kdf: { kdfType: 0, iterations: 800000, memory: null, parallelism: null },
+                    masterKeyWrappedUserKey: 'newPbkdfKey',
+                    salt: 'kdf@example.com'
+                }
+            })
+        }, env)
+        expect(res.status).toBe(200)
+
+        expect(await prelogin('kdf@example.com')).toMatchObject({ kdf: 0, kdfIterations: 800000 })
+        expect((await login(env, 'kdf@example.com', 'newPbkdfHash')).status).toBe(200)
+    })
+
+    it('rejects settings below the Bitwarden minimums', async () => {
+        const weak = [
+            { kdf: 0, kdfIterations: 100000 },
+            { kdf: 1, kdfIterations: 1, kdfMemory: 64, kdfParallelism: 4 },
+            { kdf: 1, kdfIterations: 3, kdfMemory: 8, kdfParallelism: 4 },
+            { kdf: 1, kdfIterations: 3, kdfMemory: 64, kdfParallelism: 0 },
+            { kdf: 7, kdfIterations: 600000 }
+        ]
+        for (const settings of weak) {
+            expect((await changeKdf(settings)).status).toBe(400)
+        }
+
+        expect(await prelogin('kdf@example.com')).toMatchObject({ kdf: 0, kdfIterations: 600000 })
+    })
+
+    it('requires the current master password', async () => {
+        const res = await changeKdf({ masterPasswordHash: 'wrongHash', kdf: 0, kdfIterations: 700000 })
+        expect(res.status).toBe(400)
+        expect((await login(env, 'kdf@example.com', 'pbkdfHash')).status).toBe(200)
+    })
+
+    it('keeps Argon2 memory and parallelism from registration', async () => {
+        await registerUser(env, {
+            email: 'argon@example.com',
+            masterPasswordHash: 'hash',
+            key: 'key',
+            kdf: 1,
+            kdfIterations: 3,
+            kdfMemory: 64,
+            kdfParallelism: 4
+        })
+
+        expect(await prelogin('argon@example.com')).toMatchObject({ kdf: 1, kdfIterations: 3, kdfMemory: 64, kdfParallelism: 4 })
+    })
+})
+
 describe('Password Hint', () => {
     let env: ReturnType<typeof createTestEnv>
     beforeEach(() => {
@@ -576,462 +932,3071 @@ describe('Password Hint', () => {
     })
 })
 
-// =============================================================================
-// Vault Operations Integration Tests
-// =============================================================================
-
-describe('Integration: Vault Operations', () => {
+describe('Password Hashing', () => {
     let env: ReturnType<typeof createTestEnv>
-    let accessToken: string
-    let userId: string
 
-    beforeEach(async () => {
+    const storedUser = async (email: string) => JSON.parse((await env.DB.get(`user:${email}`))!)
+
+    const sha256Hex = async (input: string) => {
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input))
+        return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+    }
+
+    beforeEach(() => {
         env = createTestEnv()
+    })
 
-        // Register and login
-        const regRes = await registerUser(env, {
-            email: 'vault@example.com',
-            masterPasswordHash: 'vaultHash',
-            key: 'vaultKey'
+    it('stores a versioned PBKDF2 hash with its own salt', async () => {
+        await registerUser(env, {
+            email: 'pbkdf2@example.com',
+            masterPasswordHash: 'clientHash',
+            key: 'key'
         })
-        const regData = await regRes.json() as any
-        userId = regData.id
 
-        const loginRes = await app.request('/identity/connect/token', {
+        const user = await storedUser('pbkdf2@example.com')
+        expect(user.masterPasswordHash).toMatch(/^pbkdf2-sha256\$100000\$[\w-]{43}$/)
+        expect(user.passwordSalt).toBeDefined()
+        expect(user.passwordSalt).not.toBe(user.securityStamp)
+        expect(user.masterPasswordHash).not.toContain('clientHash')
+
+        expect((await login(env, 'pbkdf2@example.com', 'clientHash')).status).toBe(200)
+        expect((await login(env, 'pbkdf2@example.com', 'otherHash')).status).toBe(400)
+    })
+
+    it('upgrades a legacy SHA-256 hash on login', async () => {
+        await registerUser(env, {
+            email: 'legacy@example.com',
+            masterPasswordHash: 'clientHash',
+            key: 'key'
+        })
+        const user = await storedUser('legacy@example.com')
+        user.masterPasswordHash = await sha256Hex(user.securityStamp + 'clientHash')
+        delete user.passwordSalt
+        await env.DB.put('user:legacy@example.com', JSON.stringify(user))
+
+        expect((await login(env, 'legacy@example.com', 'clientHash')).status).toBe(200)
+
+        const upgraded = await storedUser('legacy@example.com')
+        expect(upgraded.masterPasswordHash).toMatch(/^pbkdf2-sha256\$/)
+        expect(upgraded.passwordSalt).toBeDefined()
+        expect((await login(env, 'legacy@example.com', 'clientHash')).status).toBe(200)
+    })
+
+    it('rehashes when the configured iteration count changes', async () => {
+        await registerUser(env, {
+            email: 'iter@example.com',
+            masterPasswordHash: 'clientHash',
+            key: 'key'
+        })
+
+        const tunedEnv = { ...env, PASSWORD_ITERATIONS: '50000' }
+        const res = await app.request('/identity/connect/token', {
             method: 'POST',
             headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
             body: new URLSearchParams({
                 grant_type: 'password',
-                username: 'vault@example.com',
-                password: 'vaultHash'
+                username: 'iter@example.com',
+                password: 'clientHash'
             }).toString()
-        }, env)
-        const loginData = await loginRes.json() as any
-        accessToken = loginData.access_token
+        }, tunedEnv)
+        expect(res.status).toBe(200)
+
+        const user = await storedUser('iter@example.com')
+        expect(user.masterPasswordHash).toMatch(/^pbkdf2-sha256\$50000\$/)
     })
+})
 
-    describe('Cipher CRUD', () => {
-        it('creates a Login cipher (type=1)', async () => {
-            const res = await app.request('/api/ciphers', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    type: 1,
-                    name: 'My Login',
-                    login: {
-                        username: 'testuser',
-                        password: 'testpass',
-                        uris: [{ uri: 'https://example.com' }]
-                    }
-                })
-            }, env)
+describe('Brute-force Protection', () => {
+    let env: ReturnType<typeof createTestEnv>
 
-            expect(res.status).toBe(200)
-            const data = await res.json() as any
+    const postJson = (path: string, body: any, ip = '203.0.113.7') => {
+        return app.request(path, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'CF-Connecting-IP': ip },
+            body: JSON.stringify(body)
+        }, env)
+    }
 
-            // Verify response structure
-            expect(data.id).toBeDefined()
-            expect(data.type).toBe(1)
-            expect(data.name).toBe('My Login')
-            expect(data.object).toBe('cipher')
-            expect(data.revisionDate).toBeDefined()
-            expect(data.creationDate).toBeDefined()
-            expect(data.login.username).toBe('testuser')
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['Date'] })
+        env = createTestEnv()
+        await registerUser(env, {
+            email: 'target@example.com',
+            masterPasswordHash: 'rightHash',
+            key: 'targetKey'
         })
+    })
 
-        it('creates a SecureNote cipher (type=2)', async () => {
-            const res = await app.request('/api/ciphers', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    type: 2,
-                    name: 'My Note',
-                    notes: 'Secret note content',
-                    secureNote: { type: 0 }
-                })
-            }, env)
+    afterEach(() => {
+        vi.useRealTimers()
+    })
 
-            expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.type).toBe(2)
-        })
+    it('backs off after repeated failures, even for the right password', async () => {
+        for (let i = 0; i < 4; i++) {
+            const res = await login(env, 'target@example.com', 'wrongHash')
+            expect(res.status).toBe(400)
+        }
 
-        it('creates a Card cipher (type=3)', async () => {
-            const res = await app.request('/api/ciphers', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
+        const blocked = await login(env, 'target@example.com', 'rightHash')
+        expect(blocked.status).toBe(429)
+        expect(blocked.headers.get('Retry-After')).toBe('2')
+        const data = await blocked.json() as any
+        expect(data.error).toBe('invalid_grant')
+        expect(data.ErrorModel.Message).toContain('Slow down')
+
+        vi.setSystemTime(Date.now() + 3000)
+        const res = await login(env, 'target@example.com', 'rightHash')
+        expect(res.status).toBe(200)
+    })
+
+    it('resets the counter after a successful login', async () => {
+        for (let i = 0; i < 3; i++) {
+            await login(env, 'target@example.com', 'wrongHash')
+        }
+        expect((await login(env, 'target@example.com', 'rightHash')).status).toBe(200)
+
+        for (let i = 0; i < 3; i++) {
+            expect((await login(env, 'target@example.com', 'wrongHash')).status).toBe(400)
+        }
+    })
+
+    it('locks the account out after too many failures', async () => {
+        for (let i = 0; i < 10; i++) {
+            vi.setSystemTime(Date.now() + 10 * 60 * 1000)
+            await login(env, 'target@example.com', 'wrongHash')
+        }
+
+        const res = await login(env, 'target@example.com', 'rightHash')
+        expect(res.status).toBe(429)
+        expect((await res.json() as any).ErrorModel.Message).toContain('15 minutes')
+
+        vi.setSystemTime(Date.now() + 16 * 60 * 1000)
+        expect((await login(env, 'target@example.com', 'rightHash')).status).toBe(200)
+    })
+
+    it('throttles unknown accounts the same way', async () => {
+        for (let i = 0; i < 4; i++) {
+            await login(env, 'ghost@example.com', 'anything')
+        }
+        expect((await login(env, 'ghost@example.com', 'anything')).status).toBe(429)
+    })
+
+    it('limits failures per client IP across accounts', async () => {
+        const loginFromIp = (username: string) => app.request('/identity/connect/token', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                'CF-Connecting-IP': '198.51.100.1'
+            },
+            body: new URLSearchParams({ grant_type: 'password', username, password: 'x' }).toString()
+        }, env)
+
+        for (let i = 0; i < 11; i++) {
+            await loginFromIp(`spray${i}@example.com`)
+        }
+        expect((await loginFromIp('fresh@example.com')).status).toBe(429)
+    })
+
+    it('counts send-email-login password failures toward the login lockout', async () => {
+        for (let i = 0; i < 4; i++) {
+            const res = await postJson('/api/two-factor/send-email-login', {
+                email: 'target@example.com',
+                masterPasswordHash: 'wrongHash'
+            })
+            expect(res.status).toBe(400)
+        }
+        expect((await login(env, 'target@example.com', 'rightHash')).status).toBe(429)
+    })
+
+    it('ignores forwarded IP headers without a trusted proxy', async () => {
+        const loginVia = (headers: Record<string, string>, username: string) => app.request('/identity/connect/token', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+            body: new URLSearchParams({ grant_type: 'password', username, password: 'x' }).toString()
+        }, env)
+
+        for (let i = 0; i < 11; i++) {
+            await loginVia({ 'X-Forwarded-For': `10.0.0.${i}` }, `spray${i}@example.com`)
+        }
+        expect(await env.DB.get('ratelimit:login-ip:10.0.0.0')).toBeNull()
+
+        // Behind a trusted proxy, the entry it appended is the client
+        Object.assign(env, { TRUSTED_PROXY: 'true' })
+        for (let i = 0; i < 11; i++) {
+            await loginVia({ 'X-Forwarded-For': `10.0.0.${i}, 198.51.100.2` }, `other${i}@example.com`)
+        }
+        expect((await loginVia({ 'X-Forwarded-For': '10.0.0.99, 198.51.100.2' }, 'fresh@example.com')).status).toBe(429)
+    })
+
+    it('throttles password hint mail per recipient', async () => {
+        for (let i = 0; i < 4; i++) {
+            const res = await postJson('/api/accounts/password-hint', { email: 'target@example.com' }, `192.0.2.${i}`)
+            expect(res.status).toBe(200)
+        }
+        const res = await postJson('/api/accounts/password-hint', { email: 'target@example.com' }, '192.0.2.99')
+        expect(res.status).toBe(429)
+        expect(res.headers.get('Retry-After')).toBe('60')
+    })
+
+    it('throttles verification mail per client IP', async () => {
+        for (let i = 0; i < 4; i++) {
+            const res = await postJson('/identity/accounts/register/send-verification-email', {
+                email: `new${i}@example.com`
+            })
+            expect(res.status).toBe(200)
+        }
+        const res = await postJson('/identity/accounts/register/send-verification-email', {
+            email: 'another@example.com'
+        })
+        expect(res.status).toBe(429)
+    })
+
+    it('throttles prelogin per client IP', async () => {
+        for (let i = 0; i < 31; i++) {
+            await postJson('/api/accounts/prelogin', { email: `user${i}@example.com` })
+        }
+        const res = await postJson('/api/accounts/prelogin', { email: 'target@example.com' })
+        expect(res.status).toBe(429)
+    })
+})
+
+describe('API Key', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let accessToken: string
+    let userId: string
+
+    const authedRequest = (path: string, method: string, body?: any) => {
+        return app.request(path, {
+            method,
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json'
+            },
+            body: body ? JSON.stringify(body) : undefined
+        }, env)
+    }
+
+    const apiKeyLogin = (clientId: string, clientSecret: string) => {
+        return app.request('/identity/connect/token', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                grant_type: 'client_credentials',
+                scope: 'api',
+                client_id: clientId,
+                client_secret: clientSecret,
+                deviceIdentifier: 'ci-runner',
+                deviceName: 'CLI',
+                deviceType: '14'
+            }).toString()
+        }, env)
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        const regRes = await registerUser(env, {
+            email: 'cli@example.com',
+            masterPasswordHash: 'cliHash',
+            key: 'cliKey'
+        })
+        userId = (await regRes.json() as any).id
+        const loginRes = await login(env, 'cli@example.com', 'cliHash')
+        accessToken = (await loginRes.json() as any).access_token
+    })
+
+    it('requires the master password to view the key', async () => {
+        const res = await authedRequest('/api/accounts/api-key', 'POST', { masterPasswordHash: 'wrong' })
+        expect(res.status).toBe(400)
+    })
+
+    it('returns a stable key and logs in with client_credentials', async () => {
+        const res = await authedRequest('/api/accounts/api-key', 'POST', { masterPasswordHash: 'cliHash' })
+        expect(res.status).toBe(200)
+        const data = await res.json() as any
+        expect(data.object).toBe('apiKey')
+        expect(data.apiKey).toHaveLength(30)
+
+        const again = await authedRequest('/api/accounts/api-key', 'POST', { masterPasswordHash: 'cliHash' })
+        expect((await again.json() as any).apiKey).toBe(data.apiKey)
+
+        const loginRes = await apiKeyLogin(`user.${userId}`, data.apiKey)
+        expect(loginRes.status).toBe(200)
+        const tokens = await loginRes.json() as any
+        expect(tokens.access_token).toBeDefined()
+        expect(tokens.key).toBe('cliKey')
+        expect(tokens.scope).toBe('api')
+
+        const syncRes = await app.request('/api/sync', {
+            method: 'GET',
+            headers: { 'Authorization': `Bearer ${tokens.access_token}` }
+        }, env)
+        expect(syncRes.status).toBe(200)
+    })
+
+    it('rejects a wrong client secret or client id', async () => {
+        const res = await authedRequest('/api/accounts/api-key', 'POST', { masterPasswordHash: 'cliHash' })
+        const { apiKey } = await res.json() as any
+
+        expect((await apiKeyLogin(`user.${userId}`, 'x'.repeat(30))).status).toBe(400)
+        expect((await apiKeyLogin(`user.${crypto.randomUUID()}`, apiKey)).status).toBe(400)
+        expect((await apiKeyLogin(userId, apiKey)).status).toBe(400)
+    })
+
+    it('invalidates the old key on rotation', async () => {
+        const res = await authedRequest('/api/accounts/api-key', 'POST', { masterPasswordHash: 'cliHash' })
+        const oldKey = (await res.json() as any).apiKey
+
+        const rotateRes = await authedRequest('/api/accounts/rotate-api-key', 'POST', { masterPasswordHash: 'cliHash' })
+        expect(rotateRes.status).toBe(200)
+        const newKey = (await rotateRes.json() as any).apiKey
+        expect(newKey).not.toBe(oldKey)
+
+        expect((await apiKeyLogin(`user.${userId}`, oldKey)).status).toBe(400)
+        expect((await apiKeyLogin(`user.${userId}`, newKey)).status).toBe(200)
+    })
+})
+
+// =============================================================================
+// JWT Signing Keys
+// =============================================================================
+
+describe('JWT Signing Keys', () => {
+    let env: ReturnType<typeof createTestEnv>
+
+    const generateJwk = async (algorithm: 'RS256' | 'EdDSA', kid: string) => {
+        const params = algorithm === 'RS256'
+            ? { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' }
+            : { name: 'Ed25519' }
+        const pair = await crypto.subtle.generateKey(params, true, ['sign', 'verify']) as CryptoKeyPair
+        return { ...await crypto.subtle.exportKey('jwk', pair.privateKey) as JsonWebKey, kid }
+    }
+
+    const loginTokens = async (testEnv: typeof env) => {
+        const res = await login(testEnv, 'keys@example.com', 'hash123')
+        expect(res.status).toBe(200)
+        return await res.json() as any
+    }
+
+    const sync = (testEnv: typeof env, token: string) => app.request('/api/sync', {
+        headers: { 'Authorization': `Bearer ${token}` }
+    }, testEnv)
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        await registerUser(env, { email: 'keys@example.com', masterPasswordHash: 'hash123', key: 'key123' })
+    })
+
+    it('publishes the signing key and names it in the token header', async () => {
+        const { access_token } = await loginTokens(env)
+
+        const jwksRes = await app.request('/.well-known/jwks', { method: 'GET' }, env)
+        expect(jwksRes.status).toBe(200)
+        const jwks = await jwksRes.json() as any
+        expect(jwks.keys).toHaveLength(1)
+        expect(jwks.keys[0].alg).toBe('EdDSA')
+        expect(jwks.keys[0].d).toBeUndefined()
+
+        const { header, payload } = decode(access_token)
+        expect(header.alg).toBe('EdDSA')
+        expect(header.kid).toBe(jwks.keys[0].kid)
+        expect(payload.aud).toBe('nanovault:api')
+
+        const configRes = await app.request('/.well-known/openid-configuration', { method: 'GET' }, env)
+        const config = await configRes.json() as any
+        expect(config.jwks_uri).toBe('http://localhost/.well-known/jwks')
+        expect(config.id_token_signing_alg_values_supported).toEqual(['EdDSA'])
+    })
+
+    it('rejects tokens issued for another purpose', async () => {
+        const { access_token, refresh_token } = await loginTokens(env)
+
+        expect((await sync(env, refresh_token)).status).toBe(401)
+
+        const registrationToken = await signToken(env, 'registration', {
+            email: 'keys@example.com',
+            type: 'registration',
+            exp: Math.floor(Date.now() / 1000) + 3600
+        })
+        expect((await sync(env, registrationToken)).status).toBe(401)
+
+        const refreshRes = await app.request('/identity/connect/token', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: access_token }).toString()
+        }, env)
+        expect(refreshRes.status).toBe(400)
+    })
+
+    it('keeps verifying retired keys listed after the signing key', async () => {
+        const oldKey = await generateJwk('EdDSA', 'old-key')
+        const newKey = await generateJwk('RS256', 'new-key')
+
+        const before = { ...env, JWT_SIGNING_KEYS: JSON.stringify([oldKey]) }
+        const { access_token: oldToken } = await loginTokens(before)
+        expect(decode(oldToken).header.kid).toBe('old-key')
+
+        // Rotation window: new key signs, old key still verifies
+        const rotating = { ...env, JWT_SIGNING_KEYS: JSON.stringify([newKey, oldKey]) }
+        expect((await sync(rotating, oldToken)).status).toBe(200)
+        const { access_token: newToken } = await loginTokens(rotating)
+        expect(decode(newToken).header).toMatchObject({ alg: 'RS256', kid: 'new-key' })
+
+        const jwks = await (await app.request('/.well-known/jwks', { method: 'GET' }, rotating)).json() as any
+        expect(jwks.keys.map((k: any) => k.kid)).toEqual(['new-key', 'old-key', expect.any(String)])
+
+        // Old key retired
+        const after = { ...env, JWT_SIGNING_KEYS: JSON.stringify([newKey]) }
+        expect((await sync(after, oldToken)).status).toBe(401)
+        expect((await sync(after, newToken)).status).toBe(200)
+    })
+
+    it('keeps tokens signed from JWT_SECRET valid after moving to signing keys', async () => {
+        const { access_token } = await loginTokens(env)
+
+        const migrated = { ...env, JWT_SIGNING_KEYS: JSON.stringify([await generateJwk('EdDSA', 'primary')]) }
+        expect((await sync(migrated, access_token)).status).toBe(200)
+    })
+
+    it('keeps decoy prelogin settings across signing key rotations', async () => {
+        const prelogin = async (testEnv: typeof env) => (await app.request('/api/accounts/prelogin', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: 'nobody@example.com' })
+        }, testEnv)).json()
+
+        const before = await prelogin({ ...env, JWT_SIGNING_KEYS: JSON.stringify([await generateJwk('EdDSA', 'old-key')]) })
+        const after = await prelogin({ ...env, JWT_SIGNING_KEYS: JSON.stringify([await generateJwk('EdDSA', 'new-key')]) })
+        expect(after).toEqual(before)
+    })
+
+    it('refuses requests without a real JWT_SECRET', async () => {
+        const signingKeys = JSON.stringify([await generateJwk('EdDSA', 'primary')])
+        for (const JWT_SECRET of ['nanovault-secret-key-change-me', undefined]) {
+            const res = await app.request('/health', { method: 'GET' }, { ...env, JWT_SECRET })
+            expect(res.status).toBe(500)
+            const data = await res.json() as any
+            expect(data.error).toBe('server_misconfigured')
+        }
+        for (const JWT_SECRET of ['nanovault-secret-key-change-me', undefined]) {
+            const res = await app.request('/health', { method: 'GET' }, { ...env, JWT_SECRET, JWT_SIGNING_KEYS: signingKeys })
+            expect(res.status).toBe(500)
+            const data = await res.json() as any
+            expect(data.error).toBe('server_misconfigured')
+        }
+    })
+})
+
+// =============================================================================
+// Two-Factor Integration Tests
+// =============================================================================
+
+describe('Integration: Two-Factor Authenticator', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let accessToken: string
+
+    const authedRequest = (path: string, method: string, body?: any) => {
+        return app.request(path, {
+            method,
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json'
+            },
+            body: body ? JSON.stringify(body) : undefined
+        }, env)
+    }
+
+    // Enables the authenticator and returns its secret
+    const enableAuthenticator = async () => {
+        const getRes = await authedRequest('/api/two-factor/get-authenticator', 'POST', {
+            masterPasswordHash: 'tfaHash'
+        })
+        const { key } = await getRes.json() as any
+        const enableRes = await authedRequest('/api/two-factor/authenticator', 'PUT', {
+            masterPasswordHash: 'tfaHash',
+            key,
+            token: await generateTotp(key)
+        })
+        expect(enableRes.status).toBe(200)
+        return key as string
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        await registerUser(env, {
+            email: 'tfa@example.com',
+            masterPasswordHash: 'tfaHash',
+            key: 'tfaKey'
+        })
+        const loginRes = await login(env, 'tfa@example.com', 'tfaHash')
+        accessToken = (await loginRes.json() as any).access_token
+    })
+
+    it('returns a new unenabled secret from get-authenticator', async () => {
+        const res = await authedRequest('/api/two-factor/get-authenticator', 'POST', {
+            masterPasswordHash: 'tfaHash'
+        })
+
+        expect(res.status).toBe(200)
+        const data = await res.json() as any
+        expect(data.enabled).toBe(false)
+        expect(data.key).toMatch(/^[A-Z2-7]{32}$/)
+        expect(data.object).toBe('twoFactorAuthenticator')
+    })
+
+    it('rejects get-authenticator with wrong master password', async () => {
+        const res = await authedRequest('/api/two-factor/get-authenticator', 'POST', {
+            masterPasswordHash: 'wrong'
+        })
+        expect(res.status).toBe(400)
+    })
+
+    it('locks out master password guesses on two-factor settings', async () => {
+        for (let i = 0; i < 4; i++) {
+            await authedRequest('/api/two-factor/get-authenticator', 'POST', { masterPasswordHash: 'wrong' })
+        }
+        const res = await authedRequest('/api/two-factor/get-authenticator', 'POST', { masterPasswordHash: 'tfaHash' })
+        expect(res.status).toBe(429)
+    })
+
+    it('rejects enabling with an invalid code', async () => {
+        const res = await authedRequest('/api/two-factor/authenticator', 'PUT', {
+            masterPasswordHash: 'tfaHash',
+            key: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+            token: '000000'
+        })
+        expect(res.status).toBe(400)
+    })
+
+    it('lists the authenticator once enabled', async () => {
+        await enableAuthenticator()
+
+        const res = await authedRequest('/api/two-factor', 'GET')
+        expect(res.status).toBe(200)
+        const data = await res.json() as any
+        expect(data.object).toBe('list')
+        expect(data.data).toEqual([{ enabled: true, type: 0, object: 'twoFactorProvider' }])
+
+        const profileRes = await authedRequest('/api/accounts/profile', 'GET')
+        const profile = await profileRes.json() as any
+        expect(profile.twoFactorEnabled).toBe(true)
+    })
+
+    it('returns a TwoFactorProviders2 challenge when no token is sent', async () => {
+        await enableAuthenticator()
+
+        const res = await login(env, 'tfa@example.com', 'tfaHash')
+        expect(res.status).toBe(400)
+        const data = await res.json() as any
+        expect(data.error).toBe('invalid_grant')
+        expect(data.TwoFactorProviders).toEqual(['0'])
+        expect(data.TwoFactorProviders2).toEqual({ '0': null })
+        expect(data.access_token).toBeUndefined()
+    })
+
+    it('issues tokens with a valid authenticator code', async () => {
+        const key = await enableAuthenticator()
+
+        // The enable step consumed the current code, so use the next time step
+        const res = await login(env, 'tfa@example.com', 'tfaHash', {
+            twoFactorProvider: '0',
+            twoFactorToken: await generateTotp(key, Date.now() + 30000)
+        })
+        expect(res.status).toBe(200)
+        const data = await res.json() as any
+        expect(data.access_token).toBeDefined()
+    })
+
+    it('rejects an invalid or replayed authenticator code', async () => {
+        const key = await enableAuthenticator()
+
+        const invalidRes = await login(env, 'tfa@example.com', 'tfaHash', {
+            twoFactorProvider: '0',
+            twoFactorToken: '000000'
+        })
+        expect(invalidRes.status).toBe(400)
+
+        const replayRes = await login(env, 'tfa@example.com', 'tfaHash', {
+            twoFactorProvider: '0',
+            twoFactorToken: await generateTotp(key)
+        })
+        expect(replayRes.status).toBe(400)
+        const data = await replayRes.json() as any
+        expect(data.message).toContain('Two-step token is invalid')
+    })
+
+    it('disables the authenticator', async () => {
+        await enableAuthenticator()
+
+        const res = await authedRequest('/api/two-factor/authenticator', 'DELETE', {
+            masterPasswordHash: 'tfaHash',
+            type: 0
+        })
+        expect(res.status).toBe(200)
+        expect((await res.json() as any).enabled).toBe(false)
+
+        const loginRes = await login(env, 'tfa@example.com', 'tfaHash')
+        expect(loginRes.status).toBe(200)
+    })
+
+    it('disables via the generic disable endpoint', async () => {
+        await enableAuthenticator()
+
+        const res = await authedRequest('/api/two-factor/disable', 'PUT', {
+            masterPasswordHash: 'tfaHash',
+            type: 0
+        })
+        expect(res.status).toBe(200)
+
+        const listRes = await authedRequest('/api/two-factor', 'GET')
+        expect((await listRes.json() as any).data).toEqual([])
+    })
+})
+
+describe('Integration: Two-Factor Remember Device', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let totpKey: string
+
+    const device = { deviceIdentifier: 'desktop-1', deviceName: 'Desktop', deviceType: '8' }
+
+    // Enabling consumed the current code, so log in with the next time step's code
+    const loginWithTotp = async (extra: Record<string, string>) => {
+        return login(env, 'remember@example.com', 'remHash', {
+            twoFactorProvider: '0',
+            twoFactorToken: await generateTotp(totpKey, Date.now() + 30000),
+            ...extra
+        })
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        await registerUser(env, {
+            email: 'remember@example.com',
+            masterPasswordHash: 'remHash',
+            key: 'remKey'
+        })
+        const accessToken = (await (await login(env, 'remember@example.com', 'remHash')).json() as any).access_token
+        const headers = { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' }
+
+        const getRes = await app.request('/api/two-factor/get-authenticator', {
+            method: 'POST', headers, body: JSON.stringify({ masterPasswordHash: 'remHash' })
+        }, env)
+        totpKey = (await getRes.json() as any).key
+        await app.request('/api/two-factor/authenticator', {
+            method: 'PUT',
+            headers,
+            body: JSON.stringify({ masterPasswordHash: 'remHash', key: totpKey, token: await generateTotp(totpKey) })
+        }, env)
+    })
+
+    it('returns a TwoFactorToken when asked to remember', async () => {
+        const res = await loginWithTotp({ ...device, twoFactorRemember: '1' })
+        expect(res.status).toBe(200)
+        expect((await res.json() as any).TwoFactorToken).toBeDefined()
+    })
+
+    it('omits the TwoFactorToken otherwise', async () => {
+        const res = await loginWithTotp(device)
+        expect(res.status).toBe(200)
+        expect((await res.json() as any).TwoFactorToken).toBeUndefined()
+    })
+
+    it('skips the second factor on the remembered device', async () => {
+        const first = await (await loginWithTotp({ ...device, twoFactorRemember: '1' })).json() as any
+
+        const res = await login(env, 'remember@example.com', 'remHash', {
+            ...device,
+            twoFactorProvider: '5',
+            twoFactorToken: first.TwoFactorToken
+        })
+        expect(res.status).toBe(200)
+        expect((await res.json() as any).access_token).toBeDefined()
+    })
+
+    it('challenges again when the token is used from another device', async () => {
+        const first = await (await loginWithTotp({ ...device, twoFactorRemember: '1' })).json() as any
+
+        const res = await login(env, 'remember@example.com', 'remHash', {
+            deviceIdentifier: 'laptop-2',
+            twoFactorProvider: '5',
+            twoFactorToken: first.TwoFactorToken
+        })
+        expect(res.status).toBe(400)
+        expect((await res.json() as any).TwoFactorProviders).toEqual(['0'])
+    })
+
+    it('forgets the device once it is deleted', async () => {
+        const first = await (await loginWithTotp({ ...device, twoFactorRemember: '1' })).json() as any
+        const headers = { 'Authorization': `Bearer ${first.access_token}` }
+
+        const listRes = await app.request('/api/devices', { method: 'GET', headers }, env)
+        const [stored] = (await listRes.json() as any).data
+        const deleteRes = await app.request(`/api/devices/${stored.id}`, { method: 'DELETE', headers }, env)
+        expect(deleteRes.status).toBe(200)
+
+        const res = await login(env, 'remember@example.com', 'remHash', {
+            ...device,
+            twoFactorProvider: '5',
+            twoFactorToken: first.TwoFactorToken
+        })
+        expect(res.status).toBe(400)
+        expect((await res.json() as any).TwoFactorProviders).toEqual(['0'])
+    })
+})
+
+describe('Integration: Two-Factor Recovery', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let accessToken: string
+
+    const authedRequest = (path: string, method: string, body?: any) => {
+        return app.request(path, {
+            method,
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json'
+            },
+            body: body ? JSON.stringify(body) : undefined
+        }, env)
+    }
+
+    const recover = (path: string, recoveryCode: string, masterPasswordHash = 'recHash') => {
+        return app.request(path, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: 'recover@example.com', masterPasswordHash, recoveryCode })
+        }, env)
+    }
+
+    const getRecoveryCode = async () => {
+        const res = await authedRequest('/api/two-factor/get-recover', 'POST', { masterPasswordHash: 'recHash' })
+        expect(res.status).toBe(200)
+        const data = await res.json() as any
+        expect(data.object).toBe('twoFactorRecover')
+        return data.code as string
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        await registerUser(env, {
+            email: 'recover@example.com',
+            masterPasswordHash: 'recHash',
+            key: 'recKey'
+        })
+        accessToken = (await (await login(env, 'recover@example.com', 'recHash')).json() as any).access_token
+
+        // Enable the authenticator so login requires a second factor
+        const getRes = await authedRequest('/api/two-factor/get-authenticator', 'POST', { masterPasswordHash: 'recHash' })
+        const { key } = await getRes.json() as any
+        await authedRequest('/api/two-factor/authenticator', 'PUT', {
+            masterPasswordHash: 'recHash',
+            key,
+            token: await generateTotp(key)
+        })
+    })
+
+    it('shows a stable recovery code once a provider is enabled', async () => {
+        const code = await getRecoveryCode()
+        expect(code).toMatch(/^[a-z0-9]{32}$/)
+        expect(await getRecoveryCode()).toBe(code)
+    })
+
+    it('disables all providers and revokes sessions with a valid recovery code', async () => {
+        const code = await getRecoveryCode()
+
+        const res = await recover('/identity/accounts/recover-2fa', code.toUpperCase())
+        expect(res.status).toBe(200)
+
+        // Security stamp rotated: existing access token no longer works
+        const syncRes = await app.request('/api/sync', {
+            method: 'GET',
+            headers: { 'Authorization': `Bearer ${accessToken}` }
+        }, env)
+        expect(syncRes.status).toBe(401)
+
+        // Login no longer asks for a second factor
+        const loginRes = await login(env, 'recover@example.com', 'recHash')
+        expect(loginRes.status).toBe(200)
+    })
+
+    it('accepts a recovery code only once', async () => {
+        const code = await getRecoveryCode()
+
+        expect((await recover('/api/two-factor/recover', code)).status).toBe(200)
+        expect((await recover('/api/two-factor/recover', code)).status).toBe(400)
+    })
+
+    it('rejects a wrong recovery code or master password', async () => {
+        const code = await getRecoveryCode()
+
+        expect((await recover('/identity/accounts/recover-2fa', 'a'.repeat(32))).status).toBe(400)
+        expect((await recover('/identity/accounts/recover-2fa', code, 'wrongHash')).status).toBe(400)
+
+        const loginRes = await login(env, 'recover@example.com', 'recHash')
+        expect((await loginRes.json() as any).TwoFactorProviders).toEqual(['0'])
+    })
+    it('locks out recovery attempts after repeated failures', async () => {
+        const code = await getRecoveryCode()
+
+        for (let i = 0; i < 4; i++) {
+            expect((await recover('/api/two-factor/recover', 'a'.repeat(32))).status).toBe(400)
+        }
+        // Even the right code waits out the backoff
+        expect((await recover('/api/two-factor/recover', code)).status).toBe(429)
+    })
+})
+
+describe('Integration: Two-Factor Email', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let accessToken: string
+    let userId: string
+
+    const authedRequest = (path: string, method: string, body?: any) => {
+        return app.request(path, {
+            method,
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json'
+            },
+            body: body ? JSON.stringify(body) : undefined
+        }, env)
+    }
+
+    // Reads the last emailed code straight from KV
+    const lastEmailCode = async () => {
+        const json = await env.DB.get(`email_code:${userId}`)
+        return JSON.parse(json!).code as string
+    }
+
+    const enableEmail = async () => {
+        await authedRequest('/api/two-factor/send-email', 'POST', {
+            masterPasswordHash: 'mailHash',
+            email: 'second@example.com'
+        })
+        const res = await authedRequest('/api/two-factor/email', 'PUT', {
+            masterPasswordHash: 'mailHash',
+            email: 'second@example.com',
+            token: await lastEmailCode()
+        })
+        expect(res.status).toBe(200)
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        const regRes = await registerUser(env, {
+            email: 'mail2fa@example.com',
+            masterPasswordHash: 'mailHash',
+            key: 'mailKey'
+        })
+        userId = (await regRes.json() as any).id
+        const loginRes = await login(env, 'mail2fa@example.com', 'mailHash')
+        accessToken = (await loginRes.json() as any).access_token
+    })
+
+    it('returns the account email before the provider is enabled', async () => {
+        const res = await authedRequest('/api/two-factor/get-email', 'POST', {
+            masterPasswordHash: 'mailHash'
+        })
+        expect(res.status).toBe(200)
+        const data = await res.json() as any
+        expect(data).toEqual({ enabled: false, email: 'mail2fa@example.com', object: 'twoFactorEmail' })
+    })
+
+    it('rejects enabling with a wrong code', async () => {
+        await authedRequest('/api/two-factor/send-email', 'POST', {
+            masterPasswordHash: 'mailHash',
+            email: 'second@example.com'
+        })
+        const res = await authedRequest('/api/two-factor/email', 'PUT', {
+            masterPasswordHash: 'mailHash',
+            email: 'second@example.com',
+            token: 'not-the-code'
+        })
+        expect(res.status).toBe(400)
+    })
+
+    it('challenges login with an obscured address and accepts the emailed code', async () => {
+        await enableEmail()
+
+        // Email is the only provider, so the challenge sends a code immediately
+        const challengeRes = await login(env, 'mail2fa@example.com', 'mailHash')
+        expect(challengeRes.status).toBe(400)
+        const challenge = await challengeRes.json() as any
+        expect(challenge.TwoFactorProviders).toEqual(['1'])
+        expect(challenge.TwoFactorProviders2['1']).toEqual({ Email: 'se****@example.com' })
+
+        const res = await login(env, 'mail2fa@example.com', 'mailHash', {
+            twoFactorProvider: '1',
+            twoFactorToken: await lastEmailCode()
+        })
+        expect(res.status).toBe(200)
+    })
+
+    it('keeps the pending code on repeated login challenges', async () => {
+        await enableEmail()
+
+        await login(env, 'mail2fa@example.com', 'mailHash')
+        const code = await lastEmailCode()
+        await login(env, 'mail2fa@example.com', 'mailHash', { twoFactorProvider: '1', twoFactorToken: 'wrong' })
+        await login(env, 'mail2fa@example.com', 'mailHash')
+
+        const pending = JSON.parse((await env.DB.get(`email_code:${userId}`))!)
+        expect(pending.code).toBe(code)
+        expect(pending.attempts).toBe(1)
+    })
+
+    it('sends a fresh login code through send-email-login', async () => {
+        await enableEmail()
+
+        const sendRes = await app.request('/api/two-factor/send-email-login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: 'mail2fa@example.com', masterPasswordHash: 'mailHash' })
+        }, env)
+        expect(sendRes.status).toBe(200)
+
+        const code = await lastEmailCode()
+        const res = await login(env, 'mail2fa@example.com', 'mailHash', {
+            twoFactorProvider: '1',
+            twoFactorToken: code
+        })
+        expect(res.status).toBe(200)
+
+        // Codes are single-use
+        const replayRes = await login(env, 'mail2fa@example.com', 'mailHash', {
+            twoFactorProvider: '1',
+            twoFactorToken: code
+        })
+        expect(replayRes.status).toBe(400)
+    })
+
+    it('throttles setup mail per recipient', async () => {
+        const send = () => authedRequest('/api/two-factor/send-email', 'POST', {
+            masterPasswordHash: 'mailHash',
+            email: 'someone.else@example.com'
+        })
+        for (let i = 0; i < 4; i++) {
+            expect((await send()).status).toBe(200)
+        }
+        expect((await send()).status).toBe(429)
+    })
+
+    it('throttles send-email-login mail', async () => {
+        await enableEmail()
+
+        const send = () => app.request('/api/two-factor/send-email-login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: 'mail2fa@example.com', masterPasswordHash: 'mailHash' })
+        }, env)
+        for (let i = 0; i < 4; i++) {
+            expect((await send()).status).toBe(200)
+        }
+        expect((await send()).status).toBe(429)
+    })
+
+    it('rejects send-email-login with a wrong master password', async () => {
+        await enableEmail()
+
+        const res = await app.request('/api/two-factor/send-email-login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: 'mail2fa@example.com', masterPasswordHash: 'wrong' })
+        }, env)
+        expect(res.status).toBe(400)
+    })
+
+    it('disables the email provider', async () => {
+        await enableEmail()
+
+        const res = await authedRequest('/api/two-factor/email', 'DELETE', {
+            masterPasswordHash: 'mailHash',
+            type: 1
+        })
+        expect(res.status).toBe(200)
+
+        const loginRes = await login(env, 'mail2fa@example.com', 'mailHash')
+        expect(loginRes.status).toBe(200)
+    })
+})
+
+// Minimal CBOR encoder for building authenticator responses
+const cborEncode = (value: any): number[] => {
+    const head = (major: number, n: number): number[] =>
+        n < 24 ? [(major << 5) | n]
+            : n < 256 ? [(major << 5) | 24, n]
+                : [(major << 5) | 25, n >> 8, n & 255]
+
+    if (typeof value === 'number') return value >= 0 ? head(0, value) : head(1, -1 - value)
+    if (typeof value === 'string') {
+        const bytes = new TextEncoder().encode(value)
+        return [...head(3, bytes.length), ...bytes]
+    }
+    if (value instanceof Uint8Array) return [...head(2, value.length), ...value]
+    if (value instanceof Map) {
+        const out = head(5, value.size)
+        for (const [k, v] of value) out.push(...cborEncode(k), ...cborEncode(v))
+        return out
+    }
+    throw new Error('unsupported CBOR test value')
+}
+
+// Simulated ES256 security key for origin http://localhost
+const createSecurityKey = async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair
+    const jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey) as JsonWebKey
+    const credentialId = crypto.getRandomValues(new Uint8Array(16))
+    const rpIdHash = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode('localhost')))
+    let signCount = 0
+
+    const clientData = (type: string, challenge: string) => new TextEncoder().encode(JSON.stringify({
+        type, challenge, origin: 'http://localhost'
+    }))
+
+    const authData = (flags: number, extra: number[] = []) => {
+        signCount++
+        return new Uint8Array([
+            ...rpIdHash, flags,
+            (signCount >>> 24) & 255, (signCount >>> 16) & 255, (signCount >>> 8) & 255, signCount & 255,
+            ...extra
+        ])
+    }
+
+    // WebCrypto signs ECDSA as raw r||s; authenticators send DER
+    const toDer = (raw: Uint8Array) => {
+        const int = (b: Uint8Array) => {
+            let i = 0
+            while (i < b.length - 1 && b[i] === 0) i++
+            const v = b[i] & 0x80 ? [0, ...b.slice(i)] : [...b.slice(i)]
+            return [0x02, v.length, ...v]
+        }
+        const r = int(raw.slice(0, 32))
+        const s = int(raw.slice(32))
+        return new Uint8Array([0x30, r.length + s.length, ...r, ...s])
+    }
+
+    return {
+        credentialId: toBase64Url(credentialId),
+
+        register: (challenge: string) => {
+            const coseKey = new Map<number, any>([
+                [1, 2], [3, -7], [-1, 1],
+                [-2, fromBase64Url(jwk.x!)],
+                [-3, fromBase64Url(jwk.y!)]
+            ])
+            const attested = [...new Uint8Array(16), 0, credentialId.length, ...credentialId, ...cborEncode(coseKey)]
+            const attestationObject = new Uint8Array(cborEncode(new Map<string, any>([
+                ['fmt', 'none'],
+                ['attStmt', new Map()],
+                ['authData', authData(0x41, attested)]
+            ])))
+            return {
+                id: toBase64Url(credentialId),
+                rawId: toBase64Url(credentialId),
+                type: 'public-key',
+                extensions: {},
+                response: {
+                    attestationObject: toBase64Url(attestationObject),
+                    clientDataJson: toBase64Url(clientData('webauthn.create', challenge))
+                }
+            }
+        },
+
+        assert: async (challenge: string) => {
+            const data = authData(0x01)
+            const client = clientData('webauthn.get', challenge)
+            const clientHash = new Uint8Array(await crypto.subtle.digest('SHA-256', client))
+            const raw = new Uint8Array(await crypto.subtle.sign(
+                { name: 'ECDSA', hash: 'SHA-256' },
+                keyPair.privateKey,
+                new Uint8Array([...data, ...clientHash])
+            ))
+            return JSON.stringify({
+                id: toBase64Url(credentialId),
+                rawId: toBase64Url(credentialId),
+                type: 'public-key',
+                extensions: {},
+                response: {
+                    authenticatorData: toBase64Url(data),
+                    clientDataJson: toBase64Url(client),
+                    signature: toBase64Url(toDer(raw)),
+                    userHandle: null
+                }
+            })
+        }
+    }
+}
+
+describe('Integration: Two-Factor WebAuthn', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let accessToken: string
+    let securityKey: Awaited<ReturnType<typeof createSecurityKey>>
+
+    const authedRequest = (path: string, method: string, body?: any) => {
+        return app.request(path, {
+            method,
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json'
+            },
+            body: body ? JSON.stringify(body) : undefined
+        }, env)
+    }
+
+    const registerKey = async () => {
+        const challengeRes = await authedRequest('/api/two-factor/get-webauthn-challenge', 'POST', {
+            masterPasswordHash: 'keyHash'
+        })
+        const options = await challengeRes.json() as any
+        return authedRequest('/api/two-factor/webauthn', 'PUT', {
+            masterPasswordHash: 'keyHash',
+            id: 1,
+            name: 'YubiKey',
+            deviceResponse: securityKey.register(options.challenge)
+        })
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        securityKey = await createSecurityKey()
+        await registerUser(env, {
+            email: 'webauthn@example.com',
+            masterPasswordHash: 'keyHash',
+            key: 'keyKey'
+        })
+        const loginRes = await login(env, 'webauthn@example.com', 'keyHash')
+        accessToken = (await loginRes.json() as any).access_token
+    })
+
+    it('returns creation options for the registration challenge', async () => {
+        const res = await authedRequest('/api/two-factor/get-webauthn-challenge', 'POST', {
+            masterPasswordHash: 'keyHash'
+        })
+        expect(res.status).toBe(200)
+        const data = await res.json() as any
+        expect(data.rp.id).toBe('localhost')
+        expect(data.challenge).toBeDefined()
+        expect(data.pubKeyCredParams.map((p: any) => p.alg)).toContain(-7)
+        expect(data.attestation).toBe('none')
+    })
+
+    it('registers a security key', async () => {
+        const res = await registerKey()
+        expect(res.status).toBe(200)
+        const data = await res.json() as any
+        expect(data.enabled).toBe(true)
+        expect(data.keys).toEqual([{ name: 'YubiKey', id: 1, migrated: false }])
+        expect(data.object).toBe('twoFactorWebAuthn')
+
+        const getRes = await authedRequest('/api/two-factor/get-webauthn', 'POST', {
+            masterPasswordHash: 'keyHash'
+        })
+        expect((await getRes.json() as any).keys).toHaveLength(1)
+    })
+
+    it('rejects registration without a pending challenge', async () => {
+        const res = await authedRequest('/api/two-factor/webauthn', 'PUT', {
+            masterPasswordHash: 'keyHash',
+            id: 1,
+            name: 'YubiKey',
+            deviceResponse: securityKey.register('made-up-challenge')
+        })
+        expect(res.status).toBe(400)
+    })
+
+    it('challenges login with assertion options and accepts a signed assertion', async () => {
+        await registerKey()
+
+        const challengeRes = await login(env, 'webauthn@example.com', 'keyHash')
+        expect(challengeRes.status).toBe(400)
+        const challenge = await challengeRes.json() as any
+        const options = challenge.TwoFactorProviders2['7']
+        expect(options.rpId).toBe('localhost')
+        expect(options.allowCredentials).toEqual([{ type: 'public-key', id: securityKey.credentialId }])
+
+        const res = await login(env, 'webauthn@example.com', 'keyHash', {
+            twoFactorProvider: '7',
+            twoFactorToken: await securityKey.assert(options.challenge)
+        })
+        expect(res.status).toBe(200)
+        expect((await res.json() as any).access_token).toBeDefined()
+    })
+
+    it('rejects an assertion for the wrong challenge', async () => {
+        await registerKey()
+        await login(env, 'webauthn@example.com', 'keyHash')
+
+        const res = await login(env, 'webauthn@example.com', 'keyHash', {
+            twoFactorProvider: '7',
+            twoFactorToken: await securityKey.assert('some-other-challenge')
+        })
+        expect(res.status).toBe(400)
+    })
+
+    it('rejects an assertion signed by a different key', async () => {
+        await registerKey()
+        const challengeRes = await login(env, 'webauthn@example.com', 'keyHash')
+        const options = (await challengeRes.json() as any).TwoFactorProviders2['7']
+
+        // Advance the other key's counter so only the signature check can fail
+        const otherKey = await createSecurityKey()
+        otherKey.register('unused')
+        const forged = JSON.parse(await otherKey.assert(options.challenge))
+        forged.id = forged.rawId = securityKey.credentialId
+
+        const res = await login(env, 'webauthn@example.com', 'keyHash', {
+            twoFactorProvider: '7',
+            twoFactorToken: JSON.stringify(forged)
+        })
+        expect(res.status).toBe(400)
+    })
+
+    it('deletes a security key', async () => {
+        await registerKey()
+
+        const res = await authedRequest('/api/two-factor/webauthn', 'DELETE', {
+            masterPasswordHash: 'keyHash',
+            id: 1
+        })
+        expect(res.status).toBe(200)
+        expect((await res.json() as any).enabled).toBe(false)
+
+        const loginRes = await login(env, 'webauthn@example.com', 'keyHash')
+        expect(loginRes.status).toBe(200)
+    })
+})
+
+describe('Integration: New Device Verification', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let userId: string
+
+    const loginFrom = (deviceIdentifier: string, extra: Record<string, string> = {}) => {
+        return login(env, 'devices@example.com', 'deviceHash', {
+            deviceIdentifier,
+            deviceName: 'test',
+            deviceType: '9',
+            ...extra
+        })
+    }
+
+    const knownDevice = (email: string, deviceIdentifier: string) => {
+        return app.request('/api/devices/knowndevice', {
+            method: 'GET',
+            headers: {
+                'X-Request-Email': toBase64Url(new TextEncoder().encode(email)),
+                'X-Device-Identifier': deviceIdentifier
+            }
+        }, env)
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        const regRes = await registerUser(env, {
+            email: 'devices@example.com',
+            masterPasswordHash: 'deviceHash',
+            key: 'deviceKey'
+        })
+        userId = (await regRes.json() as any).id
+
+        // Age the account past the new-account grace period
+        const user = JSON.parse((await env.DB.get('user:devices@example.com'))!)
+        user.createdAt = new Date(Date.now() - 2 * 24 * 3600 * 1000).toISOString()
+        await env.DB.put('user:devices@example.com', JSON.stringify(user))
+
+        const firstLogin = await loginFrom('device-a')
+        expect(firstLogin.status).toBe(200)
+    })
+
+    it('lets known devices log in without a code', async () => {
+        const res = await loginFrom('device-a')
+        expect(res.status).toBe(200)
+    })
+
+    it('treats a login without a device identifier as a new device', async () => {
+        const res = await login(env, 'devices@example.com', 'deviceHash')
+        expect(res.status).toBe(400)
+        expect((await res.json() as any).error_description).toBe('new device verification required')
+    })
+
+    it('throttles new device code emails', async () => {
+        for (let i = 0; i < 4; i++) {
+            expect((await loginFrom('device-b')).status).toBe(400)
+        }
+        const res = await loginFrom('device-b')
+        expect(res.status).toBe(429)
+        expect(res.headers.get('Retry-After')).not.toBeNull()
+    })
+
+    it('requires an emailed code for a new device', async () => {
+        const res = await loginFrom('device-b')
+        expect(res.status).toBe(400)
+        const data = await res.json() as any
+        expect(data.error).toBe('invalid_grant')
+        expect(data.error_description).toBe('new device verification required')
+        expect(await env.DB.get(`device_otp:${userId}`)).not.toBeNull()
+    })
+
+    it('accepts the new device code and remembers the device', async () => {
+        await loginFrom('device-b')
+        const code = JSON.parse((await env.DB.get(`device_otp:${userId}`))!).code
+
+        const res = await loginFrom('device-b', { newDeviceOtp: code })
+        expect(res.status).toBe(200)
+
+        const again = await loginFrom('device-b')
+        expect(again.status).toBe(200)
+    })
+
+    it('rejects a wrong new device code', async () => {
+        await loginFrom('device-b')
+        const res = await loginFrom('device-b', { newDeviceOtp: '000000x' })
+        expect(res.status).toBe(400)
+        const data = await res.json() as any
+        expect(data.message).toContain('verification code')
+    })
+
+    it('reports whether a device is known', async () => {
+        expect(await (await knownDevice('devices@example.com', 'device-a')).json()).toBe(true)
+        expect(await (await knownDevice('devices@example.com', 'device-b')).json()).toBe(false)
+        expect(await (await knownDevice('nobody@example.com', 'device-a')).json()).toBe(false)
+    })
+})
+
+describe('Integration: Auth Requests', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let accessToken: string
+
+    const authedRequest = (path: string, method: string, body?: any) => {
+        return app.request(path, {
+            method,
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json'
+            },
+            body: body ? JSON.stringify(body) : undefined
+        }, env)
+    }
+
+    const createRequest = async (accessCode = 'access-code-1') => {
+        const res = await app.request('/api/auth-requests', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Device-Type': '9' },
+            body: JSON.stringify({
+                email: 'phone@example.com',
+                publicKey: 'requestPublicKey',
+                deviceIdentifier: 'new-browser',
+                accessCode,
+                type: 0
+            })
+        }, env)
+        expect(res.status).toBe(200)
+        return await res.json() as any
+    }
+
+    const approve = (id: string, requestApproved = true) => {
+        return authedRequest(`/api/auth-requests/${id}`, 'PUT', {
+            key: 'wrappedUserKey',
+            masterPasswordHash: null,
+            deviceIdentifier: 'phone-1',
+            requestApproved
+        })
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        await registerUser(env, {
+            email: 'phone@example.com',
+            masterPasswordHash: 'phoneHash',
+            key: 'phoneKey'
+        })
+        const loginRes = await login(env, 'phone@example.com', 'phoneHash', {
+            deviceIdentifier: 'phone-1',
+            deviceName: 'Phone',
+            deviceType: '0'
+        })
+        accessToken = (await loginRes.json() as any).access_token
+    })
+
+    it('creates a pending request visible to logged-in devices', async () => {
+        const created = await createRequest()
+        expect(created.object).toBe('auth-request')
+        expect(created.requestDeviceType).toBe('Chrome')
+        expect(created.requestApproved).toBeNull()
+
+        const listRes = await authedRequest('/api/auth-requests', 'GET')
+        const list = await listRes.json() as any
+        expect(list.data).toHaveLength(1)
+        expect(list.data[0].id).toBe(created.id)
+        expect(list.data[0].publicKey).toBe('requestPublicKey')
+    })
+
+    it('answers alike for unknown accounts and accounts without another device, storing nothing', async () => {
+        const post = (email: string, deviceIdentifier: string) => app.request('/api/auth-requests', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email, publicKey: 'k', deviceIdentifier, accessCode: 'c' })
+        }, env)
+        await registerUser(env, { email: 'lonely@example.com', masterPasswordHash: 'lonelyHash', key: 'lonelyKey' })
+        await login(env, 'lonely@example.com', 'lonelyHash', { deviceIdentifier: 'only-device', deviceName: 'Laptop', deviceType: '8' })
+        await registerUser(env, { email: 'deviceless@example.com', masterPasswordHash: 'h', key: 'k' })
+
+        for (const [email, device] of [['nobody@example.com', 'd'], ['deviceless@example.com', 'd'], ['lonely@example.com', 'only-device']]) {
+            const res = await post(email, device)
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.object).toBe('auth-request')
+            expect(await env.DB.get(`auth_request:${data.id}`)).toBeNull()
+        }
+    })
+
+    it('throttles requests per account', async () => {
+        for (let i = 0; i < 4; i++) await createRequest(`access-code-${i}`)
+
+        const res = await app.request('/api/auth-requests', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: 'phone@example.com', publicKey: 'k', deviceIdentifier: 'new-browser', accessCode: 'c' })
+        }, env)
+        expect(res.status).toBe(429)
+    })
+
+    it('returns the approval to the requesting device and logs it in once', async () => {
+        const created = await createRequest()
+
+        const approveRes = await approve(created.id)
+        expect(approveRes.status).toBe(200)
+        expect((await approveRes.json() as any).requestApproved).toBe(true)
+
+        const responseRes = await app.request(`/api/auth-requests/${created.id}/response?code=access-code-1`, {
+            method: 'GET'
+        }, env)
+        expect(responseRes.status).toBe(200)
+        const response = await responseRes.json() as any
+        expect(response.key).toBe('wrappedUserKey')
+
+        const loginRes = await login(env, 'phone@example.com', 'access-code-1', {
+            authRequest: created.id,
+            deviceIdentifier: 'new-browser'
+        })
+        expect(loginRes.status).toBe(200)
+        expect((await loginRes.json() as any).access_token).toBeDefined()
+
+        const replay = await login(env, 'phone@example.com', 'access-code-1', { authRequest: created.id })
+        expect(replay.status).toBe(400)
+    })
+
+    it('hides the response from callers without the access code', async () => {
+        const created = await createRequest()
+        await approve(created.id)
+
+        const res = await app.request(`/api/auth-requests/${created.id}/response?code=wrong`, {
+            method: 'GET'
+        }, env)
+        expect(res.status).toBe(404)
+    })
+
+    it('does not log in with a denied request', async () => {
+        const created = await createRequest()
+        await approve(created.id, false)
+
+        const loginRes = await login(env, 'phone@example.com', 'access-code-1', { authRequest: created.id })
+        expect(loginRes.status).toBe(400)
+
+        const again = await approve(created.id)
+        expect(again.status).toBe(400)
+    })
+
+    it('does not log in with a pending request', async () => {
+        const created = await createRequest()
+        const loginRes = await login(env, 'phone@example.com', 'access-code-1', { authRequest: created.id })
+        expect(loginRes.status).toBe(400)
+    })
+
+    it('only lets the user\'s own devices answer', async () => {
+        const created = await createRequest()
+        const res = await authedRequest(`/api/auth-requests/${created.id}`, 'PUT', {
+            key: 'wrappedUserKey',
+            deviceIdentifier: 'someone-elses-device',
+            requestApproved: true
+        })
+        expect(res.status).toBe(400)
+    })
+})
+
+// =============================================================================
+// SSO Integration Tests (mock OpenID Connect provider)
+// =============================================================================
+
+describe('Integration: SSO', () => {
+    const IDP = 'https://idp.test'
+    const REDIRECT_URI = 'bitwarden://sso-callback'
+    const VERIFIER = 'client-pkce-verifier-0123456789abcdefghijklmnopqrstuvwxyz'
+    let env: ReturnType<typeof createTestEnv> & { SSO_AUTHORITY?: string; SIGNUP_MODE?: string; SIGNUP_DOMAINS?: string }
+    let idpKey: { privateJwk: JsonWebKey; publicJwk: JsonWebKey }
+    // Claims the mock IdP puts in its next ID token; nonce is copied from the authorize request
+    let nextClaims: Record<string, unknown>
+
+    const challenge = async (verifier: string) => {
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+        return toBase64Url(new Uint8Array(digest))
+    }
+
+    const startLogin = async (redirectUri = REDIRECT_URI) => {
+        const pre = await app.request('/api/sso/prevalidate?domainHint=ourcompany', {}, env)
+        expect(pre.status).toBe(200)
+        const { token } = await pre.json() as any
+
+        const query = new URLSearchParams({
+            client_id: 'mobile',
+            redirect_uri: redirectUri,
+            response_type: 'code',
+            scope: 'api offline_access',
+            state: 'client-state',
+            code_challenge: await challenge(VERIFIER),
+            code_challenge_method: 'S256',
+            response_mode: 'query',
+            domain_hint: 'ourcompany',
+            ssoToken: token
+        })
+        return app.request(`/identity/connect/authorize?${query}`, {}, env)
+    }
+
+    /** Runs authorize and the IdP round trip, returning the code sent to the client */
+    const getClientCode = async (claims: Record<string, unknown> = {}) => {
+        const authorize = await startLogin()
+        expect(authorize.status).toBe(302)
+        const idpUrl = new URL(authorize.headers.get('Location')!)
+        expect(idpUrl.origin + idpUrl.pathname).toBe(`${IDP}/authorize`)
+
+        nextClaims = { nonce: idpUrl.searchParams.get('nonce'), ...claims }
+        const callback = await app.request(
+            `/identity/connect/oidc-signin?code=idp-code&state=${idpUrl.searchParams.get('state')}`, {}, env)
+        expect(callback.status).toBe(302)
+        const clientUrl = new URL(callback.headers.get('Location')!)
+        expect(clientUrl.searchParams.get('state')).toBe('client-state')
+        return clientUrl.searchParams.get('code')!
+    }
+
+    const redeem = (code: string, extra: Record<string, string> = {}) => app.request('/identity/connect/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            code_verifier: VERIFIER,
+            redirect_uri: REDIRECT_URI,
+            deviceIdentifier: 'sso-phone',
+            deviceName: 'Phone',
+            deviceType: '0',
+            ...extra
+        }).toString()
+    }, env)
+
+    const ssoLogin = async (claims: Record<string, unknown> = {}, extra: Record<string, string> = {}) => {
+        return redeem(await getClientCode(claims), extra)
+    }
+
+    beforeAll(async () => {
+        const pair = await crypto.subtle.generateKey(
+            { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+            true,
+            ['sign', 'verify']
+        ) as CryptoKeyPair
+        idpKey = {
+            privateJwk: { ...await crypto.subtle.exportKey('jwk', pair.privateKey) as JsonWebKey, alg: 'RS256', kid: 'idp-1' } as JsonWebKey,
+            publicJwk: { ...await crypto.subtle.exportKey('jwk', pair.publicKey) as JsonWebKey, alg: 'RS256', kid: 'idp-1' } as JsonWebKey
+        }
+    })
+
+    beforeEach(() => {
+        env = Object.assign(createTestEnv(), {
+            SSO_AUTHORITY: IDP,
+            SSO_CLIENT_ID: 'nanovault',
+            SSO_CLIENT_SECRET: 'idp-secret'
+        })
+
+        vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+            if (url === `${IDP}/.well-known/openid-configuration`) {
+                return new Response(JSON.stringify({
+                    issuer: IDP,
+                    authorization_endpoint: `${IDP}/authorize`,
+                    token_endpoint: `${IDP}/token`,
+                    jwks_uri: `${IDP}/jwks`
+                }))
+            }
+            if (url === `${IDP}/jwks`) {
+                return new Response(JSON.stringify({ keys: [idpKey.publicJwk] }))
+            }
+            if (url === `${IDP}/token`) {
+                const form = new URLSearchParams(init!.body as string)
+                if (form.get('code') !== 'idp-code' || form.get('client_secret') !== 'idp-secret') {
+                    return new Response('{"error":"invalid_grant"}', { status: 400 })
+                }
+                const now = Math.floor(Date.now() / 1000)
+                const idToken = await sign({
+                    iss: IDP,
+                    aud: 'nanovault',
+                    sub: 'idp-user-1',
+                    email: 'Sso.User@Example.com',
+                    email_verified: true,
+                    name: 'SSO User',
+                    iat: now,
+                    exp: now + 300,
+                    ...nextClaims
+                }, idpKey.privateJwk as any)
+                return new Response(JSON.stringify({ id_token: idToken, access_token: 'idp-access' }))
+            }
+            return new Response('not found', { status: 404 })
+        }))
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('is disabled without an authority', async () => {
+        delete env.SSO_AUTHORITY
+
+        const res = await app.request('/api/sso/prevalidate?domainHint=ourcompany', {}, env)
+        expect(res.status).toBe(400)
+
+        const config = await (await app.request('/api/config', {}, env)).json() as any
+        expect(config.environment.sso).toBe('')
+    })
+
+    it('creates an account on first login, without a master password', async () => {
+        const res = await ssoLogin()
+        expect(res.status).toBe(200)
+        const data = await res.json() as any
+
+        expect(data.access_token).toBeDefined()
+        expect(data.userDecryptionOptions).toMatchObject({
+            hasMasterPassword: false,
+            trustedDeviceOption: {
+                hasAdminApproval: false,
+                hasLoginApprovingDevice: false,
+                encryptedUserKey: null,
+                encryptedPrivateKey: null,
+                object: 'trustedDeviceUserDecryptionOption'
+            },
+            object: 'userDecryptionOptions'
+        })
+
+        const profile = await (await app.request('/api/accounts/profile', {
+            headers: { 'Authorization': `Bearer ${data.access_token}` }
+        }, env)).json() as any
+        expect(profile).toMatchObject({ email: 'sso.user@example.com', name: 'SSO User' })
+    })
+
+    it('returns the wrapped user key to a trusted device', async () => {
+        const first = await (await ssoLogin()).json() as any
+        const trust = await app.request('/api/devices/sso-phone/keys', {
+            method: 'PUT',
+            headers: { 'Authorization': `Bearer ${first.access_token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                encryptedUserKey: '4.deviceWrappedUserKey',
+                encryptedPublicKey: '2.devicePublicKey',
+                encryptedPrivateKey: '2.devicePrivateKey'
+            })
+        }, env)
+        expect(trust.status).toBe(200)
+        expect((await trust.json() as any).isTrusted).toBe(true)
+
+        const again = await (await ssoLogin()).json() as any
+        expect(again.userDecryptionOptions.trustedDeviceOption).toMatchObject({
+            encryptedUserKey: '4.deviceWrappedUserKey',
+            encryptedPrivateKey: '2.devicePrivateKey'
+        })
+
+        // A new device can ask the trusted phone for approval instead
+        const laptop = await (await ssoLogin({}, { deviceIdentifier: 'sso-laptop', deviceType: '8' })).json() as any
+        expect(laptop.userDecryptionOptions.trustedDeviceOption).toMatchObject({
+            hasLoginApprovingDevice: true,
+            encryptedUserKey: null
+        })
+    })
+
+    it('does not link an existing account with a master password', async () => {
+        await registerUser(env, { email: 'sso.user@example.com', masterPasswordHash: 'ssoHash', key: 'ssoKey' })
+
+        const res = await ssoLogin()
+        expect(res.status).toBe(400)
+        expect(JSON.parse((await env.DB.get('user:sso.user@example.com'))!).ssoSubject).toBeUndefined()
+    })
+
+    it('sticks to the subject an account was created with', async () => {
+        expect((await ssoLogin()).status).toBe(200)
+
+        const other = await ssoLogin({ sub: 'idp-user-2' })
+        expect(other.status).toBe(400)
+    })
+
+    it('lets an SSO account set a master password', async () => {
+        const tokens = await (await ssoLogin()).json() as any
+        const setPassword = (body: any) => app.request('/api/accounts/set-password', {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${tokens.access_token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        }, env)
+
+        const body = {
+            masterPasswordHash: 'newSsoHash',
+            key: 'newSsoKey',
+            keys: { publicKey: 'pub', encryptedPrivateKey: 'priv' },
+            kdf: 0,
+            kdfIterations: 600000
+        }
+        expect((await setPassword(body)).status).toBe(200)
+        expect((await setPassword(body)).status).toBe(400)
+
+        const res = await login(env, 'sso.user@example.com', 'newSsoHash')
+        expect(res.status).toBe(200)
+        expect((await res.json() as any).key).toBe('newSsoKey')
+    })
+
+    it('refuses SSO for a linked account once two-step login is enabled', async () => {
+        expect((await ssoLogin()).status).toBe(200)
+
+        const user = JSON.parse((await env.DB.get('user:sso.user@example.com'))!)
+        user.twoFactor = { authenticator: { key: 'JBSWY3DPEHPK3PXP' } }
+        await env.DB.put('user:sso.user@example.com', JSON.stringify(user))
+
+        expect((await ssoLogin()).status).toBe(400)
+    })
+
+    it('sweeps abandoned logins once they expire', async () => {
+        const abandoned = new URL((await startLogin()).headers.get('Location')!).searchParams.get('state')
+        expect(await env.DB.get(`sso_state:${abandoned}`)).not.toBeNull()
+
+        const now = Date.now()
+        const clock = vi.spyOn(Date, 'now').mockReturnValue(now + 11 * 60 * 1000)
+        await startLogin()
+        clock.mockRestore()
+
+        expect(await env.DB.get(`sso_state:${abandoned}`)).toBeNull()
+        expect(JSON.parse((await env.DB.get('sso_pending'))!)).toHaveLength(1)
+    })
+
+    it('follows the signup policy for new accounts', async () => {
+        env.SIGNUP_MODE = 'domains'
+        env.SIGNUP_DOMAINS = 'ourcompany.com'
+
+        const res = await ssoLogin()
+        expect(res.status).toBe(400)
+    })
+
+    it('redeems a code once, only with the matching PKCE verifier', async () => {
+        const code = await getClientCode()
+        expect((await redeem(code, { code_verifier: 'wrong-verifier-0123456789abcdefghijklmnopqrstuvwxyz' })).status).toBe(400)
+
+        const fresh = await getClientCode()
+        expect((await redeem(fresh)).status).toBe(200)
+        expect((await redeem(fresh)).status).toBe(400)
+    })
+
+    it('only redirects to known client callbacks', async () => {
+        expect((await startLogin('https://evil.example/callback')).status).toBe(400)
+        expect((await startLogin('http://localhost:8065')).status).toBe(302)
+        expect((await startLogin('http://localhost/sso-connector.html')).status).toBe(302)
+    })
+
+    it('rejects ID tokens with a wrong nonce, audience or unverified email', async () => {
+        for (const claims of [{ nonce: 'replayed' }, { aud: 'someone-else' }, { email_verified: false }, { email_verified: undefined }]) {
+            const authorize = await startLogin()
+            const idpUrl = new URL(authorize.headers.get('Location')!)
+            const state = idpUrl.searchParams.get('state')
+            nextClaims = { nonce: idpUrl.searchParams.get('nonce'), ...claims }
+
+            const callback = await app.request(`/identity/connect/oidc-signin?code=idp-code&state=${state}`, {}, env)
+            expect(callback.status).toBe(400)
+        }
+    })
+})
+
+// =============================================================================
+// Vault Operations Integration Tests
+// =============================================================================
+
+describe('Integration: Vault Operations', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let accessToken: string
+    let userId: string
+
+    beforeEach(async () => {
+        env = createTestEnv()
+
+        // Register and login
+        const regRes = await registerUser(env, {
+            email: 'vault@example.com',
+            masterPasswordHash: 'vaultHash',
+            key: 'vaultKey'
+        })
+        const regData = await regRes.json() as any
+        userId = regData.id
+
+        const loginRes = await app.request('/identity/connect/token', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                grant_type: 'password',
+                username: 'vault@example.com',
+                password: 'vaultHash'
+            }).toString()
+        }, env)
+        const loginData = await loginRes.json() as any
+        accessToken = loginData.access_token
+    })
+
+    describe('Cipher CRUD', () => {
+        it('creates a Login cipher (type=1)', async () => {
+            const res = await app.request('/api/ciphers', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    type: 1,
+                    name: 'My Login',
+                    login: {
+                        username: 'testuser',
+                        password: 'testpass',
+                        uris: [{ uri: 'https://example.com' }]
+                    }
+                })
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+
+            // Verify response structure
+            expect(data.id).toBeDefined()
+            expect(data.type).toBe(1)
+            expect(data.name).toBe('My Login')
+            expect(data.object).toBe('cipher')
+            expect(data.revisionDate).toBeDefined()
+            expect(data.creationDate).toBeDefined()
+            expect(data.login.username).toBe('testuser')
+        })
+
+        it('creates a SecureNote cipher (type=2)', async () => {
+            const res = await app.request('/api/ciphers', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    type: 2,
+                    name: 'My Note',
+                    notes: 'Secret note content',
+                    secureNote: { type: 0 }
+                })
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.type).toBe(2)
+        })
+
+        it('creates a Card cipher (type=3)', async () => {
+            const res = await app.request('/api/ciphers', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    type: 3,
+                    name: 'My Card',
+                    card: {
+                        cardholderName: 'John Doe',
+                        number: '4111111111111111',
+                        expMonth: '12',
+                        expYear: '2030',
+                        code: '123'
+                    }
+                })
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.type).toBe(3)
+        })
+
+        it('creates an SSHKey cipher (type=5)', async () => {
+            const res = await app.request('/api/ciphers', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    type: 5,
+                    name: 'My SSH Key',
+                    sshKey: {
+                        privateKey: 'encrypted-private-key',
+                        publicKey: 'ssh-rsa AAAA...',
+                        fingerprint: 'SHA256:abcd1234'
+                    }
+                })
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.type).toBe(5)
+            expect(data.sshKey).toBeDefined()
+            expect(data.sshKey.publicKey).toBe('ssh-rsa AAAA...')
+        })
+
+        it('includes new cipher fields (archivedDate, key, passwordHistory, edit, viewPassword)', async () => {
+            const res = await app.request('/api/ciphers', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    type: 1,
+                    name: 'Full Cipher',
+                    login: { username: 'test' },
+                    key: 'cipher-encryption-key',
+                    passwordHistory: [
+                        { password: 'oldpass1', lastUsedDate: '2024-01-01T00:00:00Z' }
+                    ]
+                })
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+
+            // New fields should be present
+            expect(data.edit).toBe(true)
+            expect(data.viewPassword).toBe(true)
+            expect(data.organizationUseTotp).toBe(false)
+            expect(data.archivedDate).toBeNull()
+            expect(data.key).toBe('cipher-encryption-key')
+            expect(data.passwordHistory).toHaveLength(1)
+        })
+
+        it('gets a cipher by ID', async () => {
+            // Create first
+            const createRes = await app.request('/api/ciphers', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ type: 1, name: 'TestCipher', login: {} })
+            }, env)
+            const created = await createRes.json() as any
+
+            // Get
+            const res = await app.request(`/api/ciphers/${created.id}`, {
+                method: 'GET',
+                headers: { 'Authorization': `Bearer ${accessToken}` }
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.id).toBe(created.id)
+            expect(data.name).toBe('TestCipher')
+        })
+
+        it('updates a cipher', async () => {
+            // Create
+            const createRes = await app.request('/api/ciphers', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ type: 1, name: 'Original', login: {} })
+            }, env)
+            const created = await createRes.json() as any
+
+            // Update
+            const res = await app.request(`/api/ciphers/${created.id}`, {
+                method: 'PUT',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    type: 1,
+                    name: 'Updated Name',
+                    login: { username: 'newuser' }
+                })
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.name).toBe('Updated Name')
+            expect(data.login.username).toBe('newuser')
+        })
+
+        it('soft deletes a cipher (move to trash)', async () => {
+            // Create
+            const createRes = await app.request('/api/ciphers', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ type: 1, name: 'ToTrash', login: {} })
+            }, env)
+            const created = await createRes.json() as any
+
+            // Soft delete
+            const res = await app.request(`/api/ciphers/${created.id}/delete`, {
+                method: 'PUT',
+                headers: { 'Authorization': `Bearer ${accessToken}` }
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.deletedDate).toBeDefined()
+            expect(data.deletedDate).not.toBeNull()
+        })
+
+        it('restores a cipher from trash', async () => {
+            // Create
+            const createRes = await app.request('/api/ciphers', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ type: 1, name: 'ToRestore', login: {} })
+            }, env)
+            const created = await createRes.json() as any
+
+            // Soft delete first
+            await app.request(`/api/ciphers/${created.id}/delete`, {
+                method: 'PUT',
+                headers: { 'Authorization': `Bearer ${accessToken}` }
+            }, env)
+
+            // Restore
+            const res = await app.request(`/api/ciphers/${created.id}/restore`, {
+                method: 'PUT',
+                headers: { 'Authorization': `Bearer ${accessToken}` }
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.deletedDate).toBeNull()
+        })
+
+        it('returns 401 without authorization', async () => {
+            const res = await app.request('/api/ciphers', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ type: 1, name: 'Unauth' })
+            }, env)
+
+            expect(res.status).toBe(401)
+        })
+    })
+
+    describe('Folder CRUD', () => {
+        it('creates a folder', async () => {
+            const res = await app.request('/api/folders', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ name: 'Work' })
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.id).toBeDefined()
+            expect(data.name).toBe('Work')
+            expect(data.object).toBe('folder')
+            expect(data.revisionDate).toBeDefined()
+        })
+
+        it('creates folder with PascalCase Name field', async () => {
+            const res = await app.request('/api/folders', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ Name: 'Personal' })
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.name).toBe('Personal')
+        })
+
+        it('gets a folder by ID', async () => {
+            const createRes = await app.request('/api/folders', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ name: 'GetTest' })
+            }, env)
+            const created = await createRes.json() as any
+
+            const res = await app.request(`/api/folders/${created.id}`, {
+                method: 'GET',
+                headers: { 'Authorization': `Bearer ${accessToken}` }
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.id).toBe(created.id)
+            expect(data.name).toBe('GetTest')
+        })
+
+        it('updates a folder', async () => {
+            const createRes = await app.request('/api/folders', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ name: 'OldName' })
+            }, env)
+            const created = await createRes.json() as any
+
+            const res = await app.request(`/api/folders/${created.id}`, {
+                method: 'PUT',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ name: 'NewName' })
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.name).toBe('NewName')
+        })
+
+        it('deletes a folder', async () => {
+            const createRes = await app.request('/api/folders', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ name: 'ToDelete' })
+            }, env)
+            const created = await createRes.json() as any
+
+            const res = await app.request(`/api/folders/${created.id}`, {
+                method: 'DELETE',
+                headers: { 'Authorization': `Bearer ${accessToken}` }
+            }, env)
+
+            expect(res.status).toBe(200)
+        })
+
+        it('rejects folder without name', async () => {
+            const res = await app.request('/api/folders', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({})
+            }, env)
+
+            expect(res.status).toBe(400)
+        })
+    })
+
+    describe('Import', () => {
+        it('imports multiple ciphers and folders', async () => {
+            const res = await app.request('/api/ciphers/import', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
                 body: JSON.stringify({
-                    type: 3,
-                    name: 'My Card',
-                    card: {
-                        cardholderName: 'John Doe',
-                        number: '4111111111111111',
-                        expMonth: '12',
-                        expYear: '2030',
-                        code: '123'
-                    }
+                    ciphers: [
+                        { type: 1, name: 'Login 1', login: { username: 'u1' } },
+                        { type: 2, name: 'Note 1', secureNote: { type: 0 } },
+                        { type: 3, name: 'Card 1', card: { number: '4111' } }
+                    ],
+                    folders: [
+                        { name: 'Folder A' },
+                        { name: 'Folder B' }
+                    ]
+                })
+            }, env)
+
+            expect(res.status).toBe(200)
+            const data = await res.json() as any
+            expect(data.success).toBe(true)
+            expect(data.ciphers).toHaveLength(3)
+            expect(data.folders).toHaveLength(2)
+
+            // Verify each cipher has required fields
+            for (const cipher of data.ciphers) {
+                expect(cipher.id).toBeDefined()
+                expect(cipher.revisionDate).toBeDefined()
+                expect(cipher.object).toBe('cipher')
+            }
+        })
+
+        it('handles PascalCase import fields', async () => {
+            const res = await app.request('/api/ciphers/import', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    Ciphers: [
+                        { Type: 1, Name: 'PascalLogin', Login: { Username: 'pu' } }
+                    ],
+                    Folders: [
+                        { Name: 'PascalFolder' }
+                    ]
                 })
             }, env)
 
             expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.type).toBe(3)
+            const data = await res.json() as any
+            expect(data.success).toBe(true)
+        })
+    })
+
+    describe('Attachments', () => {
+        const authed = (path: string, init: RequestInit = {}) => app.request(path, {
+            ...init,
+            headers: { 'Authorization': `Bearer ${accessToken}`, ...init.headers }
+        }, env)
+
+        const createCipher = async () => {
+            const res = await authed('/api/ciphers', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ type: 2, name: 'Recovery codes', secureNote: { type: 0 } })
+            })
+            return (await res.json() as any).id as string
+        }
+
+        const register = (cipherId: string, fileSize: number) => authed(`/api/ciphers/${cipherId}/attachment/v2`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ key: '2.attachmentKey', fileName: '2.encryptedName', fileSize })
+        })
+
+        const upload = (cipherId: string, attachmentId: string, bytes: Uint8Array) => {
+            const form = new FormData()
+            form.append('data', new File([bytes], 'encrypted.bin'))
+            return authed(`/api/ciphers/${cipherId}/attachment/${attachmentId}`, { method: 'POST', body: form })
+        }
+
+        it('uploads, lists and downloads an attachment', async () => {
+            const cipherId = await createCipher()
+            const bytes = new Uint8Array([2, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9])
+
+            const created = await register(cipherId, bytes.length)
+            expect(created.status).toBe(200)
+            const data = await created.json() as any
+            expect(data).toMatchObject({ fileUploadType: 0, object: 'attachment-fileUpload' })
+            expect(data.cipherResponse.attachments[0]).toMatchObject({ id: data.attachmentId, fileName: '2.encryptedName', size: 11 })
+
+            expect((await upload(cipherId, data.attachmentId, bytes)).status).toBe(200)
+
+            const meta = await (await authed(`/api/ciphers/${cipherId}/attachment/${data.attachmentId}`)).json() as any
+            expect(meta).toMatchObject({ id: data.attachmentId, key: '2.attachmentKey', sizeName: '11 Bytes', object: 'attachment' })
+
+            // Signed URLs work without a bearer token
+            const url = new URL(meta.url)
+            const download = await app.request(url.pathname + url.search, {}, env)
+            expect(download.status).toBe(200)
+            expect(new Uint8Array(await download.arrayBuffer())).toEqual(bytes)
+
+            const sync = await (await authed('/api/sync')).json() as any
+            expect(sync.ciphers.find((x: any) => x.id === cipherId).attachments).toHaveLength(1)
+        })
+
+        it('keeps attachments when the cipher is edited', async () => {
+            const cipherId = await createCipher()
+            const { attachmentId } = await (await register(cipherId, 4)).json() as any
+
+            const res = await authed(`/api/ciphers/${cipherId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    type: 2,
+                    name: 'Renamed',
+                    secureNote: { type: 0 },
+                    attachments2: { [attachmentId]: { fileName: '2.renamed', key: '2.rewrapped' } }
+                })
+            })
+            expect((await res.json() as any).attachments[0]).toMatchObject({ id: attachmentId, fileName: '2.renamed', key: '2.rewrapped' })
+        })
+
+        it('rejects oversized or mismatched uploads', async () => {
+            const cipherId = await createCipher()
+            expect((await register(cipherId, 101 * 1024 * 1024)).status).toBe(400)
+            expect((await register('missing-cipher', 10)).status).toBe(404)
+
+            const { attachmentId } = await (await register(cipherId, 10)).json() as any
+            expect((await upload(cipherId, attachmentId, new Uint8Array(2 * 1024 * 1024))).status).toBe(400)
+            expect((await upload(cipherId, 'unknown-attachment', new Uint8Array(10))).status).toBe(404)
+        })
+
+        it('deletes an attachment and its file', async () => {
+            const cipherId = await createCipher()
+            const { attachmentId } = await (await register(cipherId, 3)).json() as any
+            await upload(cipherId, attachmentId, new Uint8Array([1, 2, 3]))
+            const meta = await (await authed(`/api/ciphers/${cipherId}/attachment/${attachmentId}`)).json() as any
+
+            const res = await authed(`/api/ciphers/${cipherId}/attachment/${attachmentId}`, { method: 'DELETE' })
+            expect(res.status).toBe(200)
+            expect((await res.json() as any).cipher.attachments).toEqual([])
+
+            const url = new URL(meta.url)
+            expect((await app.request(url.pathname + url.search, {}, env)).status).toBe(404)
+            expect((await authed(`/api/ciphers/${cipherId}/attachment/${attachmentId}`)).status).toBe(404)
         })
 
-        it('creates an SSHKey cipher (type=5)', async () => {
-            const res = await app.request('/api/ciphers', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    type: 5,
-                    name: 'My SSH Key',
-                    sshKey: {
-                        privateKey: 'encrypted-private-key',
-                        publicKey: 'ssh-rsa AAAA...',
-                        fingerprint: 'SHA256:abcd1234'
-                    }
+        it('does not serve files without a valid signature', async () => {
+            const cipherId = await createCipher()
+            const { attachmentId } = await (await register(cipherId, 3)).json() as any
+            await upload(cipherId, attachmentId, new Uint8Array([1, 2, 3]))
+            const meta = await (await authed(`/api/ciphers/${cipherId}/attachment/${attachmentId}`)).json() as any
+            const url = new URL(meta.url)
+
+            expect((await authed(`/attachments/${cipherId}/${attachmentId}`)).status).toBe(403)
+
+            // Signature is bound to the user and expiry
+            const otherUser = new URL(url)
+            otherUser.searchParams.set('uid', 'another-user')
+            expect((await app.request(otherUser.pathname + otherUser.search, {}, env)).status).toBe(403)
+
+            const extended = new URL(url)
+            extended.searchParams.set('expires', String(Number(url.searchParams.get('expires')) + 3600))
+            expect((await app.request(extended.pathname + extended.search, {}, env)).status).toBe(403)
+        })
+
+        it('scopes a signed URL to one attachment', async () => {
+            const cipherId = await createCipher()
+            const first = await (await register(cipherId, 3)).json() as any
+            const second = await (await register(cipherId, 3)).json() as any
+            await upload(cipherId, second.attachmentId, new Uint8Array([1, 2, 3]))
+
+            const meta = await (await authed(`/api/ciphers/${cipherId}/attachment/${first.attachmentId}`)).json() as any
+            const url = new URL(meta.url)
+            const res = await app.request(`/attachments/${cipherId}/${second.attachmentId}${url.search}`, {}, env)
+            expect(res.status).toBe(403)
+        })
+
+        it('expires signed URLs', async () => {
+            const cipherId = await createCipher()
+            const { attachmentId } = await (await register(cipherId, 3)).json() as any
+            await upload(cipherId, attachmentId, new Uint8Array([1, 2, 3]))
+            const meta = await (await authed(`/api/ciphers/${cipherId}/attachment/${attachmentId}`)).json() as any
+            const url = new URL(meta.url)
+
+            vi.useFakeTimers({ toFake: ['Date'] })
+            try {
+                vi.setSystemTime(Date.now() + 6 * 60 * 1000)
+                expect((await app.request(url.pathname + url.search, {}, env)).status).toBe(403)
+            } finally {
+                vi.useRealTimers()
+            }
+        })
+    })
+
+    describe('Bulk operations', () => {
+        const authed = (path: string, init: RequestInit = {}) => app.request(path, {
+            ...init,
+            headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json', ...init.headers }
+        }, env)
+
+        const createCiphers = async (count: number): Promise<string[]> => {
+            const ids: string[] = []
+            for (let i = 0; i < count; i++) {
+                const res = await authed('/api/ciphers', {
+                    method: 'POST',
+                    body: JSON.stringify({ type: 2, name: `Note ${i}`, secureNote: { type: 0 } })
                 })
-            }, env)
+                ids.push((await res.json() as any).id)
+            }
+            return ids
+        }
+
+        const syncedCiphers = async () => (await (await authed('/api/sync')).json() as any).ciphers as any[]
 
+        it('moves ciphers into a folder and back out', async () => {
+            const ids = await createCiphers(3)
+            const folder = await (await authed('/api/folders', { method: 'POST', body: JSON.stringify({ name: 'Work' }) })).json() as any
+
+            const res = await authed('/api/ciphers/move', { method: 'POST', body: JSON.stringify({ ids: ids.slice(0, 2), folderId: folder.id }) })
             expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.type).toBe(5)
-            expect(data.sshKey).toBeDefined()
-            expect(data.sshKey.publicKey).toBe('ssh-rsa AAAA...')
+            let ciphers = await syncedCiphers()
+            expect(ciphers.filter(x => x.folderId === folder.id).map(x => x.id).sort()).toEqual(ids.slice(0, 2).sort())
+
+            await authed('/api/ciphers/move', { method: 'PUT', body: JSON.stringify({ ids, folderId: null }) })
+            ciphers = await syncedCiphers()
+            expect(ciphers.every(x => x.folderId === null)).toBe(true)
         })
 
-        it('includes new cipher fields (archivedDate, key, passwordHistory, edit, viewPassword)', async () => {
-            const res = await app.request('/api/ciphers', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    type: 1,
-                    name: 'Full Cipher',
-                    login: { username: 'test' },
-                    key: 'cipher-encryption-key',
-                    passwordHistory: [
-                        { password: 'oldpass1', lastUsedDate: '2024-01-01T00:00:00Z' }
-                    ]
-                })
-            }, env)
+        it('rejects a move into an unknown folder', async () => {
+            const ids = await createCiphers(1)
+            const res = await authed('/api/ciphers/move', { method: 'POST', body: JSON.stringify({ ids, folderId: 'no-such-folder' }) })
+            expect(res.status).toBe(404)
+        })
+
+        it('trashes and restores ciphers', async () => {
+            const ids = await createCiphers(3)
+
+            expect((await authed('/api/ciphers/delete', { method: 'PUT', body: JSON.stringify({ ids: ids.slice(0, 2) }) })).status).toBe(200)
+            let ciphers = await syncedCiphers()
+            expect(ciphers.filter(x => x.deletedDate).map(x => x.id).sort()).toEqual(ids.slice(0, 2).sort())
 
+            const res = await authed('/api/ciphers/restore', { method: 'PUT', body: JSON.stringify({ ids }) })
             expect(res.status).toBe(200)
             const data = await res.json() as any
+            expect(data.object).toBe('list')
+            expect(data.data.map((x: any) => x.id).sort()).toEqual(ids.slice(0, 2).sort())
 
-            // New fields should be present
-            expect(data.edit).toBe(true)
-            expect(data.viewPassword).toBe(true)
-            expect(data.organizationUseTotp).toBe(false)
-            expect(data.archivedDate).toBeNull()
-            expect(data.key).toBe('cipher-encryption-key')
-            expect(data.passwordHistory).toHaveLength(1)
+            ciphers = await syncedCiphers()
+            expect(ciphers.every(x => x.deletedDate === null)).toBe(true)
         })
 
-        it('gets a cipher by ID', async () => {
-            // Create first
-            const createRes = await app.request('/api/ciphers', {
+        it('deletes ciphers permanently with one index write', async () => {
+            const ids = await createCiphers(3)
+            const putSpy = vi.spyOn(env.DB, 'put')
+
+            const res = await authed('/api/ciphers', { method: 'DELETE', body: JSON.stringify({ ids: ids.slice(0, 2) }) })
+            expect(res.status).toBe(200)
+            expect(putSpy.mock.calls.filter(([key]) => key.startsWith('vault_index:'))).toHaveLength(1)
+
+            const index = JSON.parse(await env.DB.get(`vault_index:${userId}`) ?? '{}')
+            expect(index.cipherIds).toEqual([ids[2]])
+            expect((await syncedCiphers()).map(x => x.id)).toEqual([ids[2]])
+
+            // Legacy clients use POST
+            expect((await authed('/api/ciphers/delete', { method: 'POST', body: JSON.stringify({ ids: [ids[2]] }) })).status).toBe(200)
+            expect(await syncedCiphers()).toHaveLength(0)
+        })
+
+        it('ignores IDs of other users\' ciphers', async () => {
+            const ids = await createCiphers(1)
+            const res = await authed('/api/ciphers', { method: 'DELETE', body: JSON.stringify({ ids: ['someone-elses-cipher', ...ids] }) })
+            expect(res.status).toBe(200)
+            expect(await syncedCiphers()).toHaveLength(0)
+        })
+
+        it('rejects empty or oversized batches', async () => {
+            expect((await authed('/api/ciphers/delete', { method: 'PUT', body: JSON.stringify({ ids: [] }) })).status).toBe(400)
+            const tooMany = Array.from({ length: 501 }, (_, i) => `id-${i}`)
+            expect((await authed('/api/ciphers/restore', { method: 'PUT', body: JSON.stringify({ ids: tooMany }) })).status).toBe(400)
+        })
+    })
+
+    describe('Purge vault', () => {
+        const authed = (path: string, init: RequestInit = {}) => app.request(path, {
+            ...init,
+            headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json', ...init.headers }
+        }, env)
+
+        const purge = (masterPasswordHash: string) => authed('/api/ciphers/purge', {
+            method: 'POST',
+            body: JSON.stringify({ masterPasswordHash })
+        })
+
+        const fillVault = async () => {
+            await authed('/api/folders', { method: 'POST', body: JSON.stringify({ name: 'Work' }) })
+            const cipher = await (await authed('/api/ciphers', {
                 method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ type: 1, name: 'TestCipher', login: {} })
+                body: JSON.stringify({ type: 2, name: 'Note', secureNote: { type: 0 } })
+            })).json() as any
+            const { attachmentId } = await (await authed(`/api/ciphers/${cipher.id}/attachment/v2`, {
+                method: 'POST',
+                body: JSON.stringify({ key: '2.key', fileName: '2.name', fileSize: 3 })
+            })).json() as any
+            const form = new FormData()
+            form.append('data', new File([new Uint8Array([1, 2, 3])], 'encrypted.bin'))
+            await app.request(`/api/ciphers/${cipher.id}/attachment/${attachmentId}`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${accessToken}` },
+                body: form
             }, env)
-            const created = await createRes.json() as any
+        }
 
-            // Get
-            const res = await app.request(`/api/ciphers/${created.id}`, {
-                method: 'GET',
-                headers: { 'Authorization': `Bearer ${accessToken}` }
-            }, env)
+        it('deletes every cipher, folder and attachment', async () => {
+            await fillVault()
 
+            const res = await purge('vaultHash')
             expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.id).toBe(created.id)
-            expect(data.name).toBe('TestCipher')
+
+            expect((await env.VAULT.list({ prefix: `vaults/${userId}/` })).objects).toHaveLength(0)
+            const index = JSON.parse(await env.DB.get(`vault_index:${userId}`) ?? '{}')
+            expect(index).toMatchObject({ cipherIds: [], folderIds: [] })
+            expect(JSON.parse(await env.DB.get(`storage_usage:${userId}`) ?? '{}')).toEqual({ bytes: 0, items: 0 })
+
+            // The account itself stays usable
+            const sync = await (await authed('/api/sync')).json() as any
+            expect(sync.ciphers).toHaveLength(0)
+            expect(sync.folders).toHaveLength(0)
+            expect(sync.profile.email).toBe('vault@example.com')
         })
 
-        it('updates a cipher', async () => {
-            // Create
-            const createRes = await app.request('/api/ciphers', {
+        it('requires the master password', async () => {
+            await fillVault()
+
+            const res = await purge('wrongHash')
+            expect(res.status).toBe(400)
+
+            const sync = await (await authed('/api/sync')).json() as any
+            expect(sync.ciphers).toHaveLength(1)
+            expect(sync.folders).toHaveLength(1)
+        })
+    })
+
+    describe('Storage quota', () => {
+        const authed = (path: string, init: RequestInit = {}) => app.request(path, {
+            ...init,
+            headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json', ...init.headers }
+        }, env)
+
+        const createCipher = (name: string, notes: string | null = null) => authed('/api/ciphers', {
+            method: 'POST',
+            body: JSON.stringify({ type: 2, name, notes, secureNote: { type: 0 } })
+        })
+
+        const usage = async () => JSON.parse(await env.DB.get(`storage_usage:${userId}`) ?? 'null')
+
+        it('counts writes and deletes', async () => {
+            const cipher = await (await createCipher('Note')).json() as any
+            const folder = await (await authed('/api/folders', { method: 'POST', body: JSON.stringify({ name: 'Work' }) })).json() as any
+            const afterCreate = await usage()
+            expect(afterCreate.items).toBe(2)
+            expect(afterCreate.bytes).toBeGreaterThan(0)
+
+            await authed(`/api/ciphers/${cipher.id}`, {
+                method: 'PUT',
+                body: JSON.stringify({ type: 2, name: 'Note', notes: 'x'.repeat(1000), secureNote: { type: 0 } })
+            })
+            expect((await usage()).bytes).toBeGreaterThan(afterCreate.bytes + 900)
+
+            await authed(`/api/ciphers/${cipher.id}`, { method: 'DELETE' })
+            await authed(`/api/folders/${folder.id}`, { method: 'DELETE' })
+            expect(await usage()).toEqual({ bytes: 0, items: 0 })
+        })
+
+        it('measures vaults written before usage was tracked', async () => {
+            await createCipher('Old note')
+            const measured = await usage()
+            await env.DB.delete(`storage_usage:${userId}`)
+
+            const profile = await (await authed('/api/accounts/profile')).json() as any
+            expect(await usage()).toEqual(measured)
+            expect(profile.storageName).toBe(`${measured.bytes} Bytes`)
+        })
+
+        it('has no limits unless configured', async () => {
+            const profile = await (await authed('/api/accounts/profile')).json() as any
+            expect(profile.maxStorageGb).toBeNull()
+        })
+
+        it('counts an attachment once its file is uploaded', async () => {
+            const cipher = await (await createCipher('Note')).json() as any
+            const afterCreate = await usage()
+
+            const { attachmentId } = await (await authed(`/api/ciphers/${cipher.id}/attachment/v2`, {
                 method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ type: 1, name: 'Original', login: {} })
+                body: JSON.stringify({ key: '2.key', fileName: '2.name', fileSize: 5000 })
+            })).json() as any
+            const registered = await usage()
+            expect(registered.bytes).toBeLessThan(afterCreate.bytes + 5000)
+
+            const form = new FormData()
+            form.append('data', new File([new Uint8Array(5000)], 'encrypted.bin'))
+            await app.request(`/api/ciphers/${cipher.id}/attachment/${attachmentId}`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${accessToken}` },
+                body: form
             }, env)
-            const created = await createRes.json() as any
+            expect((await usage()).bytes).toBeGreaterThan(afterCreate.bytes + 5000)
+        })
 
-            // Update
-            const res = await app.request(`/api/ciphers/${created.id}`, {
+        it('shows usage and the limit in the profile', async () => {
+            Object.assign(env, { STORAGE_QUOTA_MB: '512' })
+            await createCipher('Note')
+
+            const profile = await (await authed('/api/accounts/profile')).json() as any
+            expect(profile.maxStorageGb).toBe(0.5)
+            expect(profile.storageName).toMatch(/^\d+ Bytes$/)
+
+            const sync = await (await authed('/api/sync')).json() as any
+            expect(sync.profile.storageName).toBe(profile.storageName)
+        })
+
+        it('rejects writes over the item limit', async () => {
+            Object.assign(env, { ITEM_QUOTA: '2' })
+            expect((await createCipher('One')).status).toBe(200)
+            expect((await createCipher('Two')).status).toBe(200)
+
+            const res = await createCipher('Three')
+            expect(res.status).toBe(400)
+            expect((await res.json() as any).message).toContain('Item limit reached')
+
+            const folder = await authed('/api/folders', { method: 'POST', body: JSON.stringify({ name: 'Work' }) })
+            expect(folder.status).toBe(400)
+        })
+
+        it('rejects writes over the storage limit', async () => {
+            Object.assign(env, { STORAGE_QUOTA_MB: '0.01' })  // about 10 KB
+            const cipher = await (await createCipher('Small')).json() as any
+
+            const res = await authed(`/api/ciphers/${cipher.id}`, {
                 method: 'PUT',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
+                body: JSON.stringify({ type: 2, name: 'Big', notes: 'x'.repeat(20000), secureNote: { type: 0 } })
+            })
+            expect(res.status).toBe(400)
+            expect((await res.json() as any).message).toContain('Not enough storage')
+
+            const attachment = await authed(`/api/ciphers/${cipher.id}/attachment/v2`, {
+                method: 'POST',
+                body: JSON.stringify({ key: '2.key', fileName: '2.name', fileSize: 20000 })
+            })
+            expect(attachment.status).toBe(400)
+
+            // Shrinking is always allowed
+            expect((await authed(`/api/ciphers/${cipher.id}`, { method: 'DELETE' })).status).toBe(200)
+        })
+
+        it('ignores attachments sent in a cipher body', async () => {
+            const fake = [{ id: 'fake', fileName: '2.name', key: '2.key', size: -1e12, sizeName: '0 Bytes' }]
+            const created = await (await authed('/api/ciphers', {
+                method: 'POST',
+                body: JSON.stringify({ type: 2, name: 'Note', secureNote: { type: 0 }, attachments: fake })
+            })).json() as any
+            expect(created.attachments).toBeNull()
+
+            await authed('/api/ciphers/import', {
+                method: 'POST',
+                body: JSON.stringify({ ciphers: [{ type: 2, name: 'Imported', secureNote: { type: 0 }, attachments: fake }], folders: [] })
+            })
+            const sync = await (await authed('/api/sync')).json() as any
+            expect(sync.ciphers.every((c: any) => c.attachments === null)).toBe(true)
+            expect((await usage()).bytes).toBeGreaterThan(0)
+        })
+
+        it('rejects an import that does not fit as a whole', async () => {
+            Object.assign(env, { ITEM_QUOTA: '3' })
+            const res = await authed('/api/ciphers/import', {
+                method: 'POST',
                 body: JSON.stringify({
-                    type: 1,
-                    name: 'Updated Name',
-                    login: { username: 'newuser' }
+                    ciphers: [1, 2, 3].map(i => ({ type: 2, name: `Note ${i}`, secureNote: { type: 0 } })),
+                    folders: [{ name: 'Imported' }]
                 })
-            }, env)
+            })
+            expect(res.status).toBe(400)
+
+            const sync = await (await authed('/api/sync')).json() as any
+            expect(sync.ciphers).toHaveLength(0)
+            expect(sync.folders).toHaveLength(0)
+        })
+    })
+})
+
+// =============================================================================
+// Key Rotation Integration Tests
+// =============================================================================
+
+describe('Integration: Key Rotation', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let accessToken: string
+    let cipherIds: string[]
+    let folderId: string
+
+    const authedRequest = (path: string, method: string, body?: any) => app.request(path, {
+        method,
+        headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+    }, env)
+
+    const rotationBody = (overrides: { ciphers?: any[], folders?: any[], sends?: any[], kdfIterations?: number } = {}) => ({
+        oldMasterKeyAuthenticationHash: 'rotateHash',
+        accountUnlockData: {
+            masterPasswordUnlockData: {
+                kdfType: 0,
+                kdfIterations: overrides.kdfIterations ?? 600000,
+                kdfMemory: null,
+                kdfParallelism: null,
+                email: 'rotate@example.com',
+                masterKeyAuthenticationHash: 'rotateHash',
+                masterKeyEncryptedUserKey: 'newUserKey'
+            }
+        },
+        accountKeys: {
+            userKeyEncryptedAccountPrivateKey: 'newPrivateKey',
+            accountPublicKey: 'publicKey'
+        },
+        accountData: {
+            ciphers: overrides.ciphers ?? cipherIds.map(id => ({ id, type: 2, name: `rekeyed-${id}`, secureNote: { type: 0 } })),
+            folders: overrides.folders ?? [{ id: folderId, name: 'rekeyed-folder' }],
+            sends: overrides.sends ?? []
+        }
+    })
+
+    const sync = async () => {
+        const res = await app.request('/api/sync', { headers: { 'Authorization': `Bearer ${accessToken}` } }, env)
+        return await res.json() as any
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        await registerUser(env, { email: 'rotate@example.com', masterPasswordHash: 'rotateHash', key: 'oldUserKey' })
+        accessToken = (await (await login(env, 'rotate@example.com', 'rotateHash')).json() as any).access_token
+
+        const folder = await (await authedRequest('/api/folders', 'POST', { name: 'old-folder' })).json() as any
+        folderId = folder.id
+        cipherIds = []
+        for (const name of ['one', 'two']) {
+            const cipher = await (await authedRequest('/api/ciphers', 'POST', { type: 2, name, secureNote: { type: 0 } })).json() as any
+            cipherIds.push(cipher.id)
+        }
+        await authedRequest(`/api/ciphers/${cipherIds[1]}/delete`, 'PUT')
+    })
+
+    it('re-encrypts every item and the user key together', async () => {
+        const res = await authedRequest('/api/accounts/key-management/rotate-user-account-keys', 'POST', rotationBody())
+        expect(res.status).toBe(200)
+
+        // Old sessions are revoked
+        expect((await app.request('/api/sync', { headers: { 'Authorization': `Bearer ${accessToken}` } }, env)).status).toBe(401)
+
+        accessToken = (await (await login(env, 'rotate@example.com', 'rotateHash')).json() as any).access_token
+        const data = await sync()
+        expect(data.profile.key).toBe('newUserKey')
+        expect(data.profile.privateKey).toBe('newPrivateKey')
+        expect(data.folders[0].name).toBe('rekeyed-folder')
+        expect(data.ciphers.map((x: any) => x.name).sort()).toEqual(cipherIds.map(id => `rekeyed-${id}`).sort())
+
+        // Trashed items stay in the trash
+        const trashed = data.ciphers.find((x: any) => x.id === cipherIds[1])
+        expect(trashed.deletedDate).not.toBeNull()
+    })
+
+    it('rejects a rotation that leaves items out or adds unknown ones', async () => {
+        const partial = rotationBody({ ciphers: [{ id: cipherIds[0], type: 2, name: 'rekeyed' }] })
+        expect((await authedRequest('/api/accounts/key-management/rotate-user-account-keys', 'POST', partial)).status).toBe(400)
+
+        const unknown = rotationBody({ folders: [{ id: folderId, name: 'a' }, { id: 'not-mine', name: 'b' }] })
+        expect((await authedRequest('/api/accounts/key-management/rotate-user-account-keys', 'POST', unknown)).status).toBe(400)
+
+        const sends = rotationBody({ sends: [{ id: 'send-1' }] })
+        expect((await authedRequest('/api/accounts/key-management/rotate-user-account-keys', 'POST', sends)).status).toBe(400)
+
+        const data = await sync()
+        expect(data.profile.key).toBe('oldUserKey')
+        expect(data.folders[0].name).toBe('old-folder')
+    })
+
+    it('rejects KDF changes and a wrong master password', async () => {
+        const kdfChange = rotationBody({ kdfIterations: 700000 })
+        expect((await authedRequest('/api/accounts/key-management/rotate-user-account-keys', 'POST', kdfChange)).status).toBe(400)
+
+        const wrongPassword = { ...rotationBody(), oldMasterKeyAuthenticationHash: 'wrongHash' }
+        expect((await authedRequest('/api/accounts/key-management/rotate-user-account-keys', 'POST', wrongPassword)).status).toBe(400)
+
+        expect((await sync()).profile.key).toBe('oldUserKey')
+    })
+
+    it('restores the previous vault when a write fails', async () => {
+        const put = env.VAULT.put.bind(env.VAULT)
+        let writes = 0
+        vi.spyOn(env.VAULT, 'put').mockImplementation(async (key: string, body: string | ArrayBuffer | ReadableStream) => {
+            if (++writes === 2) throw new Error('storage unavailable')
+            return put(key, body)
+        })
+
+        const res = await authedRequest('/api/accounts/key-management/rotate-user-account-keys', 'POST', rotationBody())
+        expect(res.status).toBe(500)
+        vi.restoreAllMocks()
+
+        const data = await sync()
+        expect(data.profile.key).toBe('oldUserKey')
+        expect(data.folders[0].name).toBe('old-folder')
+        expect(data.ciphers.map((x: any) => x.name).sort()).toEqual(['one', 'two'])
+    })
+
+    it('rotates through the legacy update key endpoint', async () => {
+        const res = await authedRequest('/api/accounts/key', 'POST', {
+            masterPasswordHash: 'rotateHash',
+            key: 'legacyUserKey',
+            privateKey: 'legacyPrivateKey',
+            ciphers: cipherIds.map(id => ({ id, type: 2, name: 'legacy', secureNote: { type: 0 } })),
+            folders: [{ id: folderId, name: 'legacy-folder' }]
+        })
+        expect(res.status).toBe(200)
+
+        const loginRes = await login(env, 'rotate@example.com', 'rotateHash')
+        expect((await loginRes.json() as any).key).toBe('legacyUserKey')
+    })
+})
+
+// =============================================================================
+// Profile Integration Tests
+// =============================================================================
+
+describe('Integration: Profile', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let accessToken: string
+
+    const putJson = (path: string, body: any) => app.request(path, {
+        method: 'PUT',
+        headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    }, env)
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        await registerUser(env, { email: 'profile@example.com', masterPasswordHash: 'profileHash', key: 'profileKey' })
+        accessToken = (await (await login(env, 'profile@example.com', 'profileHash')).json() as any).access_token
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('updates name and culture', async () => {
+        const before = JSON.parse((await env.DB.get('user:profile@example.com'))!).updatedAt
+
+        const res = await putJson('/api/accounts/profile', { name: 'Ada Lovelace', culture: 'fr-FR' })
+        expect(res.status).toBe(200)
+        const profile = await res.json() as any
+        expect(profile).toMatchObject({ name: 'Ada Lovelace', culture: 'fr-FR', object: 'profile' })
+
+        const after = await (await app.request('/api/accounts/revision-date', {
+            headers: { 'Authorization': `Bearer ${accessToken}` }
+        }, env)).json() as string
+        expect(after).not.toBe(before)
+
+        expect((await putJson('/api/accounts/profile', { name: 'x'.repeat(51) })).status).toBe(400)
+    })
+
+    it('sets and resets the avatar color', async () => {
+        const res = await putJson('/api/accounts/avatar', { avatarColor: '#1a2b3c' })
+        expect(res.status).toBe(200)
+
+        const syncRes = await app.request('/api/sync', { headers: { 'Authorization': `Bearer ${accessToken}` } }, env)
+        expect((await syncRes.json() as any).profile.avatarColor).toBe('#1a2b3c')
 
-            expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.name).toBe('Updated Name')
-            expect(data.login.username).toBe('newuser')
-        })
+        expect((await putJson('/api/accounts/avatar', { avatarColor: 'red' })).status).toBe(400)
 
-        it('soft deletes a cipher (move to trash)', async () => {
-            // Create
-            const createRes = await app.request('/api/ciphers', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ type: 1, name: 'ToTrash', login: {} })
-            }, env)
-            const created = await createRes.json() as any
+        const reset = await putJson('/api/accounts/avatar', { avatarColor: null })
+        expect((await reset.json() as any).avatarColor).toBeNull()
+    })
 
-            // Soft delete
-            const res = await app.request(`/api/ciphers/${created.id}/delete`, {
-                method: 'PUT',
-                headers: { 'Authorization': `Bearer ${accessToken}` }
-            }, env)
+    it('pushes a settings sync to other devices', async () => {
+        const fetchMock = vi.fn(async (url: string) => url.endsWith('/connect/token')
+            ? new Response(JSON.stringify({ access_token: 'relay-token', expires_in: 3600 }))
+            : new Response('{}'))
+        vi.stubGlobal('fetch', fetchMock)
+        Object.assign(env, { PUSH_ENABLED: 'true', PUSH_INSTALLATION_ID: 'install-id', PUSH_INSTALLATION_KEY: 'install-key' })
 
-            expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.deletedDate).toBeDefined()
-            expect(data.deletedDate).not.toBeNull()
+        await putJson('/api/accounts/avatar', { avatarColor: '#000000' })
+
+        await vi.waitFor(() => {
+            const send = fetchMock.mock.calls.find(([url]) => url.endsWith('/push/send')) as any
+            expect(JSON.parse(send[1].body).type).toBe(10)
         })
+    })
+})
 
-        it('restores a cipher from trash', async () => {
-            // Create
-            const createRes = await app.request('/api/ciphers', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ type: 1, name: 'ToRestore', login: {} })
-            }, env)
-            const created = await createRes.json() as any
+// =============================================================================
+// Account Security Integration Tests
+// =============================================================================
 
-            // Soft delete first
-            await app.request(`/api/ciphers/${created.id}/delete`, {
-                method: 'PUT',
-                headers: { 'Authorization': `Bearer ${accessToken}` }
-            }, env)
+describe('Integration: Account Security', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let tokens: any
 
-            // Restore
-            const res = await app.request(`/api/ciphers/${created.id}/restore`, {
-                method: 'PUT',
-                headers: { 'Authorization': `Bearer ${accessToken}` }
-            }, env)
+    const postJson = (path: string, body: any) => app.request(path, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${tokens.access_token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    }, env)
 
-            expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.deletedDate).toBeNull()
-        })
+    beforeEach(async () => {
+        env = createTestEnv()
+        await registerUser(env, { email: 'stamp@example.com', masterPasswordHash: 'stampHash', key: 'stampKey' })
+        tokens = await (await login(env, 'stamp@example.com', 'stampHash', {
+            deviceIdentifier: 'stamp-phone',
+            deviceName: 'Phone',
+            deviceType: '0'
+        })).json()
+    })
 
-        it('returns 401 without authorization', async () => {
-            const res = await app.request('/api/ciphers', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ type: 1, name: 'Unauth' })
-            }, env)
+    it('verifies the master password', async () => {
+        expect((await postJson('/api/accounts/verify-password', { masterPasswordHash: 'stampHash' })).status).toBe(200)
 
-            expect(res.status).toBe(401)
-        })
+        const res = await postJson('/api/accounts/verify-password', { masterPasswordHash: 'wrongHash' })
+        expect(res.status).toBe(400)
+        expect((await res.json() as any).message).toBe('Invalid password.')
     })
 
-    describe('Folder CRUD', () => {
-        it('creates a folder', async () => {
-            const res = await app.request('/api/folders', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ name: 'Work' })
-            }, env)
+    it('locks out master password guesses with a stolen token', async () => {
+        for (let i = 0; i < 4; i++) {
+            await postJson('/api/accounts/verify-password', { masterPasswordHash: 'wrongHash' })
+        }
+        expect((await postJson('/api/accounts/verify-password', { masterPasswordHash: 'stampHash' })).status).toBe(429)
+        expect((await postJson('/api/accounts/api-key', { masterPasswordHash: 'stampHash' })).status).toBe(429)
+    })
 
-            expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.id).toBeDefined()
-            expect(data.name).toBe('Work')
-            expect(data.object).toBe('folder')
-            expect(data.revisionDate).toBeDefined()
-        })
+    it('deauthorizes every session and clears push registrations', async () => {
+        const cli = await (await login(env, 'stamp@example.com', 'stampHash')).json() as any
+        const cliSession = decode(cli.refresh_token).payload.sid
+        const device = JSON.parse((await env.DB.get('device:stamp-phone'))!)
+        await env.DB.put('device:stamp-phone', JSON.stringify({ ...device, pushToken: 'fcm-token', pushUuid: 'push-uuid' }))
 
-        it('creates folder with PascalCase Name field', async () => {
-            const res = await app.request('/api/folders', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ Name: 'Personal' })
-            }, env)
+        expect((await postJson('/api/accounts/security-stamp', { masterPasswordHash: 'wrongHash' })).status).toBe(400)
 
-            expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.name).toBe('Personal')
-        })
+        const res = await postJson('/api/accounts/security-stamp', { masterPasswordHash: 'stampHash' })
+        expect(res.status).toBe(200)
 
-        it('gets a folder by ID', async () => {
-            const createRes = await app.request('/api/folders', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ name: 'GetTest' })
-            }, env)
-            const created = await createRes.json() as any
+        const syncRes = await app.request('/api/sync', { headers: { 'Authorization': `Bearer ${tokens.access_token}` } }, env)
+        expect(syncRes.status).toBe(401)
 
-            const res = await app.request(`/api/folders/${created.id}`, {
-                method: 'GET',
-                headers: { 'Authorization': `Bearer ${accessToken}` }
-            }, env)
+        const refreshRes = await app.request('/identity/connect/token', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: tokens.refresh_token }).toString()
+        }, env)
+        expect(refreshRes.status).toBe(400)
 
-            expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.id).toBe(created.id)
-            expect(data.name).toBe('GetTest')
-        })
+        const cleared = JSON.parse((await env.DB.get('device:stamp-phone'))!)
+        expect(cleared.pushToken).toBeUndefined()
+        expect(cleared.pushUuid).toBeUndefined()
+        expect(await env.DB.get(`refresh_session:${cliSession}`)).toBeNull()
+        expect(await env.DB.get(`session_index:${decode(tokens.access_token).payload.sub}`)).toBeNull()
 
-        it('updates a folder', async () => {
-            const createRes = await app.request('/api/folders', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ name: 'OldName' })
-            }, env)
-            const created = await createRes.json() as any
+        expect((await login(env, 'stamp@example.com', 'stampHash')).status).toBe(200)
+    })
+})
 
-            const res = await app.request(`/api/folders/${created.id}`, {
-                method: 'PUT',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ name: 'NewName' })
-            }, env)
+// =============================================================================
+// Account Deletion Integration Tests
+// =============================================================================
 
-            expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.name).toBe('NewName')
-        })
+describe('Integration: Account Deletion', () => {
+    let env: ReturnType<typeof createTestEnv>
+    let accessToken: string
+    let userId: string
 
-        it('deletes a folder', async () => {
-            const createRes = await app.request('/api/folders', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ name: 'ToDelete' })
-            }, env)
-            const created = await createRes.json() as any
+    const postJson = (path: string, body: any, method = 'POST') => app.request(path, {
+        method,
+        headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    }, env)
 
-            const res = await app.request(`/api/folders/${created.id}`, {
-                method: 'DELETE',
-                headers: { 'Authorization': `Bearer ${accessToken}` }
-            }, env)
+    // The delete link is logged when no mail provider is configured
+    const requestDeleteLink = async (email: string) => {
+        const log = vi.spyOn(console, 'log')
+        const res = await postJson('/api/accounts/delete-recover', { email })
+        expect(res.status).toBe(200)
+        const line = log.mock.calls.map(args => String(args[0])).find(l => l.includes('verify-recover-delete'))
+        log.mockRestore()
+        if (!line) return null
+        const params = new URL(line.slice(line.indexOf('http')).replace('/#/', '/')).searchParams
+        return { userId: params.get('userId')!, token: params.get('token')! }
+    }
 
-            expect(res.status).toBe(200)
+    const expectErased = async () => {
+        expect(await env.DB.get('user:leaver@example.com')).toBeNull()
+        expect(await env.DB.get(`vault_index:${userId}`)).toBeNull()
+        expect(await env.DB.get(`device_index:${userId}`)).toBeNull()
+        expect(await env.DB.get(`session_index:${userId}`)).toBeNull()
+        expect(await env.DB.get('device:leaver-laptop')).toBeNull()
+        expect((await env.VAULT.list({ prefix: `vaults/${userId}/` })).objects).toHaveLength(0)
+        expect((await login(env, 'leaver@example.com', 'leaverHash')).status).toBe(400)
+    }
+
+    beforeEach(async () => {
+        env = createTestEnv()
+        userId = (await (await registerUser(env, {
+            email: 'leaver@example.com',
+            masterPasswordHash: 'leaverHash',
+            key: 'leaverKey'
+        })).json() as any).id
+
+        const loginRes = await login(env, 'leaver@example.com', 'leaverHash', {
+            deviceIdentifier: 'leaver-laptop',
+            deviceName: 'Laptop',
+            deviceType: '8'
         })
+        accessToken = (await loginRes.json() as any).access_token
 
-        it('rejects folder without name', async () => {
-            const res = await app.request('/api/folders', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({})
-            }, env)
+        await postJson('/api/folders', { name: 'Work' })
+        await postJson('/api/ciphers', { type: 2, name: 'Note', secureNote: { type: 0 } })
+    })
 
-            expect(res.status).toBe(400)
-        })
+    it('deletes the account and all its data with the master password', async () => {
+        expect(await env.DB.get('device:leaver-laptop')).not.toBeNull()
+        const cli = await (await login(env, 'leaver@example.com', 'leaverHash')).json() as any
+        const cliSession = decode(cli.refresh_token).payload.sid
+
+        expect((await postJson('/api/accounts', { masterPasswordHash: 'wrongHash' }, 'DELETE')).status).toBe(400)
+        expect(await env.DB.get('user:leaver@example.com')).not.toBeNull()
+
+        const leftovers = [
+            `email_code:${userId}`, `device_otp:${userId}`, `webauthn_challenge:${userId}`, `webauthn_register:${userId}`,
+            'ratelimit:login:leaver@example.com', 'ratelimit:mail:leaver@example.com'
+        ]
+        const state = JSON.stringify({ attempts: 1, lastAttemptAt: Date.now(), blockedUntil: 0, locked: false })
+        for (const key of leftovers) await env.DB.put(key, state)
+
+        const res = await postJson('/api/accounts', { masterPasswordHash: 'leaverHash' }, 'DELETE')
+        expect(res.status).toBe(200)
+        for (const key of leftovers) expect(await env.DB.get(key)).toBeNull()
+        expect(await env.DB.get(`refresh_session:${cliSession}`)).toBeNull()
+        expect(await env.DB.get(`storage_usage:${userId}`)).toBeNull()
+        await expectErased()
     })
 
-    describe('Import', () => {
-        it('imports multiple ciphers and folders', async () => {
-            const res = await app.request('/api/ciphers/import', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    ciphers: [
-                        { type: 1, name: 'Login 1', login: { username: 'u1' } },
-                        { type: 2, name: 'Note 1', secureNote: { type: 0 } },
-                        { type: 3, name: 'Card 1', card: { number: '4111' } }
-                    ],
-                    folders: [
-                        { name: 'Folder A' },
-                        { name: 'Folder B' }
-                    ]
-                })
-            }, env)
+    it('accepts POST /api/accounts/delete', async () => {
+        const res = await postJson('/api/accounts/delete', { masterPasswordHash: 'leaverHash' })
+        expect(res.status).toBe(200)
+        await expectErased()
+    })
 
-            expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.success).toBe(true)
-            expect(data.ciphers).toHaveLength(3)
-            expect(data.folders).toHaveLength(2)
+    it('deletes the account through the emailed recover link', async () => {
+        const link = await requestDeleteLink('leaver@example.com')
+        expect(link?.userId).toBe(userId)
 
-            // Verify each cipher has required fields
-            for (const cipher of data.ciphers) {
-                expect(cipher.id).toBeDefined()
-                expect(cipher.revisionDate).toBeDefined()
-                expect(cipher.object).toBe('cipher')
-            }
-        })
+        expect((await postJson('/api/accounts/delete-recover-token', { userId: 'someone-else', token: link!.token })).status).toBe(400)
 
-        it('handles PascalCase import fields', async () => {
-            const res = await app.request('/api/ciphers/import', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    Ciphers: [
-                        { Type: 1, Name: 'PascalLogin', Login: { Username: 'pu' } }
-                    ],
-                    Folders: [
-                        { Name: 'PascalFolder' }
-                    ]
-                })
-            }, env)
+        const res = await postJson('/api/accounts/delete-recover-token', link)
+        expect(res.status).toBe(200)
+        await expectErased()
 
-            expect(res.status).toBe(200)
-            const data = await res.json() as any
-            expect(data.success).toBe(true)
+        expect((await postJson('/api/accounts/delete-recover-token', link)).status).toBe(400)
+    })
+
+    it('does not reveal whether an account exists', async () => {
+        expect(await requestDeleteLink('nobody@example.com')).toBeNull()
+    })
+
+    it('invalidates the recover link when the security stamp changes', async () => {
+        const link = await requestDeleteLink('leaver@example.com')
+
+        await postJson('/api/accounts/password', {
+            masterPasswordHash: 'leaverHash',
+            newMasterPasswordHash: 'newLeaverHash',
+            key: 'newLeaverKey'
         })
+
+        expect((await postJson('/api/accounts/delete-recover-token', link)).status).toBe(400)
+        expect(await env.DB.get('user:leaver@example.com')).not.toBeNull()
     })
 })
 
@@ -1226,8 +4191,6 @@ describe('Integration: Config & Stubs', () => {
 
     describe('Stubs', () => {
         const stubCases = [
-            { path: '/api/devices/knowndevice', method: 'GET' },
-            { path: '/api/two-factor', method: 'GET' },
             { path: '/api/emergency-access/trusted', method: 'GET' },
             { path: '/api/emergency-access/granted', method: 'GET' },
             { path: '/notifications/hub', method: 'GET' },
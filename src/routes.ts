@@ -7,7 +7,7 @@
 
 import { Hono } from 'hono'
 import type { Bindings } from './types'
-import { protected_ } from './utils/auth'
+import { protected_, adminOnly } from './utils/auth'
 
 // Import handlers from api modules
 import * as auth from './api/auth'
@@ -16,6 +16,13 @@ import * as ciphers from './api/ciphers'
 import * as folders from './api/folders'
 import * as config from './api/config'
 import * as devices from './api/devices'
+import * as twoFactor from './api/two-factor'
+import * as authRequests from './api/auth-requests'
+import * as keyManagement from './api/key-management'
+import * as accounts from './api/accounts'
+import * as admin from './api/admin'
+import * as sso from './api/sso'
+import * as attachments from './api/attachments'
 
 export const registerRoutes = (app: Hono<{ Bindings: Bindings }>) => {
     // ==========================================================================
@@ -47,16 +54,83 @@ export const registerRoutes = (app: Hono<{ Bindings: Bindings }>) => {
     // Auth - Password
     // ==========================================================================
     app.post('/api/accounts/password', protected_, auth.handlePasswordChange)
+    app.post('/api/accounts/kdf', protected_, auth.handleKdfChange)
+    app.post('/api/accounts/set-password', protected_, auth.handleSetPassword)
+
+    // ==========================================================================
+    // Auth - Key Rotation
+    // ==========================================================================
+    app.post('/api/accounts/key-management/rotate-user-account-keys', protected_, keyManagement.handleRotateUserAccountKeys)
+    app.post('/api/accounts/key', protected_, keyManagement.handleUpdateKey)
+
+    // ==========================================================================
+    // Account Security
+    // ==========================================================================
+    app.post('/api/accounts/verify-password', protected_, accounts.handleVerifyPassword)
+    app.post('/api/accounts/security-stamp', protected_, accounts.handleSecurityStamp)
+
+    // ==========================================================================
+    // Account Deletion
+    // ==========================================================================
+    app.delete('/api/accounts', protected_, accounts.handleDelete)
+    app.post('/api/accounts/delete', protected_, accounts.handleDelete)
+    app.post('/api/accounts/delete-recover', accounts.handleDeleteRecover)
+    app.post('/api/accounts/delete-recover-token', accounts.handleDeleteRecoverToken)
+
+    // ==========================================================================
+    // Auth - API Key
+    // ==========================================================================
+    app.post('/api/accounts/api-key', protected_, auth.handleApiKey)
+    app.post('/api/accounts/rotate-api-key', protected_, auth.handleRotateApiKey)
 
     // ==========================================================================
     // Auth - Token
     // ==========================================================================
     app.post('/identity/connect/token', auth.handleToken)
 
+    // ==========================================================================
+    // Auth - SSO (OpenID Connect)
+    // ==========================================================================
+    app.get('/api/sso/prevalidate', sso.handlePrevalidate)
+    app.get('/identity/connect/authorize', sso.handleAuthorize)
+    app.get('/identity/connect/oidc-signin', sso.handleOidcSignin)
+
+    // ==========================================================================
+    // Two-Factor
+    // ==========================================================================
+    app.get('/api/two-factor', protected_, twoFactor.handleList)
+    app.post('/api/two-factor/get-authenticator', protected_, twoFactor.handleGetAuthenticator)
+    app.on(['PUT', 'POST'], '/api/two-factor/authenticator', protected_, twoFactor.handleEnableAuthenticator)
+    app.delete('/api/two-factor/authenticator', protected_, twoFactor.handleDisableAuthenticator)
+    app.post('/api/two-factor/get-email', protected_, twoFactor.handleGetEmail)
+    app.post('/api/two-factor/send-email', protected_, twoFactor.handleSendEmail)
+    app.on(['PUT', 'POST'], '/api/two-factor/email', protected_, twoFactor.handleEnableEmail)
+    app.delete('/api/two-factor/email', protected_, twoFactor.handleDisableEmail)
+    app.post('/api/two-factor/send-email-login', twoFactor.handleSendEmailLogin)
+    app.post('/api/two-factor/get-webauthn', protected_, twoFactor.handleGetWebAuthn)
+    app.post('/api/two-factor/get-webauthn-challenge', protected_, twoFactor.handleGetWebAuthnChallenge)
+    app.on(['PUT', 'POST'], '/api/two-factor/webauthn', protected_, twoFactor.handlePutWebAuthn)
+    app.delete('/api/two-factor/webauthn', protected_, twoFactor.handleDeleteWebAuthn)
+    app.on(['PUT', 'POST'], '/api/two-factor/disable', protected_, twoFactor.handleDisable)
+    app.post('/api/two-factor/get-recover', protected_, twoFactor.handleGetRecover)
+    app.post('/api/two-factor/recover', twoFactor.handleRecover)
+    app.post('/identity/accounts/recover-2fa', twoFactor.handleRecover)
+
+    // ==========================================================================
+    // Auth Requests (login with device)
+    // ==========================================================================
+    app.post('/api/auth-requests', authRequests.handleCreate)
+    app.get('/api/auth-requests', protected_, authRequests.handleList)
+    app.get('/api/auth-requests/:id', protected_, authRequests.handleGet)
+    app.put('/api/auth-requests/:id', protected_, authRequests.handleUpdate)
+    app.get('/api/auth-requests/:id/response', authRequests.handleResponse)
+
     // ==========================================================================
     // Sync
     // ==========================================================================
     app.get('/api/accounts/profile', protected_, sync.handleProfile)
+    app.on(['PUT', 'POST'], '/api/accounts/profile', protected_, sync.handleUpdateProfile)
+    app.on(['PUT', 'POST'], '/api/accounts/avatar', protected_, sync.handleUpdateAvatar)
     app.get('/api/accounts/revision-date', protected_, sync.handleRevisionDate)
     app.get('/api/sync', protected_, sync.handleSync)
 
@@ -65,12 +139,29 @@ export const registerRoutes = (app: Hono<{ Bindings: Bindings }>) => {
     // ==========================================================================
     app.post('/api/ciphers', protected_, ciphers.handleCreate)
     app.post('/api/ciphers/import', protected_, ciphers.handleImport)
+    // Bulk actions, registered before the :id routes they would otherwise match
+    app.on(['PUT', 'POST'], '/api/ciphers/move', protected_, ciphers.handleMoveMany)
+    app.put('/api/ciphers/delete', protected_, ciphers.handleSoftDeleteMany)
+    app.put('/api/ciphers/restore', protected_, ciphers.handleRestoreMany)
+    app.delete('/api/ciphers', protected_, ciphers.handleDeleteMany)
+    app.post('/api/ciphers/delete', protected_, ciphers.handleDeleteMany)
+    app.post('/api/ciphers/purge', protected_, ciphers.handlePurge)
     app.get('/api/ciphers/:id', protected_, ciphers.handleGet)
     app.put('/api/ciphers/:id', protected_, ciphers.handleUpdate)
     app.delete('/api/ciphers/:id', protected_, ciphers.handleDelete)
     app.put('/api/ciphers/:id/delete', protected_, ciphers.handleSoftDelete)
     app.put('/api/ciphers/:id/restore', protected_, ciphers.handleRestore)
 
+    // ==========================================================================
+    // Attachments
+    // ==========================================================================
+    app.post('/api/ciphers/:id/attachment/v2', protected_, attachments.handleCreate)
+    app.post('/api/ciphers/:id/attachment/:attachmentId', protected_, attachments.handleUpload)
+    app.get('/api/ciphers/:id/attachment/:attachmentId', protected_, attachments.handleGet)
+    app.delete('/api/ciphers/:id/attachment/:attachmentId', protected_, attachments.handleDelete)
+    app.post('/api/ciphers/:id/attachment/:attachmentId/delete', protected_, attachments.handleDelete)
+    app.get('/attachments/:cipherId/:attachmentId', attachments.handleDownload)
+
     // ==========================================================================
     // Folders
     // ==========================================================================
@@ -87,13 +178,14 @@ export const registerRoutes = (app: Hono<{ Bindings: Bindings }>) => {
     app.delete('/api/devices/:id', protected_, devices.handleDelete)
     app.put('/api/devices/identifier/:identifier/token', protected_, devices.handleUpdateToken)
     app.put('/api/devices/identifier/:identifier/clear-token', protected_, devices.handleClearToken)
+    app.on(['PUT', 'POST'], '/api/devices/:identifier/keys', protected_, devices.handleUpdateKeys)
+    app.post('/api/devices/untrust', protected_, devices.handleUntrust)
 
     // ==========================================================================
     // Config
     // ==========================================================================
     app.get('/api/config', config.handleConfig)
     app.get('/api/accounts/features', config.handleFeatures)
-    app.get('/api/two-factor', config.handleTwoFactor)
     app.post('/api/accounts/password-hint', config.handlePasswordHint)
     app.get('/api/organizations/*/policies/token', config.handleOrganizationPolicies)
     app.get('/notifications/hub', config.handleNotificationsHub)
@@ -102,11 +194,23 @@ export const registerRoutes = (app: Hono<{ Bindings: Bindings }>) => {
     app.get('/api/emergency-access/granted', config.handleEmergencyAccessGranted)
     app.get('/icons/:domain/icon.png', config.handleIcon)
 
+    // ==========================================================================
+    // Discovery (JWT signing keys)
+    // ==========================================================================
+    app.get('/.well-known/jwks', config.handleJwks)
+    app.get('/.well-known/openid-configuration', config.handleOpenIdConfiguration)
+    app.get('/identity/.well-known/openid-configuration', config.handleOpenIdConfiguration)
+
+    // ==========================================================================
+    // Admin (ADMIN_TOKEN)
+    // ==========================================================================
+    app.post('/admin/invites', adminOnly, admin.handleCreateInvite)
+    app.delete('/admin/invites/:email', adminOnly, admin.handleDeleteInvite)
+
     // ==========================================================================
     // Settings (Protected)
     // ==========================================================================
     app.get('/api/settings/domains', protected_, config.handleGetDomains)
     app.on(['PUT', 'POST'], '/api/settings/domains', protected_, config.handleUpdateDomains)
     app.post('/api/accounts/keys', protected_, config.handleKeys)
-    app.post('/api/accounts/key', protected_, config.handleKey)
 }
@@ -24,6 +24,11 @@ export interface IBlobStorage {
     put(key: string, body: string | ArrayBuffer | ReadableStream, options?: BlobPutOptions): Promise<void>
     delete(key: string): Promise<void>
     list(options?: { prefix?: string }): Promise<{ objects: { key: string }[] }>
+    /**
+     * Optional: URL the object can be fetched from without credentials for
+     * expiresIn seconds, or null if presigning is unavailable.
+     */
+    presignGet?(key: string, expiresIn: number): Promise<string | null>
 }
 
 export interface IBlobObject {
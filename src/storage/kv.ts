@@ -4,10 +4,13 @@
  * Handles all KV operations for user data and vault indices.
  * Keys:
  *   user:{email}         -> UserData JSON
+ *   user_id:{userId}     -> email (only for users with an API key)
  *   vault_index:{userId} -> VaultIndex JSON
+ *   storage_usage:{userId} -> StorageUsage JSON
+ *   invite:{email}       -> Invite JSON
  */
 
-import type { UserData, VaultIndex, Device } from '../types'
+import type { UserData, VaultIndex, StorageUsage, Device, AuthRequest, RefreshSession, Invite } from '../types'
 import type { IKVStorage } from './interfaces'
 
 // --------------------------------------------------------------------------
@@ -27,7 +30,22 @@ export const putUser = async (kv: IKVStorage, user: UserData): Promise<void> =>
 export const deleteUser = async (kv: IKVStorage, user: UserData): Promise<void> => {
     const email = user.email.toLowerCase()
     await kv.delete(`user:${email}`)
+    await kv.delete(`user_id:${user.id}`)
     await kv.delete(`vault_index:${user.id}`)
+    await kv.delete(`storage_usage:${user.id}`)
+    await kv.delete(`device_index:${user.id}`)
+    await kv.delete(`auth_request_index:${user.id}`)
+}
+
+/** Lookup by ID, for API key logins where the client only sends user.{id} */
+export const getUserById = async (kv: IKVStorage, userId: string): Promise<UserData | null> => {
+    const email = await kv.get(`user_id:${userId}`)
+    if (!email) return null
+    return getUser(kv, email)
+}
+
+export const putUserIdIndex = async (kv: IKVStorage, user: UserData): Promise<void> => {
+    await kv.put(`user_id:${user.id}`, user.email.toLowerCase())
 }
 
 // --------------------------------------------------------------------------
@@ -85,6 +103,21 @@ export const removeFolderFromIndex = async (kv: IKVStorage, userId: string, fold
     }
 }
 
+// --------------------------------------------------------------------------
+// Storage Usage Operations
+// --------------------------------------------------------------------------
+
+/** Stored counters, or null if they were never computed for this user */
+export const getStorageUsage = async (kv: IKVStorage, userId: string): Promise<StorageUsage | null> => {
+    const json = await kv.get(`storage_usage:${userId}`)
+    if (!json) return null
+    return JSON.parse(json) as StorageUsage
+}
+
+export const putStorageUsage = async (kv: IKVStorage, userId: string, usage: StorageUsage): Promise<void> => {
+    await kv.put(`storage_usage:${userId}`, JSON.stringify(usage))
+}
+
 // --------------------------------------------------------------------------
 // Device Operations (for push notifications)
 // Keys: device:{identifier} -> Device JSON
@@ -112,6 +145,11 @@ export const getDevicesByUser = async (kv: IKVStorage, userId: string): Promise<
     return devices
 }
 
+export const getDeviceIdentifiers = async (kv: IKVStorage, userId: string): Promise<string[]> => {
+    const indexJson = await kv.get(`device_index:${userId}`)
+    return indexJson ? JSON.parse(indexJson) : []
+}
+
 export const putDevice = async (kv: IKVStorage, device: Device): Promise<void> => {
     await kv.put(`device:${device.identifier}`, JSON.stringify(device))
 
@@ -139,3 +177,127 @@ export const deleteDevice = async (kv: IKVStorage, device: Device): Promise<void
         }
     }
 }
+
+// --------------------------------------------------------------------------
+// Refresh Session Operations
+// Keys: refresh_session:{id} -> RefreshSession JSON
+//       session_index:{userId} -> string[] of session IDs
+// --------------------------------------------------------------------------
+
+export const getRefreshSession = async (kv: IKVStorage, id: string): Promise<RefreshSession | null> => {
+    const json = await kv.get(`refresh_session:${id}`)
+    if (!json) return null
+    return JSON.parse(json) as RefreshSession
+}
+
+export const putRefreshSession = async (kv: IKVStorage, session: RefreshSession): Promise<void> => {
+    await kv.put(`refresh_session:${session.id}`, JSON.stringify(session))
+
+    // Update user's session index
+    const indexJson = await kv.get(`session_index:${session.userId}`)
+    const ids: string[] = indexJson ? JSON.parse(indexJson) : []
+
+    if (!ids.includes(session.id)) {
+        ids.push(session.id)
+        await kv.put(`session_index:${session.userId}`, JSON.stringify(ids))
+    }
+}
+
+export const deleteRefreshSession = async (kv: IKVStorage, userId: string, id: string): Promise<void> => {
+    await kv.delete(`refresh_session:${id}`)
+
+    // Update user's session index
+    const indexJson = await kv.get(`session_index:${userId}`)
+    if (indexJson) {
+        const ids: string[] = JSON.parse(indexJson)
+        const i = ids.indexOf(id)
+        if (i !== -1) {
+            ids.splice(i, 1)
+            await kv.put(`session_index:${userId}`, JSON.stringify(ids))
+        }
+    }
+}
+
+/** Ends every refresh session of a user, including ones not tied to a device */
+export const deleteRefreshSessionsByUser = async (kv: IKVStorage, userId: string): Promise<void> => {
+    const indexJson = await kv.get(`session_index:${userId}`)
+    if (!indexJson) return
+
+    const ids: string[] = JSON.parse(indexJson)
+    for (const id of ids) {
+        await kv.delete(`refresh_session:${id}`)
+    }
+    await kv.delete(`session_index:${userId}`)
+}
+
+// --------------------------------------------------------------------------
+// Auth Request Operations (login with device)
+// Keys: auth_request:{id} -> AuthRequest JSON
+//       auth_request_index:{userId} -> string[] of auth request IDs
+// --------------------------------------------------------------------------
+
+export const getAuthRequest = async (kv: IKVStorage, id: string): Promise<AuthRequest | null> => {
+    const json = await kv.get(`auth_request:${id}`)
+    if (!json) return null
+    return JSON.parse(json) as AuthRequest
+}
+
+export const getAuthRequestsByUser = async (kv: IKVStorage, userId: string): Promise<AuthRequest[]> => {
+    const indexJson = await kv.get(`auth_request_index:${userId}`)
+    if (!indexJson) return []
+
+    const ids: string[] = JSON.parse(indexJson)
+    const requests: AuthRequest[] = []
+
+    for (const id of ids) {
+        const request = await getAuthRequest(kv, id)
+        if (request) requests.push(request)
+    }
+
+    return requests
+}
+
+export const putAuthRequest = async (kv: IKVStorage, request: AuthRequest): Promise<void> => {
+    await kv.put(`auth_request:${request.id}`, JSON.stringify(request))
+
+    const indexJson = await kv.get(`auth_request_index:${request.userId}`)
+    const ids: string[] = indexJson ? JSON.parse(indexJson) : []
+
+    if (!ids.includes(request.id)) {
+        ids.push(request.id)
+        await kv.put(`auth_request_index:${request.userId}`, JSON.stringify(ids))
+    }
+}
+
+export const deleteAuthRequests = async (kv: IKVStorage, userId: string, ids: string[]): Promise<void> => {
+    if (ids.length === 0) return
+
+    for (const id of ids) {
+        await kv.delete(`auth_request:${id}`)
+    }
+
+    const indexJson = await kv.get(`auth_request_index:${userId}`)
+    if (indexJson) {
+        const remaining = (JSON.parse(indexJson) as string[]).filter(id => !ids.includes(id))
+        await kv.put(`auth_request_index:${userId}`, JSON.stringify(remaining))
+    }
+}
+
+// --------------------------------------------------------------------------
+// Invite Operations (invite-only signups)
+// Keys: invite:{email} -> Invite JSON
+// --------------------------------------------------------------------------
+
+export const getInvite = async (kv: IKVStorage, email: string): Promise<Invite | null> => {
+    const json = await kv.get(`invite:${email.toLowerCase()}`)
+    if (!json) return null
+    return JSON.parse(json) as Invite
+}
+
+export const putInvite = async (kv: IKVStorage, invite: Invite): Promise<void> => {
+    await kv.put(`invite:${invite.email.toLowerCase()}`, JSON.stringify(invite))
+}
+
+export const deleteInvite = async (kv: IKVStorage, email: string): Promise<void> => {
+    await kv.delete(`invite:${email.toLowerCase()}`)
+}
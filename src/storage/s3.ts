@@ -5,7 +5,7 @@
  * Object paths:
  *   vaults/{userId}/ciphers/{cipherId}.json
  *   vaults/{userId}/folders/{folderId}.json
- *   vaults/{userId}/attachments/{attachmentId}
+ *   vaults/{userId}/attachments/{cipherId}/{attachmentId}
  */
 
 import type { Cipher, Folder } from '../types'
@@ -117,6 +117,18 @@ export const deleteAttachment = async (bucket: IBlobStorage, userId: string, cip
     await bucket.delete(attachmentKey(userId, cipherId, attachmentId))
 }
 
+/** Direct download URL from the storage backend, if it can presign */
+export const getAttachmentPresignedUrl = async (
+    bucket: IBlobStorage,
+    userId: string,
+    cipherId: string,
+    attachmentId: string,
+    expiresIn: number
+): Promise<string | null> => {
+    if (!bucket.presignGet) return null
+    return bucket.presignGet(attachmentKey(userId, cipherId, attachmentId), expiresIn)
+}
+
 // Delete all attachments for a cipher
 export const deleteAllAttachments = async (bucket: IBlobStorage, userId: string, cipherId: string): Promise<void> => {
     const prefix = `vaults/${userId}/attachments/${cipherId}/`
@@ -5,7 +5,9 @@ import type { IKVStorage, IBlobStorage } from './storage/interfaces'
 export interface Bindings {
   DB: IKVStorage
   VAULT: IBlobStorage
-  JWT_SECRET: string
+  // JWT signing: JSON array of private JWKs (first one signs), and/or a secret to derive a key from
+  JWT_SIGNING_KEYS?: string
+  JWT_SECRET?: string
   // Push notification config (optional)
   PUSH_ENABLED?: string
   PUSH_INSTALLATION_ID?: string
@@ -15,6 +17,23 @@ export interface Bindings {
   // Email config (optional)
   RESEND_API_KEY?: string
   MAIL_FROM?: string
+  // Server-side PBKDF2 iterations for master password hashes (optional)
+  PASSWORD_ITERATIONS?: string
+  // Signup policy (optional): 'open' (default), 'domains' or 'invite'
+  SIGNUP_MODE?: string
+  SIGNUP_DOMAINS?: string  // Comma-separated, e.g. "ourcompany.com,example.org"
+  // "true" when a proxy in front sets X-Forwarded-For / X-Real-IP (optional)
+  TRUSTED_PROXY?: string
+  // Bearer token for /admin endpoints (optional, admin API disabled without it)
+  ADMIN_TOKEN?: string
+  // OpenID Connect SSO (optional, disabled without an authority and client ID)
+  SSO_AUTHORITY?: string      // IdP issuer URL, e.g. "https://login.ourcompany.com/realms/staff"
+  SSO_CLIENT_ID?: string
+  SSO_CLIENT_SECRET?: string
+  SSO_SCOPES?: string         // Defaults to "openid email profile"
+  // Per-user storage limits (optional), "0" for no limit
+  STORAGE_QUOTA_MB?: string   // Unset or "0" for no limit
+  ITEM_QUOTA?: string         // Ciphers plus folders, unset or "0" for no limit
 }
 
 // Bitwarden device types
@@ -45,14 +64,94 @@ export interface Device {
   identifier: string  // Unique device identifier from client
   pushToken?: string  // FCM/APNS token
   pushUuid?: string   // UUID from Bitwarden push service registration
+  twoFactorRemember?: {
+    tokenHash: string  // SHA-256 hex of the "remember this device" token
+    expiresAt: string
+  }
+  sessionId?: string  // Current refresh session for this device
+  // Trusted device encryption: the user key wrapped for this device
+  encryptedUserKey?: string     // User key encrypted with the device public key
+  encryptedPublicKey?: string   // Device public key encrypted with the user key
+  encryptedPrivateKey?: string  // Device private key encrypted with the device key, held by the device
   createdAt: string
   updatedAt: string
 }
 
+// Server-side refresh token session (stored in KV), one per login
+export interface RefreshSession {
+  id: string
+  userId: string
+  deviceIdentifier: string | null
+  tokenId: string  // jti of the only refresh token currently accepted
+  createdAt: string
+  expiresAt: string
+}
+
+// Bitwarden auth request types (login with device)
+export const AUTH_REQUEST_AUTHENTICATE_AND_UNLOCK = 0
+export const AUTH_REQUEST_UNLOCK = 1
+
+// Pending "log in with device" request (stored in KV)
+export interface AuthRequest {
+  id: string
+  userId: string
+  type: number
+  requestDeviceIdentifier: string
+  requestDeviceType: number
+  requestIpAddress: string | null
+  accessCode: string  // Shown on the requesting device, proves it made the request
+  publicKey: string   // Requesting device's key, used to wrap the user key on approval
+  key: string | null  // User key encrypted to publicKey, set on approval
+  masterPasswordHash: string | null
+  approved: boolean | null
+  responseDeviceIdentifier: string | null
+  creationDate: string
+  responseDate: string | null
+  authenticationDate: string | null  // Set once the approval has been used to log in
+}
+
+// Admin-issued signup invite (stored in KV), one per email, used once
+export interface Invite {
+  id: string
+  email: string
+  createdAt: string
+  expiresAt: string
+}
+
 // Bitwarden KDF types
 export const KDF_PBKDF2 = 0
 export const KDF_ARGON2 = 1
 
+// Bitwarden two-factor provider types
+export const TWO_FACTOR_AUTHENTICATOR = 0
+export const TWO_FACTOR_EMAIL = 1
+export const TWO_FACTOR_REMEMBER = 5
+export const TWO_FACTOR_WEBAUTHN = 7
+
+// Registered WebAuthn security key
+export interface WebAuthnCredential {
+  id: number               // Key slot chosen by the client (1-5)
+  name: string
+  credentialId: string     // Base64url credential ID
+  publicKey: JsonWebKey    // Credential public key, converted from COSE
+  algorithm: number        // COSE algorithm identifier (-7, -8, -257)
+  signCount: number
+  createdAt: string
+}
+
+// Two-factor settings (stored on UserData)
+export interface TwoFactorSettings {
+  authenticator?: {
+    key: string            // Base32 TOTP secret
+    lastUsedStep?: number  // Last accepted time step, rejects code replay
+  }
+  email?: {
+    email: string          // Address login codes are sent to
+  }
+  webAuthn?: WebAuthnCredential[]
+  recoveryCode?: string    // One-time code that disables all providers
+}
+
 // --------------------------------------------------------------------------
 // API Request/Response Types (accept both cases for input)
 // --------------------------------------------------------------------------
@@ -76,6 +175,8 @@ export interface FinishRegisterRequest {
   userSymmetricKey: string
   kdf?: number
   kdfIterations?: number
+  kdfMemory?: number
+  kdfParallelism?: number
   userAsymmetricKeys?: {
     publicKey: string
     encryptedPrivateKey: string
@@ -90,7 +191,8 @@ export interface FinishRegisterRequest {
 export interface UserData {
   id: string
   email: string
-  masterPasswordHash: string
+  masterPasswordHash: string  // Server-side hash, see utils/password.ts
+  passwordSalt?: string       // Per-user PBKDF2 salt (absent on legacy hashes)
   masterPasswordHint?: string
   key: string
   kdf: number
@@ -102,12 +204,17 @@ export interface UserData {
   encryptedPrivateKey?: string
   securityStamp: string
   culture: string
+  avatarColor?: string | null  // #RRGGBB, null for the default color
   emailVerified?: boolean  // True if registered via email verification flow
+  apiKey?: string  // Personal API key client secret (client_id is user.{id})
+  ssoSubject?: string  // IdP subject (sub) the account is linked to by its first SSO login
   createdAt: string
   updatedAt: string
   // Domain settings
   equivalentDomains?: string[][]  // User-defined equivalent domain groups
   excludedGlobalEquivalentDomains?: number[]  // Excluded global domain types
+  // Two-factor settings
+  twoFactor?: TwoFactorSettings
 }
 
 // --------------------------------------------------------------------------
@@ -219,6 +326,7 @@ export interface AttachmentMeta {
   sizeName: string
   key: string
   url?: string
+  pending?: boolean  // Registered, file not uploaded yet; not counted toward the quota
 }
 
 // --------------------------------------------------------------------------
@@ -231,6 +339,12 @@ export interface VaultIndex {
   revision: string
 }
 
+// Per-user usage counters (stored in KV), also used for usage deltas
+export interface StorageUsage {
+  bytes: number  // Cipher and folder JSON plus attachment files
+  items: number  // Ciphers plus folders
+}
+
 // --------------------------------------------------------------------------
 // Sync Response
 // --------------------------------------------------------------------------
@@ -262,6 +376,8 @@ export interface ProfileData {
   avatarColor?: string | null
   creationDate?: string
   verifyDevices?: boolean
+  maxStorageGb?: number | null  // null when storage is unlimited
+  storageName?: string          // Storage in use, e.g. "1.5 MB"
   organizations: any[]
   providers?: any[]
   providerOrganizations?: any[]
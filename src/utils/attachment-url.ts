@@ -0,0 +1,77 @@
+/**
+ * Attachment Download URLs
+ *
+ * Clients fetch attachment files without a bearer token, like Bitwarden's
+ * file URLs, so each URL carries its own short-lived authorization. Storage
+ * that can presign (S3-compatible backends) hands out a direct URL; otherwise
+ * the URL points at /attachments/... with an HMAC over the user, cipher,
+ * attachment and expiry.
+ */
+
+import type { Bindings, Cipher } from '../types'
+import { getAttachmentPresignedUrl } from '../storage/s3'
+import { getServerHmacKey } from './jwt'
+import { toBase64Url, fromBase64Url } from './encoding'
+
+// Clients ask for a fresh URL right before each download
+export const ATTACHMENT_URL_TTL = 5 * 60 // 5 minutes in seconds
+
+const signedPayload = (userId: string, cipherId: string, attachmentId: string, expires: number): Uint8Array => {
+    return new TextEncoder().encode(`${userId}/${cipherId}/${attachmentId}/${expires}`)
+}
+
+/** Download URL for one attachment, valid for ATTACHMENT_URL_TTL */
+export const getAttachmentUrl = async (
+    env: Bindings,
+    origin: string,
+    userId: string,
+    cipherId: string,
+    attachmentId: string
+): Promise<string> => {
+    const presigned = await getAttachmentPresignedUrl(env.VAULT, userId, cipherId, attachmentId, ATTACHMENT_URL_TTL)
+    if (presigned) return presigned
+
+    const expires = Math.floor(Date.now() / 1000) + ATTACHMENT_URL_TTL
+    const key = await getServerHmacKey(env, 'attachment-url')
+    const signature = await crypto.subtle.sign('HMAC', key, signedPayload(userId, cipherId, attachmentId, expires))
+
+    const url = new URL(`${origin}/attachments/${cipherId}/${attachmentId}`)
+    url.searchParams.set('uid', userId)
+    url.searchParams.set('expires', String(expires))
+    url.searchParams.set('signature', toBase64Url(new Uint8Array(signature)))
+    return url.toString()
+}
+
+/** Checks a download URL's signature and expiry */
+export const verifyAttachmentUrl = async (
+    env: Bindings,
+    userId: string,
+    cipherId: string,
+    attachmentId: string,
+    expires: string,
+    signature: string
+): Promise<boolean> => {
+    const expiresAt = parseInt(expires)
+    if (!userId || !signature || !(expiresAt > Math.floor(Date.now() / 1000))) return false
+
+    let signatureBytes: Uint8Array
+    try {
+        signatureBytes = fromBase64Url(signature)
+    } catch {
+        return false
+    }
+
+    const key = await getServerHmacKey(env, 'attachment-url')
+    return crypto.subtle.verify('HMAC', key, signatureBytes, signedPayload(userId, cipherId, attachmentId, expiresAt))
+}
+
+/** Cipher as sent to clients, with fresh download URLs on its attachments */
+export const withAttachmentUrls = async (env: Bindings, origin: string, userId: string, cipher: Cipher): Promise<Cipher> => {
+    if (!cipher.attachments?.length) return cipher
+
+    const attachments = await Promise.all(cipher.attachments.map(async a => ({
+        ...a,
+        url: await getAttachmentUrl(env, origin, userId, cipher.id, a.id)
+    })))
+    return { ...cipher, attachments }
+}
@@ -0,0 +1,50 @@
+/**
+ * Auth Request Utility Functions
+ *
+ * Shared by the auth request endpoints and the token endpoint, which
+ * accepts an approved request in place of the master password.
+ */
+
+import type { Bindings, AuthRequest, UserData } from '../types'
+import { AUTH_REQUEST_AUTHENTICATE_AND_UNLOCK } from '../types'
+import { getAuthRequest, putAuthRequest } from '../storage/kv'
+
+// Requests must be answered and used within 15 minutes, as in Bitwarden
+export const AUTH_REQUEST_TTL_MS = 15 * 60 * 1000
+
+export const isAuthRequestExpired = (request: AuthRequest, now = Date.now()): boolean => {
+    return now - new Date(request.creationDate).getTime() > AUTH_REQUEST_TTL_MS
+}
+
+/** Constant-time check of the access code shown on the requesting device */
+export const accessCodeMatches = (request: AuthRequest, input: string): boolean => {
+    if (!input || input.length !== request.accessCode.length) return false
+
+    let diff = 0
+    for (let i = 0; i < input.length; i++) {
+        diff |= input.charCodeAt(i) ^ request.accessCode.charCodeAt(i)
+    }
+    return diff === 0
+}
+
+/**
+ * Validates an approved login request for the token endpoint and marks it
+ * used, so each approval logs in exactly once.
+ */
+export const consumeAuthRequest = async (
+    env: Bindings,
+    user: UserData,
+    authRequestId: string,
+    accessCode: string
+): Promise<boolean> => {
+    const request = await getAuthRequest(env.DB, authRequestId)
+    if (!request || request.userId !== user.id) return false
+    if (request.type !== AUTH_REQUEST_AUTHENTICATE_AND_UNLOCK) return false
+    if (request.approved !== true || request.authenticationDate) return false
+    if (isAuthRequestExpired(request)) return false
+    if (!accessCodeMatches(request, accessCode)) return false
+
+    request.authenticationDate = new Date().toISOString()
+    await putAuthRequest(env.DB, request)
+    return true
+}
@@ -4,35 +4,55 @@
  * Shared authentication helpers used across API modules.
  */
 
-import { jwt } from 'hono/jwt'
 import type { Bindings } from '../types'
-import type { MiddlewareHandler } from 'hono'
+import type { Context, MiddlewareHandler } from 'hono'
 import { getUser } from '../storage/kv'
-
-const DEFAULT_SECRET = 'nanovault-secret-key-change-me'
+import { verifyToken } from './jwt'
+import { timingSafeEqual } from './password'
 
 /**
- * Returns the JWT secret from environment, falling back to a default.
- * The default should be changed in production.
+ * Best-effort client IP from the headers set by the edge platform.
+ * CF-Connecting-IP is always set by Cloudflare, overwriting any client value.
+ * X-Forwarded-For and X-Real-IP can be sent by anyone, so they are only
+ * read when TRUSTED_PROXY says a proxy in front sets them; the proxy appends
+ * the address it saw as the last X-Forwarded-For entry.
+ * Returns null when no trustworthy header is present (e.g. tests).
  */
-export function getSecret(env: Bindings): string {
-    return env.JWT_SECRET || DEFAULT_SECRET
+export function getClientIp(c: Context<{ Bindings: Bindings }>): string | null {
+    const cfIp = c.req.header('CF-Connecting-IP')
+    if (cfIp) return cfIp
+    if (c.env.TRUSTED_PROXY !== 'true') return null
+
+    const forwarded = c.req.header('X-Forwarded-For')
+    return (forwarded ? forwarded.split(',').pop()!.trim() : null)
+        || c.req.header('X-Real-IP')
+        || null
 }
 
 /**
  * Creates a JWT middleware handler for the given environment.
  * Validates:
- * 1. JWT signature
+ * 1. JWT signature against the keyring, and the access token audience
  * 2. Token type is 'access' (not 'refresh')
  * 3. Security stamp matches user's current stamp
  */
 export const protected_: MiddlewareHandler<{ Bindings: Bindings }> = async (c, next) => {
-    // First, validate JWT signature
-    await jwt({ secret: getSecret(c.env) })(c, async () => { })
+    // First, validate JWT signature and audience
+    const [scheme, token] = (c.req.header('Authorization') ?? '').split(' ')
+    if (scheme !== 'Bearer' || !token) {
+        return c.json({ error: 'invalid_token', error_description: 'Missing bearer token' }, 401)
+    }
+
+    let payload
+    try {
+        payload = await verifyToken(c.env, 'access', token)
+    } catch {
+        return c.json({ error: 'invalid_token', error_description: 'Invalid or expired token' }, 401)
+    }
+    c.set('jwtPayload', payload)
 
     // Then verify payload
-    const payload = c.get('jwtPayload')
-    if (!payload || !payload.email) {
+    if (!payload.email) {
         return c.json({ error: 'invalid_token', error_description: 'Invalid token payload' }, 401)
     }
 
@@ -41,7 +61,7 @@ export const protected_: MiddlewareHandler<{ Bindings: Bindings }> = async (c, n
         return c.json({ error: 'invalid_token', error_description: 'Invalid token type' }, 401)
     }
 
-    const user = await getUser(c.env.DB, payload.email)
+    const user = await getUser(c.env.DB, payload.email as string)
     if (!user) {
         return c.json({ error: 'invalid_token', error_description: 'User not found' }, 401)
     }
@@ -53,3 +73,20 @@ export const protected_: MiddlewareHandler<{ Bindings: Bindings }> = async (c, n
 
     return next()
 }
+
+/**
+ * Guards /admin endpoints with the ADMIN_TOKEN bearer token.
+ * Without ADMIN_TOKEN configured the admin API does not exist.
+ */
+export const adminOnly: MiddlewareHandler<{ Bindings: Bindings }> = async (c, next) => {
+    if (!c.env.ADMIN_TOKEN) {
+        return c.json({ error: 'not_found', error_description: 'Admin API is disabled' }, 404)
+    }
+
+    const [scheme, token] = (c.req.header('Authorization') ?? '').split(' ')
+    if (scheme !== 'Bearer' || !token || !timingSafeEqual(token, c.env.ADMIN_TOKEN)) {
+        return c.json({ error: 'invalid_token', error_description: 'Invalid admin token' }, 401)
+    }
+
+    return next()
+}
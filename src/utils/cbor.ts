@@ -0,0 +1,165 @@
+/**
+ * CBOR Decoder
+ *
+ * Minimal RFC 8949 decoder covering what WebAuthn attestation objects and
+ * COSE keys use. Maps decode to `Map` so integer COSE labels are preserved.
+ */
+
+export type CborValue =
+    | number
+    | string
+    | boolean
+    | null
+    | undefined
+    | Uint8Array
+    | CborValue[]
+    | Map<CborValue, CborValue>
+
+class CborReader {
+    private view: DataView
+    offset = 0
+
+    constructor(private bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    }
+
+    private need(length: number) {
+        if (this.offset + length > this.bytes.length) {
+            throw new Error('CBOR: unexpected end of input')
+        }
+    }
+
+    private readLength(info: number): number {
+        if (info < 24) return info
+        switch (info) {
+            case 24:
+                this.need(1)
+                return this.view.getUint8(this.offset++)
+            case 25: {
+                this.need(2)
+                const v = this.view.getUint16(this.offset)
+                this.offset += 2
+                return v
+            }
+            case 26: {
+                this.need(4)
+                const v = this.view.getUint32(this.offset)
+                this.offset += 4
+                return v
+            }
+            case 27: {
+                this.need(8)
+                const v = this.view.getBigUint64(this.offset)
+                this.offset += 8
+                if (v > BigInt(Number.MAX_SAFE_INTEGER)) {
+                    throw new Error('CBOR: integer too large')
+                }
+                return Number(v)
+            }
+            default:
+                throw new Error(`CBOR: unsupported additional info ${info}`)
+        }
+    }
+
+    private readFloat16(): number {
+        this.need(2)
+        const half = this.view.getUint16(this.offset)
+        this.offset += 2
+        const exp = (half >> 10) & 0x1f
+        const mant = half & 0x3ff
+        const sign = half & 0x8000 ? -1 : 1
+        if (exp === 0) return sign * 2 ** -14 * (mant / 1024)
+        if (exp === 31) return mant ? NaN : sign * Infinity
+        return sign * 2 ** (exp - 15) * (1 + mant / 1024)
+    }
+
+    read(): CborValue {
+        this.need(1)
+        const initial = this.view.getUint8(this.offset++)
+        const major = initial >> 5
+        const info = initial & 0x1f
+
+        switch (major) {
+            case 0:
+                return this.readLength(info)
+            case 1:
+                return -1 - this.readLength(info)
+            case 2: {
+                const length = this.readLength(info)
+                this.need(length)
+                const value = this.bytes.slice(this.offset, this.offset + length)
+                this.offset += length
+                return value
+            }
+            case 3: {
+                const length = this.readLength(info)
+                this.need(length)
+                const value = new TextDecoder().decode(this.bytes.subarray(this.offset, this.offset + length))
+                this.offset += length
+                return value
+            }
+            case 4: {
+                const length = this.readLength(info)
+                const items: CborValue[] = []
+                for (let i = 0; i < length; i++) items.push(this.read())
+                return items
+            }
+            case 5: {
+                const length = this.readLength(info)
+                const map = new Map<CborValue, CborValue>()
+                for (let i = 0; i < length; i++) {
+                    const key = this.read()
+                    map.set(key, this.read())
+                }
+                return map
+            }
+            case 6:
+                // Tags carry no meaning for WebAuthn; return the tagged item
+                this.readLength(info)
+                return this.read()
+            case 7:
+                switch (info) {
+                    case 20: return false
+                    case 21: return true
+                    case 22: return null
+                    case 23: return undefined
+                    case 25: return this.readFloat16()
+                    case 26: {
+                        this.need(4)
+                        const v = this.view.getFloat32(this.offset)
+                        this.offset += 4
+                        return v
+                    }
+                    case 27: {
+                        this.need(8)
+                        const v = this.view.getFloat64(this.offset)
+                        this.offset += 8
+                        return v
+                    }
+                }
+                throw new Error(`CBOR: unsupported simple value ${info}`)
+        }
+        throw new Error(`CBOR: unsupported major type ${major}`)
+    }
+}
+
+/**
+ * Decode the first CBOR item in `bytes`.
+ *
+ * @returns The decoded value and the number of bytes it occupied,
+ *          so callers can continue parsing data that follows it.
+ */
+export const decodeCborItem = (bytes: Uint8Array): { value: CborValue; length: number } => {
+    const reader = new CborReader(bytes)
+    const value = reader.read()
+    return { value, length: reader.offset }
+}
+
+/** Decode a buffer that holds exactly one CBOR item */
+export const decodeCbor = (bytes: Uint8Array): CborValue => {
+    const { value, length } = decodeCborItem(bytes)
+    if (length !== bytes.length) {
+        throw new Error('CBOR: trailing bytes after item')
+    }
+    return value
+}
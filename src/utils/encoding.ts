@@ -0,0 +1,20 @@
+/**
+ * Encoding Utility Functions
+ *
+ * Base64url helpers shared by WebAuthn, device checks and token code.
+ */
+
+export const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = ''
+    for (const byte of bytes) binary += String.fromCharCode(byte)
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export const fromBase64Url = (input: string): Uint8Array => {
+    const base64 = input.replace(/-/g, '+').replace(/_/g, '/')
+    const padded = base64 + '='.repeat((4 - base64.length % 4) % 4)
+    const binary = atob(padded)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return bytes
+}
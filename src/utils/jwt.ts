@@ -0,0 +1,208 @@
+/**
+ * JWT Keyring
+ *
+ * Tokens are signed with asymmetric keys (RS256 or EdDSA) and carry a `kid`
+ * header, so the public half can be published at /.well-known/jwks.
+ *
+ * Keys come from JWT_SIGNING_KEYS, a JSON array of private JWKs: the first
+ * signs new tokens, the rest only verify, which lets old tokens live out a
+ * rotation window. Without JWT_SIGNING_KEYS an Ed25519 key is derived from
+ * JWT_SECRET; when both are set the derived key stays verify-only, so moving
+ * from a secret to explicit keys doesn't log anyone out.
+ *
+ * JWT_SECRET is required either way: it also keys the server's HMACs, which
+ * must outlive any signing key rotation.
+ */
+
+import { sign, verifyWithJwks } from 'hono/jwt'
+import type { Bindings } from '../types'
+import { toBase64Url } from './encoding'
+
+export const DEFAULT_SECRET = 'nanovault-secret-key-change-me'
+
+export type TokenPurpose = 'access' | 'refresh' | 'registration' | 'email_change' | 'delete_recover' | 'sso'
+
+// Each purpose gets its own audience so one kind of token can't stand in for another
+export const TOKEN_AUDIENCES: Record<TokenPurpose, string> = {
+    access: 'nanovault:api',
+    refresh: 'nanovault:refresh',
+    registration: 'nanovault:registration',
+    email_change: 'nanovault:email-change',
+    delete_recover: 'nanovault:delete-recover',
+    sso: 'nanovault:sso'
+}
+
+type SigningAlgorithm = 'RS256' | 'EdDSA'
+
+interface KeyringEntry {
+    kid: string
+    alg: SigningAlgorithm
+    privateJwk: JsonWebKey & { kid: string; alg: SigningAlgorithm }
+    publicJwk: JsonWebKey & { kid: string; alg: SigningAlgorithm; use: 'sig' }
+}
+
+interface Keyring {
+    signing: KeyringEntry
+    keys: KeyringEntry[]
+}
+
+/** Thrown when the server has no usable signing key; requests are refused */
+export class KeyringConfigError extends Error { }
+
+// PKCS#8 header for an Ed25519 private key, followed by the 32-byte seed
+const ED25519_PKCS8_PREFIX = new Uint8Array([
+    0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20
+])
+
+const PRIVATE_JWK_FIELDS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth', 'k', 'key_ops', 'ext']
+
+// Keyrings are cached per configuration, so keys are parsed once per isolate
+let cached: { config: string; keyring: Promise<Keyring> } | null = null
+
+// --------------------------------------------------------------------------
+// Key Loading
+// --------------------------------------------------------------------------
+
+/** RFC 7638 thumbprint, used as the kid when a key doesn't name itself */
+const thumbprint = async (jwk: JsonWebKey): Promise<string> => {
+    const members = jwk.kty === 'RSA'
+        ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+        : { crv: jwk.crv, kty: jwk.kty, x: jwk.x }
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(members)))
+    return toBase64Url(new Uint8Array(digest))
+}
+
+const toEntry = async (jwk: JsonWebKey & { kid?: string }): Promise<KeyringEntry> => {
+    let alg: SigningAlgorithm
+    // WebCrypto exports Ed25519 keys with alg 'Ed25519' rather than the JOSE 'EdDSA'
+    if (jwk.kty === 'RSA' && (!jwk.alg || jwk.alg === 'RS256')) {
+        alg = 'RS256'
+    } else if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519' && (!jwk.alg || jwk.alg === 'EdDSA' || jwk.alg === 'Ed25519')) {
+        alg = 'EdDSA'
+    } else {
+        throw new KeyringConfigError('JWT_SIGNING_KEYS may only hold RS256 (RSA) or EdDSA (Ed25519) keys')
+    }
+    if (!jwk.d) {
+        throw new KeyringConfigError('JWT_SIGNING_KEYS entries must be private keys')
+    }
+
+    const kid = jwk.kid || await thumbprint(jwk)
+    const publicJwk = { ...jwk }
+    for (const field of PRIVATE_JWK_FIELDS) delete (publicJwk as Record<string, unknown>)[field]
+
+    return {
+        kid,
+        alg,
+        privateJwk: { ...jwk, kid, alg },
+        publicJwk: { ...publicJwk, kid, alg, use: 'sig' }
+    }
+}
+
+/** Deterministic Ed25519 key from JWT_SECRET, via HKDF */
+const deriveSecretKey = async (secret: string): Promise<KeyringEntry> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'HKDF', false, ['deriveBits'])
+    const seed = new Uint8Array(await crypto.subtle.deriveBits(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode('nanovault-jwt-ed25519') },
+        material,
+        256
+    ))
+
+    const pkcs8 = new Uint8Array(ED25519_PKCS8_PREFIX.length + seed.length)
+    pkcs8.set(ED25519_PKCS8_PREFIX)
+    pkcs8.set(seed, ED25519_PKCS8_PREFIX.length)
+
+    const key = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'Ed25519' }, true, ['sign'])
+    return toEntry(await crypto.subtle.exportKey('jwk', key) as JsonWebKey)
+}
+
+const loadKeyring = async (env: Bindings): Promise<Keyring> => {
+    const hasSecret = !!env.JWT_SECRET && env.JWT_SECRET !== DEFAULT_SECRET
+    const keys: KeyringEntry[] = []
+
+    if (env.JWT_SIGNING_KEYS) {
+        let parsed: unknown
+        try {
+            parsed = JSON.parse(env.JWT_SIGNING_KEYS)
+        } catch {
+            throw new KeyringConfigError('JWT_SIGNING_KEYS is not valid JSON')
+        }
+        if (!Array.isArray(parsed) || parsed.length === 0) {
+            throw new KeyringConfigError('JWT_SIGNING_KEYS must be a non-empty array of JWKs')
+        }
+        for (const jwk of parsed) keys.push(await toEntry(jwk))
+    }
+
+    if (!hasSecret) {
+        throw new KeyringConfigError('JWT_SECRET must be set to a non-default value')
+    }
+    keys.push(await deriveSecretKey(env.JWT_SECRET!))
+
+    return { signing: keys[0], keys }
+}
+
+/**
+ * Returns the keyring for this environment.
+ * Throws KeyringConfigError if JWT_SECRET is unset or DEFAULT_SECRET.
+ */
+export const getKeyring = (env: Bindings): Promise<Keyring> => {
+    const config = JSON.stringify([env.JWT_SIGNING_KEYS ?? null, env.JWT_SECRET ?? null])
+    if (cached?.config !== config) {
+        const keyring = loadKeyring(env)
+        // Don't cache failures, so a fixed config takes effect without a restart
+        keyring.catch(() => { if (cached?.keyring === keyring) cached = null })
+        cached = { config, keyring }
+    }
+    return cached.keyring
+}
+
+// --------------------------------------------------------------------------
+// Signing / Verification
+// --------------------------------------------------------------------------
+
+/** Signs a token for one purpose with the active key */
+export const signToken = async (env: Bindings, purpose: TokenPurpose, payload: Record<string, unknown>): Promise<string> => {
+    const { signing } = await getKeyring(env)
+    return sign({ ...payload, aud: TOKEN_AUDIENCES[purpose] }, signing.privateJwk)
+}
+
+/**
+ * Verifies a token against every key in the ring and checks its audience.
+ * Throws if the token is invalid, expired or meant for another purpose.
+ */
+export const verifyToken = async (env: Bindings, purpose: TokenPurpose, token: string) => {
+    const { keys } = await getKeyring(env)
+    return verifyWithJwks(token, {
+        keys: keys.map(k => k.publicJwk),
+        verification: { aud: TOKEN_AUDIENCES[purpose] }
+    })
+}
+
+/** Public keys for /.well-known/jwks */
+export const getJwks = async (env: Bindings) => {
+    const { keys } = await getKeyring(env)
+    return { keys: keys.map(k => k.publicJwk) }
+}
+
+// --------------------------------------------------------------------------
+// Server Secrets
+// --------------------------------------------------------------------------
+
+/**
+ * HMAC key for values that must be stable per server but unguessable from
+ * outside, such as decoy prelogin settings and signed download URLs.
+ * Derived from JWT_SECRET with a label per use, never from a signing key,
+ * so rotating JWT_SIGNING_KEYS leaves these values unchanged.
+ */
+export const getServerHmacKey = async (env: Bindings, label: string): Promise<CryptoKey> => {
+    // Validates JWT_SECRET the same way every request does
+    await getKeyring(env)
+
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(env.JWT_SECRET!), 'HKDF', false, ['deriveKey'])
+    return crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(`nanovault-${label}`) },
+        material,
+        { name: 'HMAC', hash: 'SHA-256', length: 256 },
+        false,
+        ['sign', 'verify']
+    )
+}
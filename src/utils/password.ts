@@ -0,0 +1,96 @@
+/**
+ * Master Password Hashing
+ *
+ * Clients send a hash derived from the master password, never the password
+ * itself. The server hashes it again with PBKDF2-SHA256 and a per-user random
+ * salt, so a copy of KV can't be replayed as a login or cheaply brute-forced.
+ *
+ * Stored format: pbkdf2-sha256$<iterations>$<base64url hash>
+ * Legacy format: SHA-256 hex of securityStamp + hash (no prefix, no salt),
+ * still accepted and rehashed on the next successful login.
+ */
+
+import type { Bindings, UserData } from '../types'
+import { toBase64Url, fromBase64Url } from './encoding'
+
+const HASH_VERSION = 'pbkdf2-sha256'
+
+// Cloudflare Workers reject PBKDF2 above 100,000 iterations
+export const DEFAULT_PASSWORD_ITERATIONS = 100000
+
+const SALT_BYTES = 16
+
+/** Iteration count for new hashes, from PASSWORD_ITERATIONS */
+export const getPasswordIterations = (env: Bindings): number => {
+    const iterations = parseInt(env.PASSWORD_ITERATIONS ?? '')
+    return iterations > 0 ? iterations : DEFAULT_PASSWORD_ITERATIONS
+}
+
+const pbkdf2 = async (masterPasswordHash: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+    const key = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(masterPasswordHash),
+        'PBKDF2',
+        false,
+        ['deriveBits']
+    )
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        key,
+        256
+    )
+    return new Uint8Array(bits)
+}
+
+const legacyHash = async (masterPasswordHash: string, securityStamp: string): Promise<string> => {
+    const data = new TextEncoder().encode(securityStamp + masterPasswordHash)
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data))
+    return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Constant-time string comparison for secrets */
+export const timingSafeEqual = (a: string, b: string): boolean => {
+    if (a.length !== b.length) return false
+    let diff = 0
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+    return diff === 0
+}
+
+/** Hashes a new master password hash onto the user with a fresh salt */
+export const setMasterPassword = async (env: Bindings, user: UserData, masterPasswordHash: string): Promise<void> => {
+    const iterations = getPasswordIterations(env)
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+    const hash = await pbkdf2(masterPasswordHash, salt, iterations)
+
+    user.passwordSalt = toBase64Url(salt)
+    user.masterPasswordHash = `${HASH_VERSION}$${iterations}$${toBase64Url(hash)}`
+}
+
+/** Check a client-supplied master password hash against the stored server hash */
+export const verifyMasterPassword = async (user: UserData, masterPasswordHash: string): Promise<boolean> => {
+    if (!masterPasswordHash) return false
+
+    const [version, iterations, expected] = user.masterPasswordHash.split('$')
+    if (version === HASH_VERSION && user.passwordSalt && expected) {
+        const hash = await pbkdf2(masterPasswordHash, fromBase64Url(user.passwordSalt), parseInt(iterations))
+        return timingSafeEqual(toBase64Url(hash), expected)
+    }
+
+    return timingSafeEqual(await legacyHash(masterPasswordHash, user.securityStamp), user.masterPasswordHash)
+}
+
+/**
+ * Spends the same hashing time as verifyMasterPassword on a real account,
+ * so failed logins for unknown emails can't be told apart by timing.
+ */
+export const simulateMasterPasswordCheck = async (env: Bindings, masterPasswordHash: string): Promise<false> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+    await pbkdf2(masterPasswordHash || '', salt, getPasswordIterations(env))
+    return false
+}
+
+/** Whether the stored hash is legacy or uses a different iteration count than configured */
+export const needsRehash = (env: Bindings, user: UserData): boolean => {
+    const [version, iterations] = user.masterPasswordHash.split('$')
+    return version !== HASH_VERSION || !user.passwordSalt || parseInt(iterations) !== getPasswordIterations(env)
+}
@@ -0,0 +1,32 @@
+/**
+ * Anti-enumeration Helpers
+ *
+ * Prelogin and login must not reveal whether an account exists. Unknown
+ * emails get decoy KDF settings that are stable per email (an HMAC over the
+ * email with a server key) and drawn from the same defaults real accounts
+ * are created with, and failed logins for them cost the same hashing time.
+ */
+
+import type { Bindings, PreloginResponse } from '../types'
+import { KDF_PBKDF2, KDF_ARGON2 } from '../types'
+import { getServerHmacKey } from './jwt'
+
+// Bitwarden client defaults for new accounts, weighted towards PBKDF2 as most accounts use it
+const DECOY_KDF_SETTINGS: { weight: number; settings: PreloginResponse }[] = [
+    { weight: 9, settings: { kdf: KDF_PBKDF2, kdfIterations: 600000 } },
+    { weight: 1, settings: { kdf: KDF_ARGON2, kdfIterations: 3, kdfMemory: 64, kdfParallelism: 4 } }
+]
+
+/** Deterministic decoy prelogin settings for an email without an account */
+export const getDecoyKdfSettings = async (env: Bindings, email: string): Promise<PreloginResponse> => {
+    const key = await getServerHmacKey(env, 'prelogin-decoy')
+    const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(email.toLowerCase())))
+
+    const total = DECOY_KDF_SETTINGS.reduce((sum, d) => sum + d.weight, 0)
+    let pick = new DataView(mac.buffer).getUint32(0) % total
+    for (const decoy of DECOY_KDF_SETTINGS) {
+        if (pick < decoy.weight) return { ...decoy.settings }
+        pick -= decoy.weight
+    }
+    return { ...DECOY_KDF_SETTINGS[0].settings }
+}
@@ -0,0 +1,140 @@
+/**
+ * Storage Quotas
+ *
+ * Each user has byte and item counters in KV (storage_usage:{userId}),
+ * moved by handlers on every cipher, folder and attachment write. Writes
+ * that grow the vault are checked against STORAGE_QUOTA_MB and ITEM_QUOTA
+ * first, when set; shrinking writes and deletes always go through.
+ */
+
+import type { Bindings, Cipher, Folder, StorageUsage } from '../types'
+import { getStorageUsage, putStorageUsage } from '../storage/kv'
+import { listCiphers, listFolders } from '../storage/s3'
+
+const EMPTY_USAGE: StorageUsage = { bytes: 0, items: 0 }
+
+export interface StorageLimits {
+    maxBytes: number | null  // null for no limit
+    maxItems: number | null
+}
+
+// --------------------------------------------------------------------------
+// Sizes
+// --------------------------------------------------------------------------
+
+/** Human-readable size, as shown in Bitwarden clients */
+export const formatSize = (bytes: number): string => {
+    const units = ['Bytes', 'KB', 'MB', 'GB']
+    let size = bytes
+    let unit = 0
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024
+        unit++
+    }
+    return `${Math.round(size * 100) / 100} ${units[unit]}`
+}
+
+const jsonSize = (value: unknown): number => new TextEncoder().encode(JSON.stringify(value)).byteLength
+
+/** Declared file size, with anything that is not a sane byte count treated as 0 */
+const attachmentSize = (size: unknown): number => {
+    const n = Number(size)
+    return Number.isFinite(n) && n > 0 ? n : 0
+}
+
+/** What a cipher counts for: its JSON and its uploaded attachment files */
+export const cipherUsage = (cipher: Cipher | null | undefined): StorageUsage => {
+    if (!cipher) return EMPTY_USAGE
+    const attachmentBytes = (cipher.attachments ?? [])
+        .filter(a => !a.pending)
+        .reduce((sum, a) => sum + attachmentSize(a.size), 0)
+    return { bytes: jsonSize(cipher) + attachmentBytes, items: 1 }
+}
+
+export const folderUsage = (folder: Folder | null | undefined): StorageUsage => {
+    if (!folder) return EMPTY_USAGE
+    return { bytes: jsonSize(folder), items: 1 }
+}
+
+/** Delta for replacing `before` with `after` */
+export const usageChange = (before: StorageUsage, after: StorageUsage): StorageUsage => ({
+    bytes: after.bytes - before.bytes,
+    items: after.items - before.items
+})
+
+export const sumUsage = (usages: StorageUsage[]): StorageUsage => usages.reduce(
+    (total, u) => ({ bytes: total.bytes + u.bytes, items: total.items + u.items }),
+    EMPTY_USAGE
+)
+
+// --------------------------------------------------------------------------
+// Limits and Counters
+// --------------------------------------------------------------------------
+
+/** Configured limit, or null when unset or "0" */
+const parseLimit = (value: string | undefined): number | null => {
+    const n = Number(value)
+    return Number.isFinite(n) && n > 0 ? n : null
+}
+
+export const getStorageLimits = (env: Bindings): StorageLimits => {
+    const maxMb = parseLimit(env.STORAGE_QUOTA_MB)
+    const maxItems = parseLimit(env.ITEM_QUOTA)
+    return {
+        maxBytes: maxMb === null ? null : Math.floor(maxMb * 1024 * 1024),
+        maxItems: maxItems === null ? null : Math.floor(maxItems)
+    }
+}
+
+/**
+ * Current usage. Vaults written before counters existed are measured once
+ * and the result stored.
+ */
+export const getUsage = async (env: Bindings, userId: string): Promise<StorageUsage> => {
+    const stored = await getStorageUsage(env.DB, userId)
+    if (stored) return stored
+
+    const [ciphers, folders] = await Promise.all([
+        listCiphers(env.VAULT, userId),
+        listFolders(env.VAULT, userId)
+    ])
+    const usage = sumUsage([...ciphers.map(cipherUsage), ...folders.map(folderUsage)])
+    await putStorageUsage(env.DB, userId, usage)
+    return usage
+}
+
+/**
+ * Checks whether a write fits in the user's quota.
+ *
+ * @returns Error message if it does not, null if it does
+ */
+export const checkStorageQuota = async (env: Bindings, userId: string, change: StorageUsage): Promise<string | null> => {
+    if (change.bytes <= 0 && change.items <= 0) return null
+
+    const { maxBytes, maxItems } = getStorageLimits(env)
+    const usage = await getUsage(env, userId)
+
+    if (maxBytes !== null && change.bytes > 0 && usage.bytes + change.bytes > maxBytes) {
+        return `Not enough storage available. Your vault is limited to ${formatSize(maxBytes)}.`
+    }
+    if (maxItems !== null && change.items > 0 && usage.items + change.items > maxItems) {
+        return `Item limit reached. Your vault is limited to ${maxItems} items and folders.`
+    }
+    return null
+}
+
+/** Applies a write's delta to the user's counters, once the write is done */
+export const recordStorageUsage = async (env: Bindings, userId: string, change: StorageUsage): Promise<void> => {
+    if (change.bytes === 0 && change.items === 0) return
+
+    const usage = await getStorageUsage(env.DB, userId)
+    if (!usage) {
+        // Measuring now already includes the write
+        await getUsage(env, userId)
+        return
+    }
+    await putStorageUsage(env.DB, userId, {
+        bytes: Math.max(0, usage.bytes + change.bytes),
+        items: Math.max(0, usage.items + change.items)
+    })
+}
@@ -0,0 +1,167 @@
+/**
+ * Rate Limit Utility Functions
+ *
+ * Attempt counters with exponential backoff and temporary lockout, kept in
+ * IKVStorage so they work on every platform. KV has no TTL or atomic
+ * increment, so limits are best-effort under concurrent requests.
+ *
+ * KV keys:
+ *   ratelimit:{scope}:{subject} -> LimiterState JSON
+ */
+
+import type { IKVStorage } from '../storage/interfaces'
+
+export interface LimiterPolicy {
+    freeAttempts: number  // Attempts without delay; each one past this adds backoff
+    maxAttempts: number   // Attempts that start a lockout
+    baseDelay: number     // Seconds, doubled for each attempt past freeAttempts
+    lockout: number       // Seconds
+    window: number        // Seconds of quiet after which the counter resets
+}
+
+// Failed logins per account (email or API key client_id)
+export const LOGIN_ACCOUNT_POLICY: LimiterPolicy = {
+    freeAttempts: 3,
+    maxAttempts: 10,
+    baseDelay: 2,
+    lockout: 15 * 60,
+    window: 60 * 60
+}
+
+// Failed logins per client IP, across accounts
+export const LOGIN_IP_POLICY: LimiterPolicy = {
+    freeAttempts: 10,
+    maxAttempts: 50,
+    baseDelay: 1,
+    lockout: 15 * 60,
+    window: 60 * 60
+}
+
+// Every prelogin request per client IP
+export const PRELOGIN_IP_POLICY: LimiterPolicy = {
+    freeAttempts: 30,
+    maxAttempts: 100,
+    baseDelay: 1,
+    lockout: 15 * 60,
+    window: 10 * 60
+}
+
+// Every request that sends mail, per recipient and per client IP
+export const MAIL_POLICY: LimiterPolicy = {
+    freeAttempts: 3,
+    maxAttempts: 10,
+    baseDelay: 60,
+    lockout: 60 * 60,
+    window: 60 * 60
+}
+
+// Every login-with-device request, per account and per client IP; each one
+// pushes an approval prompt to the account's devices
+export const AUTH_REQUEST_POLICY: LimiterPolicy = {
+    freeAttempts: 3,
+    maxAttempts: 10,
+    baseDelay: 30,
+    lockout: 30 * 60,
+    window: 60 * 60
+}
+
+interface LimiterState {
+    attempts: number
+    lastAttemptAt: number
+    blockedUntil: number
+    locked: boolean
+}
+
+export type LimitStatus =
+    | { allowed: true }
+    | { allowed: false; locked: boolean; retryAfter: number }
+
+const limiterKey = (scope: string, subject: string) => `ratelimit:${scope}:${subject.toLowerCase()}`
+
+const loadState = async (kv: IKVStorage, key: string, policy: LimiterPolicy, now: number): Promise<LimiterState | null> => {
+    const json = await kv.get(key)
+    if (!json) return null
+
+    const state = JSON.parse(json) as LimiterState
+    if (now >= state.blockedUntil && now - state.lastAttemptAt > policy.window * 1000) {
+        return null
+    }
+    return state
+}
+
+/** Whether another attempt may be made now */
+export const checkLimit = async (
+    kv: IKVStorage,
+    scope: string,
+    subject: string,
+    policy: LimiterPolicy,
+    now = Date.now()
+): Promise<LimitStatus> => {
+    const state = await loadState(kv, limiterKey(scope, subject), policy, now)
+    if (!state || now >= state.blockedUntil) {
+        return { allowed: true }
+    }
+    return {
+        allowed: false,
+        locked: state.locked,
+        retryAfter: Math.ceil((state.blockedUntil - now) / 1000)
+    }
+}
+
+/**
+ * Counts an attempt and applies backoff or lockout.
+ *
+ * @returns True if this attempt started a lockout
+ */
+export const recordAttempt = async (
+    kv: IKVStorage,
+    scope: string,
+    subject: string,
+    policy: LimiterPolicy,
+    now = Date.now()
+): Promise<boolean> => {
+    const key = limiterKey(scope, subject)
+    const previous = await loadState(kv, key, policy, now)
+    const attempts = (previous?.attempts ?? 0) + 1
+
+    const state: LimiterState = { attempts, lastAttemptAt: now, blockedUntil: 0, locked: false }
+    if (attempts >= policy.maxAttempts) {
+        state.blockedUntil = now + policy.lockout * 1000
+        state.locked = true
+    } else if (attempts > policy.freeAttempts) {
+        const delay = policy.baseDelay * 2 ** (attempts - policy.freeAttempts - 1)
+        state.blockedUntil = now + Math.min(delay, policy.lockout) * 1000
+    }
+
+    await kv.put(key, JSON.stringify(state))
+    return state.locked && !(previous?.locked && now < previous.blockedUntil)
+}
+
+/** Clears the counter, e.g. after a successful login */
+export const resetLimit = async (kv: IKVStorage, scope: string, subject: string): Promise<void> => {
+    await kv.delete(limiterKey(scope, subject))
+}
+
+export interface LimiterTarget {
+    scope: string
+    subject: string | null  // Null skips the limiter, e.g. when no client IP is known
+    policy: LimiterPolicy
+}
+
+/**
+ * Counts a request that is limited whatever its outcome (mail, prelogin).
+ * Blocked requests are not counted, so waiting out the backoff always works.
+ */
+export const throttle = async (kv: IKVStorage, targets: LimiterTarget[], now = Date.now()): Promise<LimitStatus> => {
+    const active = targets.filter((t): t is LimiterTarget & { subject: string } => !!t.subject)
+
+    for (const target of active) {
+        const status = await checkLimit(kv, target.scope, target.subject, target.policy, now)
+        if (!status.allowed) return status
+    }
+
+    for (const target of active) {
+        await recordAttempt(kv, target.scope, target.subject, target.policy, now)
+    }
+    return { allowed: true }
+}
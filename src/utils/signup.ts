@@ -0,0 +1,67 @@
+/**
+ * Signup Policy
+ *
+ * SIGNUP_MODE decides who may register:
+ *   open    - anyone (default)
+ *   domains - only addresses under SIGNUP_DOMAINS
+ *   invite  - nobody without an invite
+ * An unexpired admin invite lets its email register in every mode.
+ */
+
+import type { Bindings, Invite } from '../types'
+import { getInvite, deleteInvite } from '../storage/kv'
+
+export type SignupMode = 'open' | 'domains' | 'invite'
+
+// Invites outlive the 24h registration link, since the admin sends them ahead of time
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/** Configured mode; unknown values fall back to invite-only rather than open */
+export const getSignupMode = (env: Bindings): SignupMode => {
+    const mode = (env.SIGNUP_MODE || 'open').toLowerCase()
+    if (mode === 'open' || mode === 'domains' || mode === 'invite') return mode
+    console.log(`[NanoVault] Unknown SIGNUP_MODE "${env.SIGNUP_MODE}", treating as invite-only`)
+    return 'invite'
+}
+
+export const getSignupDomains = (env: Bindings): string[] => {
+    return (env.SIGNUP_DOMAINS || '')
+        .split(',')
+        .map(d => d.trim().toLowerCase().replace(/^@/, ''))
+        .filter(Boolean)
+}
+
+/** Whether clients should offer account creation at all */
+export const isSignupOpen = (env: Bindings): boolean => getSignupMode(env) !== 'invite'
+
+/** Outstanding invite for the email, or null if none or expired */
+export const findInvite = async (env: Bindings, email: string): Promise<Invite | null> => {
+    const invite = await getInvite(env.DB, email)
+    if (!invite || Date.now() > new Date(invite.expiresAt).getTime()) return null
+    return invite
+}
+
+/**
+ * Checks the signup policy for an email.
+ *
+ * @returns Error message if the email may not register, null if it may
+ */
+export const checkSignupAllowed = async (env: Bindings, email: string): Promise<string | null> => {
+    const mode = getSignupMode(env)
+    if (mode === 'open' || await findInvite(env, email)) return null
+
+    if (mode === 'domains') {
+        const domains = getSignupDomains(env)
+        const domain = email.slice(email.lastIndexOf('@') + 1)
+        if (domains.includes(domain)) return null
+        return domains.length > 0
+            ? `Registration is limited to ${domains.map(d => `@${d}`).join(', ')} addresses.`
+            : 'Registration is disabled.'
+    }
+    return 'Registration is by invitation only.'
+}
+
+/** Uses up the email's invite once its account exists */
+export const consumeInvite = async (env: Bindings, email: string): Promise<void> => {
+    await deleteInvite(env.DB, email)
+}
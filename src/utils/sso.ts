@@ -0,0 +1,267 @@
+/**
+ * OpenID Connect Single Sign-On
+ *
+ * NanoVault is a relying party for one identity provider (SSO_AUTHORITY).
+ * Clients start at /identity/connect/authorize with PKCE and are sent on to
+ * the IdP, which returns to /identity/connect/oidc-signin. There the IdP's
+ * code is exchanged and its ID token checked, and the client gets a NanoVault
+ * code of its own, redeemed with the authorization_code grant.
+ *
+ * KV keys:
+ *   sso_state:{state} -> SsoState JSON (login in progress at the IdP)
+ *   sso_code:{code}   -> SsoCode JSON (verified IdP login, waiting for the client)
+ *   sso_pending       -> PendingEntry[] (both of the above, swept once expired)
+ */
+
+import { verifyWithJwks } from 'hono/jwt'
+import type { Bindings } from '../types'
+import { toBase64Url } from './encoding'
+
+const SSO_STATE_TTL = 10 * 60 // 10 minutes in seconds, time allowed at the IdP
+const SSO_CODE_TTL = 5 * 60   // 5 minutes in seconds
+const DEFAULT_SSO_SCOPES = 'openid email profile'
+
+interface ProviderMetadata {
+    issuer: string
+    authorization_endpoint: string
+    token_endpoint: string
+    jwks_uri: string
+}
+
+interface SsoState {
+    redirectUri: string
+    clientState: string
+    codeChallenge: string
+    nonce: string
+    expiresAt: number  // Unix time in milliseconds
+}
+
+interface SsoCode {
+    email: string
+    subject: string
+    name?: string
+    redirectUri: string
+    codeChallenge: string
+    expiresAt: number  // Unix time in milliseconds
+}
+
+interface PendingEntry {
+    key: string
+    expiresAt: number  // Unix time in milliseconds
+}
+
+/** Verified identity from the IdP, handed to the token endpoint */
+export interface SsoIdentity {
+    email: string
+    subject: string
+    name?: string
+}
+
+/** Thrown when an SSO login can't continue; the message is shown to the user */
+export class SsoError extends Error { }
+
+// Provider metadata is cached per authority, so discovery runs once per isolate
+let cached: { authority: string; metadata: Promise<ProviderMetadata> } | null = null
+
+const randomToken = (): string => toBase64Url(crypto.getRandomValues(new Uint8Array(32)))
+
+const pkceChallenge = async (verifier: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+    return toBase64Url(new Uint8Array(digest))
+}
+
+/**
+ * Stores a state or code entry and lists it for sweeping. KV has no TTL, so
+ * entries nobody comes back for are deleted here, on a later login, once
+ * expired. Best-effort under concurrent logins, like the rate limiter.
+ */
+const putPendingEntry = async (env: Bindings, key: string, entry: { expiresAt: number }): Promise<void> => {
+    await env.DB.put(key, JSON.stringify(entry))
+
+    const now = Date.now()
+    const json = await env.DB.get('sso_pending')
+    const pending: PendingEntry[] = json ? JSON.parse(json) : []
+    const expired = pending.filter(p => now > p.expiresAt)
+    for (const p of expired) {
+        await env.DB.delete(p.key)
+    }
+
+    const live = pending.filter(p => now <= p.expiresAt)
+    live.push({ key, expiresAt: entry.expiresAt })
+    await env.DB.put('sso_pending', JSON.stringify(live))
+}
+
+// --------------------------------------------------------------------------
+// Configuration
+// --------------------------------------------------------------------------
+
+export const isSsoEnabled = (env: Bindings): boolean => !!env.SSO_AUTHORITY && !!env.SSO_CLIENT_ID
+
+/** Where the IdP sends users back to; must be registered with the IdP */
+export const getSsoCallbackUrl = (origin: string): string => `${origin}/identity/connect/oidc-signin`
+
+/**
+ * Whether a client may receive codes at this redirect URI: the web vault on
+ * this origin, the mobile apps' URL scheme, or the loopback listener of the
+ * desktop app and CLI. Any other target could hand the code to a third party.
+ */
+export const isAllowedRedirectUri = (redirectUri: string, origin: string): boolean => {
+    let url: URL
+    try {
+        url = new URL(redirectUri)
+    } catch {
+        return false
+    }
+    if (url.origin === origin || url.protocol === 'bitwarden:') return true
+    return url.protocol === 'http:' && (url.hostname === 'localhost' || url.hostname === '127.0.0.1')
+}
+
+const loadProviderMetadata = async (authority: string): Promise<ProviderMetadata> => {
+    const response = await fetch(`${authority}/.well-known/openid-configuration`)
+    if (!response.ok) {
+        throw new Error(`SSO discovery failed: ${response.status}`)
+    }
+
+    const metadata = await response.json() as Partial<ProviderMetadata>
+    if (!metadata.issuer || !metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+        throw new Error('SSO discovery document is missing required endpoints')
+    }
+    return metadata as ProviderMetadata
+}
+
+const getProviderMetadata = (env: Bindings): Promise<ProviderMetadata> => {
+    const authority = env.SSO_AUTHORITY!.replace(/\/+$/, '')
+    if (cached?.authority !== authority) {
+        const metadata = loadProviderMetadata(authority)
+        // Don't cache failures, so an IdP outage doesn't outlive itself
+        metadata.catch(() => { if (cached?.metadata === metadata) cached = null })
+        cached = { authority, metadata }
+    }
+    return cached.metadata
+}
+
+// --------------------------------------------------------------------------
+// Login Flow
+// --------------------------------------------------------------------------
+
+/**
+ * Records a client's login attempt and returns the IdP URL to send it to.
+ * The client's PKCE challenge is kept so only it can redeem the final code.
+ */
+export const startSsoLogin = async (
+    env: Bindings,
+    origin: string,
+    client: { redirectUri: string; clientState: string; codeChallenge: string }
+): Promise<string> => {
+    const metadata = await getProviderMetadata(env)
+    const state = randomToken()
+    const entry: SsoState = {
+        ...client,
+        nonce: randomToken(),
+        expiresAt: Date.now() + SSO_STATE_TTL * 1000
+    }
+    await putPendingEntry(env, `sso_state:${state}`, entry)
+
+    const url = new URL(metadata.authorization_endpoint)
+    url.searchParams.set('client_id', env.SSO_CLIENT_ID!)
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('redirect_uri', getSsoCallbackUrl(origin))
+    url.searchParams.set('scope', env.SSO_SCOPES || DEFAULT_SSO_SCOPES)
+    url.searchParams.set('state', state)
+    url.searchParams.set('nonce', entry.nonce)
+    return url.toString()
+}
+
+/**
+ * Finishes the IdP side of a login: exchanges the IdP's code, verifies the
+ * ID token and returns the client redirect carrying a NanoVault code.
+ */
+export const completeSsoLogin = async (env: Bindings, origin: string, state: string, code: string): Promise<string> => {
+    const key = `sso_state:${state}`
+    const json = await env.DB.get(key)
+    if (!json) throw new SsoError('Unknown or already used SSO login, start again.')
+
+    await env.DB.delete(key)
+    const pending = JSON.parse(json) as SsoState
+    if (Date.now() > pending.expiresAt) throw new SsoError('SSO login expired, start again.')
+
+    const metadata = await getProviderMetadata(env)
+    const tokenResponse = await fetch(metadata.token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: getSsoCallbackUrl(origin),
+            client_id: env.SSO_CLIENT_ID!,
+            ...(env.SSO_CLIENT_SECRET && { client_secret: env.SSO_CLIENT_SECRET })
+        }).toString()
+    })
+    if (!tokenResponse.ok) {
+        console.error(`[NanoVault] SSO code exchange failed: ${tokenResponse.status} ${await tokenResponse.text()}`)
+        throw new SsoError('The identity provider rejected the login.')
+    }
+
+    const { id_token: idToken } = await tokenResponse.json() as { id_token?: string }
+    if (!idToken) throw new SsoError('The identity provider did not return an ID token.')
+
+    let claims
+    try {
+        claims = await verifyWithJwks(idToken, {
+            jwks_uri: metadata.jwks_uri,
+            verification: { iss: metadata.issuer, aud: env.SSO_CLIENT_ID }
+        })
+    } catch (e) {
+        console.error('[NanoVault] SSO ID token rejected:', e)
+        throw new SsoError('Invalid ID token from the identity provider.')
+    }
+    if (claims.nonce !== pending.nonce) throw new SsoError('Invalid ID token from the identity provider.')
+
+    // The email decides which vault is opened, so it must be one the IdP vouches for
+    const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : ''
+    if (!email || claims.email_verified !== true || typeof claims.sub !== 'string') {
+        throw new SsoError('The identity provider did not return a verified email.')
+    }
+
+    const clientCode = randomToken()
+    const entry: SsoCode = {
+        email,
+        subject: claims.sub,
+        name: typeof claims.name === 'string' ? claims.name : undefined,
+        redirectUri: pending.redirectUri,
+        codeChallenge: pending.codeChallenge,
+        expiresAt: Date.now() + SSO_CODE_TTL * 1000
+    }
+    await putPendingEntry(env, `sso_code:${clientCode}`, entry)
+
+    const redirect = new URL(pending.redirectUri)
+    redirect.searchParams.set('code', clientCode)
+    redirect.searchParams.set('state', pending.clientState)
+    return redirect.toString()
+}
+
+/**
+ * Redeems a NanoVault code for the identity it was issued to.
+ * Codes are single use and bound to the client's redirect URI and PKCE verifier.
+ *
+ * @returns The identity, or null if the code is invalid for this client
+ */
+export const consumeSsoCode = async (
+    env: Bindings,
+    code: string,
+    codeVerifier: string,
+    redirectUri: string
+): Promise<SsoIdentity | null> => {
+    if (!code || !codeVerifier) return null
+
+    const key = `sso_code:${code}`
+    const json = await env.DB.get(key)
+    if (!json) return null
+
+    await env.DB.delete(key)
+    const entry = JSON.parse(json) as SsoCode
+    if (Date.now() > entry.expiresAt || entry.redirectUri !== redirectUri) return null
+    if (await pkceChallenge(codeVerifier) !== entry.codeChallenge) return null
+
+    return { email: entry.email, subject: entry.subject, name: entry.name }
+}
@@ -0,0 +1,134 @@
+/**
+ * TOTP Utility Module
+ *
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 30s period, 6 digits).
+ * Uses WebCrypto only so it runs on Workers and ESA alike.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export const TOTP_PERIOD = 30
+const TOTP_DIGITS = 6
+
+// Accept one time step of clock drift in either direction
+const TOTP_WINDOW = 1
+
+// --------------------------------------------------------------------------
+// Base32
+// --------------------------------------------------------------------------
+
+export const base32Encode = (bytes: Uint8Array): string => {
+    let bits = 0
+    let value = 0
+    let output = ''
+
+    for (const byte of bytes) {
+        value = (value << 8) | byte
+        bits += 8
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+            bits -= 5
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+    }
+    return output
+}
+
+/**
+ * Decode a base32 string, ignoring case, spaces and padding.
+ * Returns null if the input contains characters outside the alphabet.
+ */
+export const base32Decode = (input: string): Uint8Array | null => {
+    const clean = input.toUpperCase().replace(/[\s=]/g, '')
+    const bytes: number[] = []
+    let bits = 0
+    let value = 0
+
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char)
+        if (index === -1) return null
+        value = (value << 5) | index
+        bits += 5
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255)
+            bits -= 8
+        }
+    }
+    return new Uint8Array(bytes)
+}
+
+// --------------------------------------------------------------------------
+// TOTP
+// --------------------------------------------------------------------------
+
+/** Generate a new random 160-bit TOTP secret, base32 encoded */
+export const generateTotpSecret = (): string => {
+    return base32Encode(crypto.getRandomValues(new Uint8Array(20)))
+}
+
+const importTotpKey = async (secret: string): Promise<CryptoKey | null> => {
+    const raw = base32Decode(secret)
+    if (!raw || raw.length === 0) return null
+    return await crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign'])
+}
+
+const generateCode = async (key: CryptoKey, step: number): Promise<string> => {
+    const counter = new ArrayBuffer(8)
+    const view = new DataView(counter)
+    view.setUint32(0, Math.floor(step / 2 ** 32))
+    view.setUint32(4, step >>> 0)
+
+    const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter))
+    const offset = hmac[hmac.length - 1] & 0x0f
+    const binary = ((hmac[offset] & 0x7f) << 24) |
+        (hmac[offset + 1] << 16) |
+        (hmac[offset + 2] << 8) |
+        hmac[offset + 3]
+
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+const currentStep = (now: number): number => Math.floor(now / 1000 / TOTP_PERIOD)
+
+/**
+ * Generate the TOTP code for a secret at the given time.
+ *
+ * @param secret - Base32 encoded secret
+ * @param now - Unix time in milliseconds (defaults to now)
+ */
+export const generateTotp = async (secret: string, now: number = Date.now()): Promise<string> => {
+    const key = await importTotpKey(secret)
+    if (!key) throw new Error('Invalid TOTP secret')
+    return await generateCode(key, currentStep(now))
+}
+
+/**
+ * Verify a TOTP code against a secret.
+ *
+ * @param secret - Base32 encoded secret
+ * @param code - Code entered by the user
+ * @param lastUsedStep - Last accepted time step; codes at or before it are rejected
+ * @returns The matched time step, or null if the code is invalid
+ */
+export const verifyTotp = async (
+    secret: string,
+    code: string,
+    lastUsedStep: number = -1
+): Promise<number | null> => {
+    const trimmed = code.replace(/\s/g, '')
+    if (!/^\d{6}$/.test(trimmed)) return null
+
+    const key = await importTotpKey(secret)
+    if (!key) return null
+
+    const step = currentStep(Date.now())
+    for (let s = step - TOTP_WINDOW; s <= step + TOTP_WINDOW; s++) {
+        if (s <= lastUsedStep) continue
+        if (await generateCode(key, s) === trimmed) {
+            return s
+        }
+    }
+    return null
+}
@@ -0,0 +1,403 @@
+/**
+ * Two-Factor Utility Functions
+ *
+ * Provider bookkeeping and login-time token checks shared by the
+ * token endpoint and the two-factor settings handlers.
+ *
+ * KV keys:
+ *   email_code:{userId}         -> EmailCode JSON (short-lived emailed two-factor code)
+ *   device_otp:{userId}         -> EmailCode JSON (new-device verification code)
+ *   webauthn_challenge:{userId} -> PendingChallenge JSON (login assertion)
+ *   webauthn_register:{userId}  -> PendingChallenge JSON (key registration)
+ */
+
+import type { Bindings, UserData, Device } from '../types'
+import { TWO_FACTOR_AUTHENTICATOR, TWO_FACTOR_EMAIL, TWO_FACTOR_WEBAUTHN } from '../types'
+import { putUser } from '../storage/kv'
+import { verifyTotp } from './totp'
+import { sendMail } from './mail'
+import { generateChallenge, verifyAssertion } from './webauthn'
+import { throttle, MAIL_POLICY } from './rate-limit'
+
+const EMAIL_CODE_TTL = 10 * 60      // 10 minutes in seconds
+const EMAIL_CODE_MAX_ATTEMPTS = 5
+const WEBAUTHN_CHALLENGE_TTL = 5 * 60 // 5 minutes in seconds
+export const WEBAUTHN_TIMEOUT = 60000 // Client-side ceremony timeout in milliseconds
+const REMEMBER_TOKEN_TTL = 30 * 24 * 3600 // 30 days in seconds
+
+interface EmailCode {
+    code: string
+    email: string
+    expiresAt: number  // Unix time in milliseconds
+    attempts: number
+}
+
+export type EmailCodePurpose = 'setup' | 'login' | 'new-device'
+
+// Subject and lead-in paragraph for each kind of emailed code
+const EMAIL_CODE_MESSAGES: Record<EmailCodePurpose, { subject: string; heading: string; warning: string }> = {
+    'setup': {
+        subject: 'Verify your Nanovault two-step login email',
+        heading: 'Two-Step Login Setup',
+        warning: 'If you did not request this, change your master password immediately.'
+    },
+    'login': {
+        subject: 'Your Nanovault two-step login code',
+        heading: 'Two-Step Login',
+        warning: 'If you did not try to log in, change your master password immediately.'
+    },
+    'new-device': {
+        subject: 'Verify your new device on Nanovault',
+        heading: 'New Device Login',
+        warning: 'Someone logged in to your account from a new device. If this wasn\'t you, change your master password immediately.'
+    }
+}
+
+const emailCodeKey = (userId: string, purpose: EmailCodePurpose): string => {
+    return purpose === 'new-device' ? `device_otp:${userId}` : `email_code:${userId}`
+}
+
+interface PendingChallenge {
+    challenge: string
+    expiresAt: number  // Unix time in milliseconds
+}
+
+/**
+ * Returns the provider types the user has enabled, in Bitwarden order.
+ */
+export const getEnabledProviders = (user: UserData): number[] => {
+    const providers: number[] = []
+    if (user.twoFactor?.authenticator) providers.push(TWO_FACTOR_AUTHENTICATOR)
+    if (user.twoFactor?.email) providers.push(TWO_FACTOR_EMAIL)
+    if (user.twoFactor?.webAuthn?.length) providers.push(TWO_FACTOR_WEBAUTHN)
+    return providers
+}
+
+/**
+ * Generates a 32-character recovery code (lowercase letters and digits),
+ * the same shape Bitwarden shows users.
+ */
+export const generateRecoveryCode = (): string => {
+    const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789'
+    let code = ''
+    while (code.length < 32) {
+        // 252 is the largest multiple of 36 below 256; skip bytes above it to avoid bias
+        for (const byte of crypto.getRandomValues(new Uint8Array(32))) {
+            if (byte < 252 && code.length < 32) code += alphabet[byte % 36]
+        }
+    }
+    return code
+}
+
+/** Compares a submitted recovery code, ignoring case and whitespace */
+export const recoveryCodeMatches = (user: UserData, input: string): boolean => {
+    const expected = user.twoFactor?.recoveryCode
+    if (!expected || !input) return false
+
+    const normalized = input.replace(/\s/g, '').toLowerCase()
+    if (normalized.length !== expected.length) return false
+
+    let diff = 0
+    for (let i = 0; i < expected.length; i++) {
+        diff |= normalized.charCodeAt(i) ^ expected.charCodeAt(i)
+    }
+    return diff === 0
+}
+
+/** Masks the local part of an address: "john@example.com" -> "jo**@example.com" */
+export const obscureEmail = (email: string): string => {
+    const [name, domain] = email.split('@')
+    const visible = name.length <= 2 ? '' : name.slice(0, 2)
+    return `${visible}${'*'.repeat(name.length - visible.length)}@${domain}`
+}
+
+// --------------------------------------------------------------------------
+// Email Codes
+// --------------------------------------------------------------------------
+
+/**
+ * Generates a 6-digit code for the user, stores it in KV and emails it.
+ * Any previously issued code for the same purpose is replaced.
+ */
+export const sendEmailCode = async (
+    env: Bindings,
+    userId: string,
+    email: string,
+    purpose: EmailCodePurpose
+): Promise<void> => {
+    const value = crypto.getRandomValues(new Uint32Array(1))[0] % 1000000
+    const code = value.toString().padStart(6, '0')
+
+    const entry: EmailCode = {
+        code,
+        email: email.toLowerCase(),
+        expiresAt: Date.now() + EMAIL_CODE_TTL * 1000,
+        attempts: 0
+    }
+    await env.DB.put(emailCodeKey(userId, purpose), JSON.stringify(entry))
+
+    const message = EMAIL_CODE_MESSAGES[purpose]
+    const sent = await sendMail(
+        env,
+        email,
+        message.subject,
+        `
+        <h1>${message.heading}</h1>
+        <p>Your verification code is:</p>
+        <pre style="background: #f4f4f4; padding: 10px; border-radius: 5px; font-size: 24px;">${code}</pre>
+        <p>This code will expire in 10 minutes.</p>
+        <p>${message.warning}</p>
+        `
+    )
+
+    if (!sent) {
+        console.log(`[NanoVault] Email code (${purpose}) for ${email}: ${code}`)
+    }
+}
+
+/** Whether an unexpired code for the purpose is waiting to be used */
+const hasPendingEmailCode = async (env: Bindings, userId: string, purpose: EmailCodePurpose): Promise<boolean> => {
+    const json = await env.DB.get(emailCodeKey(userId, purpose))
+    return !!json && Date.now() <= (JSON.parse(json) as EmailCode).expiresAt
+}
+
+/**
+ * Checks an emailed code for the user and the address it was sent to.
+ * The code is consumed on success and after too many failed attempts.
+ */
+export const verifyEmailCode = async (
+    env: Bindings,
+    userId: string,
+    email: string,
+    code: string,
+    purpose: EmailCodePurpose
+): Promise<boolean> => {
+    const key = emailCodeKey(userId, purpose)
+    const json = await env.DB.get(key)
+    if (!json) return false
+
+    const entry = JSON.parse(json) as EmailCode
+    if (Date.now() > entry.expiresAt || entry.email !== email.toLowerCase()) {
+        await env.DB.delete(key)
+        return false
+    }
+
+    if (entry.code !== code.trim()) {
+        entry.attempts += 1
+        if (entry.attempts >= EMAIL_CODE_MAX_ATTEMPTS) {
+            await env.DB.delete(key)
+        } else {
+            await env.DB.put(key, JSON.stringify(entry))
+        }
+        return false
+    }
+
+    await env.DB.delete(key)
+    return true
+}
+
+// --------------------------------------------------------------------------
+// WebAuthn Challenges
+// --------------------------------------------------------------------------
+
+const challengeKey = (userId: string, purpose: 'login' | 'register'): string => {
+    return purpose === 'login' ? `webauthn_challenge:${userId}` : `webauthn_register:${userId}`
+}
+
+/** Generates and stores a new WebAuthn challenge, replacing any pending one */
+export const createWebAuthnChallenge = async (
+    env: Bindings,
+    userId: string,
+    purpose: 'login' | 'register'
+): Promise<string> => {
+    const entry: PendingChallenge = {
+        challenge: generateChallenge(),
+        expiresAt: Date.now() + WEBAUTHN_CHALLENGE_TTL * 1000
+    }
+    await env.DB.put(challengeKey(userId, purpose), JSON.stringify(entry))
+    return entry.challenge
+}
+
+/** Returns and deletes the pending challenge, or null if missing or expired */
+export const consumeWebAuthnChallenge = async (
+    env: Bindings,
+    userId: string,
+    purpose: 'login' | 'register'
+): Promise<string | null> => {
+    const key = challengeKey(userId, purpose)
+    const json = await env.DB.get(key)
+    if (!json) return null
+
+    await env.DB.delete(key)
+    const entry = JSON.parse(json) as PendingChallenge
+    return Date.now() > entry.expiresAt ? null : entry.challenge
+}
+
+/** Drops every pending emailed code and WebAuthn challenge, when the account is deleted */
+export const deletePendingTwoFactor = async (env: Bindings, userId: string): Promise<void> => {
+    await env.DB.delete(emailCodeKey(userId, 'login'))
+    await env.DB.delete(emailCodeKey(userId, 'new-device'))
+    await env.DB.delete(challengeKey(userId, 'login'))
+    await env.DB.delete(challengeKey(userId, 'register'))
+}
+
+// --------------------------------------------------------------------------
+// Remember-Device Tokens
+// --------------------------------------------------------------------------
+
+const sha256Hex = async (value: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Issues a "remember this device" token and records its hash on the device.
+ * The caller persists the device; only the hash is ever stored.
+ */
+export const issueRememberToken = async (device: Device): Promise<string> => {
+    const token = generateChallenge()
+    device.twoFactorRemember = {
+        tokenHash: await sha256Hex(token),
+        expiresAt: new Date(Date.now() + REMEMBER_TOKEN_TTL * 1000).toISOString()
+    }
+    return token
+}
+
+/** Checks a remember token against the device record it was issued to */
+export const verifyRememberToken = async (
+    device: Device | null,
+    userId: string,
+    token: string
+): Promise<boolean> => {
+    const remember = device?.twoFactorRemember
+    if (!device || !remember || device.userId !== userId) return false
+    if (Date.now() > new Date(remember.expiresAt).getTime()) return false
+    return remember.tokenHash === await sha256Hex(token)
+}
+
+// --------------------------------------------------------------------------
+// Login Checks
+// --------------------------------------------------------------------------
+
+/**
+ * Builds the per-provider entry of the `TwoFactorProviders2` challenge.
+ * Email sends its code right away when it is the only provider,
+ * since the client will not offer a provider choice. A pending code is
+ * kept rather than replaced, so repeated logins neither resend mail nor
+ * reset the code's attempt count; clients resend through send-email-login.
+ *
+ * @param origin - Server origin the client authenticates against (WebAuthn RP)
+ */
+export const buildProviderChallenge = async (
+    env: Bindings,
+    user: UserData,
+    provider: number,
+    providers: number[],
+    origin: string
+): Promise<Record<string, any> | null> => {
+    if (provider === TWO_FACTOR_EMAIL && user.twoFactor?.email) {
+        const email = user.twoFactor.email.email
+        if (providers.length === 1 && !await hasPendingEmailCode(env, user.id, 'login')) {
+            const status = await throttle(env.DB, [{ scope: 'mail', subject: user.email, policy: MAIL_POLICY }])
+            if (status.allowed) {
+                await sendEmailCode(env, user.id, email, 'login')
+            }
+        }
+        return { Email: obscureEmail(email) }
+    }
+
+    if (provider === TWO_FACTOR_WEBAUTHN && user.twoFactor?.webAuthn?.length) {
+        const challenge = await createWebAuthnChallenge(env, user.id, 'login')
+        return {
+            challenge,
+            timeout: WEBAUTHN_TIMEOUT,
+            rpId: new URL(origin).hostname,
+            allowCredentials: user.twoFactor.webAuthn.map(k => ({
+                type: 'public-key',
+                id: k.credentialId
+            })),
+            userVerification: 'discouraged',
+            extensions: {},
+            status: 'ok',
+            errorMessage: ''
+        }
+    }
+
+    return null
+}
+
+/**
+ * Verifies a second-factor token submitted at login.
+ * Persists any provider state the check consumes (e.g. the TOTP step).
+ */
+export const verifyTwoFactorToken = async (
+    env: Bindings,
+    user: UserData,
+    provider: number,
+    token: string,
+    origin: string
+): Promise<boolean> => {
+    if (provider === TWO_FACTOR_AUTHENTICATOR) {
+        const authenticator = user.twoFactor?.authenticator
+        if (!authenticator) return false
+
+        const step = await verifyTotp(authenticator.key, token, authenticator.lastUsedStep)
+        if (step === null) return false
+
+        authenticator.lastUsedStep = step
+        await putUser(env.DB, user)
+        return true
+    }
+
+    if (provider === TWO_FACTOR_EMAIL) {
+        const settings = user.twoFactor?.email
+        if (!settings) return false
+        return await verifyEmailCode(env, user.id, settings.email, token, 'login')
+    }
+
+    if (provider === TWO_FACTOR_WEBAUTHN) {
+        return await verifyWebAuthnToken(env, user, token, origin)
+    }
+
+    return false
+}
+
+/**
+ * Checks a WebAuthn assertion sent as the two-factor token
+ * (JSON of the client's PublicKeyCredential, base64url fields).
+ */
+const verifyWebAuthnToken = async (
+    env: Bindings,
+    user: UserData,
+    token: string,
+    origin: string
+): Promise<boolean> => {
+    const keys = user.twoFactor?.webAuthn
+    if (!keys?.length) return false
+
+    const challenge = await consumeWebAuthnChallenge(env, user.id, 'login')
+    if (!challenge) return false
+
+    try {
+        const assertion = JSON.parse(token)
+        const credentialId = assertion.rawId ?? assertion.id
+        const credential = keys.find(k => k.credentialId === credentialId)
+        if (!credential) return false
+
+        const response = assertion.response ?? {}
+        credential.signCount = await verifyAssertion(credential, {
+            authenticatorData: response.authenticatorData,
+            clientDataJson: response.clientDataJson ?? response.clientDataJSON,
+            signature: response.signature,
+            challenge,
+            origin,
+            rpId: new URL(origin).hostname
+        })
+    } catch (e) {
+        console.log(`[NanoVault] WebAuthn assertion rejected: ${e instanceof Error ? e.message : e}`)
+        return false
+    }
+
+    await putUser(env.DB, user)
+    return true
+}
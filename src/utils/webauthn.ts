@@ -0,0 +1,313 @@
+/**
+ * WebAuthn Utility Functions
+ *
+ * Server-side registration and assertion checks for FIDO2 security keys.
+ * Parses CBOR attestation objects and COSE keys and verifies signatures
+ * with WebCrypto, so it runs on Workers and ESA without native modules.
+ *
+ * Attestation statements are not chain-verified: registration requests
+ * `attestation: 'none'`, so only the credential key itself is trusted.
+ */
+
+import type { WebAuthnCredential } from '../types'
+import { decodeCbor, decodeCborItem, type CborValue } from './cbor'
+import { toBase64Url, fromBase64Url } from './encoding'
+
+// COSE algorithm identifiers
+export const COSE_ALG_ES256 = -7
+export const COSE_ALG_EDDSA = -8
+export const COSE_ALG_RS256 = -257
+
+export const SUPPORTED_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256]
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01
+const FLAG_ATTESTED_CREDENTIAL = 0x40
+
+// --------------------------------------------------------------------------
+// Helpers
+// --------------------------------------------------------------------------
+
+/** Random 32-byte challenge, base64url encoded */
+export const generateChallenge = (): string => {
+    return toBase64Url(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+const sha256 = async (data: Uint8Array): Promise<Uint8Array> => {
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', data))
+}
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+    if (a.length !== b.length) return false
+    let diff = 0
+    for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i]
+    return diff === 0
+}
+
+const concat = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+    const out = new Uint8Array(a.length + b.length)
+    out.set(a)
+    out.set(b, a.length)
+    return out
+}
+
+// --------------------------------------------------------------------------
+// Parsing
+// --------------------------------------------------------------------------
+
+interface AuthenticatorData {
+    rpIdHash: Uint8Array
+    flags: number
+    signCount: number
+    credentialId?: Uint8Array
+    credentialPublicKey?: CborValue
+}
+
+const parseAuthenticatorData = (data: Uint8Array): AuthenticatorData => {
+    if (data.length < 37) {
+        throw new Error('Authenticator data too short')
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    const result: AuthenticatorData = {
+        rpIdHash: data.slice(0, 32),
+        flags: data[32],
+        signCount: view.getUint32(33)
+    }
+
+    if (result.flags & FLAG_ATTESTED_CREDENTIAL) {
+        // aaguid (16 bytes), credential ID length (2 bytes), credential ID, COSE key
+        let offset = 37 + 16
+        if (data.length < offset + 2) {
+            throw new Error('Attested credential data too short')
+        }
+        const idLength = view.getUint16(offset)
+        offset += 2
+        if (data.length < offset + idLength) {
+            throw new Error('Attested credential data too short')
+        }
+        result.credentialId = data.slice(offset, offset + idLength)
+        offset += idLength
+
+        // Extensions may follow the key, so decode only the first item
+        result.credentialPublicKey = decodeCborItem(data.subarray(offset)).value
+    }
+
+    return result
+}
+
+interface ClientData {
+    type: string
+    challenge: string
+    origin: string
+}
+
+const parseClientData = (clientDataJson: Uint8Array): ClientData => {
+    const parsed = JSON.parse(new TextDecoder().decode(clientDataJson))
+    if (!parsed || typeof parsed.type !== 'string' || typeof parsed.challenge !== 'string') {
+        throw new Error('Invalid client data')
+    }
+    return parsed as ClientData
+}
+
+/**
+ * Converts a COSE_Key map to a JWK plus its COSE algorithm.
+ * Supports EC2 P-256 (ES256), OKP Ed25519 (EdDSA) and RSA (RS256).
+ */
+const coseToJwk = (cose: CborValue): { jwk: JsonWebKey; algorithm: number } => {
+    if (!(cose instanceof Map)) {
+        throw new Error('Invalid credential public key')
+    }
+
+    const kty = cose.get(1)
+    const algorithm = cose.get(3)
+    const bytes = (label: number): string => {
+        const value = cose.get(label)
+        if (!(value instanceof Uint8Array)) {
+            throw new Error('Invalid credential public key')
+        }
+        return toBase64Url(value)
+    }
+
+    if (kty === 2 && algorithm === COSE_ALG_ES256 && cose.get(-1) === 1) {
+        return { jwk: { kty: 'EC', crv: 'P-256', x: bytes(-2), y: bytes(-3) }, algorithm }
+    }
+    if (kty === 1 && algorithm === COSE_ALG_EDDSA && cose.get(-1) === 6) {
+        return { jwk: { kty: 'OKP', crv: 'Ed25519', x: bytes(-2) }, algorithm }
+    }
+    if (kty === 3 && algorithm === COSE_ALG_RS256) {
+        return { jwk: { kty: 'RSA', n: bytes(-1), e: bytes(-2) }, algorithm }
+    }
+
+    throw new Error('Unsupported credential algorithm')
+}
+
+/** Converts a DER ECDSA signature to the raw r||s form WebCrypto expects */
+const derToRawSignature = (der: Uint8Array, size = 32): Uint8Array => {
+    if (der[0] !== 0x30) {
+        throw new Error('Invalid ECDSA signature')
+    }
+    let offset = der[1] & 0x80 ? 2 + (der[1] & 0x7f) : 2
+
+    const readInteger = (): Uint8Array => {
+        if (der[offset] !== 0x02) {
+            throw new Error('Invalid ECDSA signature')
+        }
+        const length = der[offset + 1]
+        let value = der.subarray(offset + 2, offset + 2 + length)
+        offset += 2 + length
+        while (value.length > size && value[0] === 0) value = value.subarray(1)
+        if (value.length > size) {
+            throw new Error('Invalid ECDSA signature')
+        }
+        const padded = new Uint8Array(size)
+        padded.set(value, size - value.length)
+        return padded
+    }
+
+    return concat(readInteger(), readInteger())
+}
+
+const verifySignature = async (
+    jwk: JsonWebKey,
+    algorithm: number,
+    signature: Uint8Array,
+    data: Uint8Array
+): Promise<boolean> => {
+    switch (algorithm) {
+        case COSE_ALG_ES256: {
+            const key = await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify'])
+            return await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, derToRawSignature(signature), data)
+        }
+        case COSE_ALG_EDDSA: {
+            const key = await crypto.subtle.importKey('jwk', jwk, { name: 'Ed25519' }, false, ['verify'])
+            return await crypto.subtle.verify({ name: 'Ed25519' }, key, signature, data)
+        }
+        case COSE_ALG_RS256: {
+            const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify'])
+            return await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data)
+        }
+    }
+    return false
+}
+
+const checkClientData = (clientData: ClientData, type: string, challenge: string, origin: string) => {
+    if (clientData.type !== type) {
+        throw new Error('Unexpected client data type')
+    }
+    if (clientData.challenge !== challenge) {
+        throw new Error('Challenge mismatch')
+    }
+    if (clientData.origin !== origin) {
+        throw new Error('Origin mismatch')
+    }
+}
+
+const checkAuthenticatorData = async (authData: AuthenticatorData, rpId: string) => {
+    const expectedHash = await sha256(new TextEncoder().encode(rpId))
+    if (!bytesEqual(authData.rpIdHash, expectedHash)) {
+        throw new Error('Relying party mismatch')
+    }
+    if (!(authData.flags & FLAG_USER_PRESENT)) {
+        throw new Error('User presence required')
+    }
+}
+
+// --------------------------------------------------------------------------
+// Registration
+// --------------------------------------------------------------------------
+
+export interface RegistrationInput {
+    attestationObject: string  // Base64url CBOR
+    clientDataJson: string     // Base64url JSON
+    challenge: string
+    origin: string
+    rpId: string
+}
+
+export interface RegisteredCredential {
+    credentialId: string
+    publicKey: JsonWebKey
+    algorithm: number
+    signCount: number
+}
+
+/**
+ * Verifies a `navigator.credentials.create()` response.
+ * Throws with a descriptive message if any check fails.
+ */
+export const verifyRegistration = async (input: RegistrationInput): Promise<RegisteredCredential> => {
+    const clientData = parseClientData(fromBase64Url(input.clientDataJson))
+    checkClientData(clientData, 'webauthn.create', input.challenge, input.origin)
+
+    const attestation = decodeCbor(fromBase64Url(input.attestationObject))
+    if (!(attestation instanceof Map)) {
+        throw new Error('Invalid attestation object')
+    }
+    const rawAuthData = attestation.get('authData')
+    if (!(rawAuthData instanceof Uint8Array)) {
+        throw new Error('Invalid attestation object')
+    }
+
+    const authData = parseAuthenticatorData(rawAuthData)
+    await checkAuthenticatorData(authData, input.rpId)
+    if (!authData.credentialId || authData.credentialPublicKey === undefined) {
+        throw new Error('Attested credential data missing')
+    }
+
+    const { jwk, algorithm } = coseToJwk(authData.credentialPublicKey)
+
+    return {
+        credentialId: toBase64Url(authData.credentialId),
+        publicKey: jwk,
+        algorithm,
+        signCount: authData.signCount
+    }
+}
+
+// --------------------------------------------------------------------------
+// Assertion
+// --------------------------------------------------------------------------
+
+export interface AssertionInput {
+    authenticatorData: string  // Base64url
+    clientDataJson: string     // Base64url JSON
+    signature: string          // Base64url
+    challenge: string
+    origin: string
+    rpId: string
+}
+
+/**
+ * Verifies a `navigator.credentials.get()` response against a stored credential.
+ * Throws with a descriptive message if any check fails.
+ *
+ * @returns The authenticator's new signature counter
+ */
+export const verifyAssertion = async (credential: WebAuthnCredential, input: AssertionInput): Promise<number> => {
+    const clientDataBytes = fromBase64Url(input.clientDataJson)
+    const clientData = parseClientData(clientDataBytes)
+    checkClientData(clientData, 'webauthn.get', input.challenge, input.origin)
+
+    const rawAuthData = fromBase64Url(input.authenticatorData)
+    const authData = parseAuthenticatorData(rawAuthData)
+    await checkAuthenticatorData(authData, input.rpId)
+
+    // A counter that fails to advance suggests a cloned authenticator
+    if ((authData.signCount !== 0 || credential.signCount !== 0) && authData.signCount <= credential.signCount) {
+        throw new Error('Signature counter did not increase')
+    }
+
+    const signedData = concat(rawAuthData, await sha256(clientDataBytes))
+    const valid = await verifySignature(
+        credential.publicKey,
+        credential.algorithm,
+        fromBase64Url(input.signature),
+        signedData
+    )
+    if (!valid) {
+        throw new Error('Invalid signature')
+    }
+
+    return authData.signCount
+}